@@ -0,0 +1,19 @@
+import eslint from '@eslint/js';
+import tseslint from 'typescript-eslint';
+
+export default tseslint.config(
+    eslint.configs.recommended,
+    ...tseslint.configs.recommended,
+    {
+        rules: {
+            // Request bodies, raw documents and aggregation results are typed loosely throughout
+            '@typescript-eslint/no-explicit-any': 'off',
+            // `declare global { namespace Express { ... } }` extends the request type
+            '@typescript-eslint/no-namespace': ['error', { allowDeclarations: true }],
+            '@typescript-eslint/no-unused-vars': ['error', { caughtErrors: 'none', argsIgnorePattern: '^_', ignoreRestSiblings: true }]
+        }
+    },
+    {
+        ignores: ['dist/**', 'node_modules/**']
+    }
+);
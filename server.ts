@@ -17,9 +17,17 @@ import teamsRoutes from './src/routes/teams';
 import exportRoutes from './src/routes/export';
 import authRoutes from './src/routes/auth';
 import organizationRoutes from './src/routes/organization';
+import sessionRoutes from './src/routes/sessions';
+import attendanceRoutes from './src/routes/attendance';
 
 import { MigrationRunner } from './src/migrations/migrationRunner';
+import { scheduleDailyStatsRollup } from './src/jobs/dailyStatsJob';
+import { startExportWorker } from './src/jobs/exportWorker';
+import { startImportWorker } from './src/jobs/importWorker';
+import { getQueueDriver, JobQueue } from './src/jobs/queue';
 import { resolveOrganization, authenticateUser } from './src/middleware/multiTenant';
+import { resolveTimezone } from './src/middleware/timezone';
+import { parseAnalyticsFilters } from './src/middleware/analyticsFilters';
 
 dotenv.config();
 
@@ -53,11 +61,14 @@ app.use("/api/organizations", organizationRoutes);
 
 app.use("/api/participants", resolveOrganization, authenticateUser, participantRoutes);
 app.use("/api/meetings", resolveOrganization, authenticateUser, meetingRoutes);
+app.use("/api/sessions", resolveOrganization, authenticateUser, sessionRoutes);
 app.use("/api/history", resolveOrganization, authenticateUser, historyRoutes);
-app.use("/api/dashboard", resolveOrganization, authenticateUser, dashboardRoutes);
-app.use("/api/analytics", resolveOrganization, authenticateUser, analyticsRoutes);
-app.use("/api/teams", resolveOrganization, authenticateUser, teamsRoutes);
-app.use("/api/export", resolveOrganization, authenticateUser, exportRoutes);
+app.use("/api/upload", resolveOrganization, authenticateUser, uploadRoutes);
+app.use("/api/dashboard", resolveOrganization, authenticateUser, resolveTimezone, parseAnalyticsFilters, dashboardRoutes);
+app.use("/api/analytics", resolveOrganization, authenticateUser, resolveTimezone, parseAnalyticsFilters, analyticsRoutes);
+app.use("/api/teams", resolveOrganization, authenticateUser, resolveTimezone, teamsRoutes);
+app.use("/api/export", exportRoutes);
+app.use("/api/attendance", attendanceRoutes);
 
 app.get('/api/health', (req, res) => {
   res.json({
@@ -83,12 +94,14 @@ app.get('/api', (req, res) => {
       auth: '/api/auth',
       organizations: '/api/organizations',
       meetings: '/api/meetings',
+      sessions: '/api/sessions',
       participants: '/api/participants',
       history: '/api/history',
       dashboard: '/api/dashboard',
       analytics: '/api/analytics',
       teams: '/api/teams',
       export: '/api/export',
+      attendance: '/api/attendance',
       health: '/api/health'
     },
     features: [
@@ -117,6 +130,12 @@ app.get('/api', (req, res) => {
 });
 
 app.use((err: any, req: any, res: any, next: any) => {
+  // Upload problems, such as a file over the size limit
+  if (err instanceof multer.MulterError) {
+    res.status(err.code === 'LIMIT_FILE_SIZE' ? 413 : 400).json({ error: err.message });
+    return;
+  }
+
   console.error('Unhandled error:', err);
   res.status(500).json({
     error: 'Internal server error',
@@ -131,14 +150,19 @@ app.use('*', (req, res) => {
   });
 });
 
+// Queues processed in this process, closed before the database so running jobs can finish
+let workerQueues: JobQueue<any>[] = [];
+
 process.on('SIGTERM', async () => {
   console.log('🛑 SIGTERM received, shutting down gracefully...');
+  await Promise.all(workerQueues.map(queue => queue.close()));
   await mongoose.connection.close();
   process.exit(0);
 });
 
 process.on('SIGINT', async () => {
   console.log('🛑 SIGINT received, shutting down gracefully...');
+  await Promise.all(workerQueues.map(queue => queue.close()));
   await mongoose.connection.close();
   process.exit(0);
 });
@@ -146,6 +170,14 @@ process.on('SIGINT', async () => {
 async function startServer() {
   await initializeDatabase();
 
+  scheduleDailyStatsRollup();
+
+  // The in-memory queue only lives in this process, so it has to work through its own exports and imports.
+  // With Redis, they are processed by `npm run worker`.
+  if (getQueueDriver() === 'memory') {
+    workerQueues = [...await startExportWorker(), await startImportWorker()];
+  }
+
   const server = app.listen(PORT, '0.0.0.0', () => {
     console.log(`🚀 Server running on port ${PORT}`);
     console.log(`📚 API Documentation available at http://localhost:${PORT}/api`);
@@ -6,7 +6,7 @@ import { AnalyticsService } from '../services/analyticsService';
  */
 export const getAnalyticsOverview: RequestHandler = async (req, res) => {
     try {
-        const overview = await AnalyticsService.getAnalyticsOverview();
+        const overview = await AnalyticsService.getAnalyticsOverview(req.analyticsFilters);
         res.json(overview);
     } catch (error) {
         console.error('Error getting analytics overview:', error);
@@ -22,8 +22,8 @@ export const getAnalyticsOverview: RequestHandler = async (req, res) => {
  */
 export const getWeeklyActivity: RequestHandler = async (req, res) => {
     try {
-        const data = await AnalyticsService.getWeeklyActivity();
-        res.json({ data });
+        const activity = await AnalyticsService.getWeeklyActivity(req.analyticsFilters);
+        res.json(activity);
     } catch (error) {
         console.error('Error getting weekly activity:', error);
         res.status(500).json({
@@ -38,8 +38,8 @@ export const getWeeklyActivity: RequestHandler = async (req, res) => {
  */
 export const getDepartmentPerformance: RequestHandler = async (req, res) => {
     try {
-        const departments = await AnalyticsService.getDepartmentPerformance();
-        res.json({ departments });
+        const performance = await AnalyticsService.getDepartmentPerformance(req.analyticsFilters);
+        res.json(performance);
     } catch (error) {
         console.error('Error getting department performance:', error);
         res.status(500).json({
@@ -54,10 +54,25 @@ export const getDepartmentPerformance: RequestHandler = async (req, res) => {
  */
 export const getSelectionFairness: RequestHandler = async (req, res) => {
     try {
-        const meetingId = req.query.meetingId as string;
-        const fairness = await AnalyticsService.getSelectionFairness(meetingId);
+        const { alpha } = req.query as Record<string, string | undefined>;
+
+        const significanceLevel = alpha !== undefined ? Number(alpha) : undefined;
+        if (significanceLevel !== undefined && !(significanceLevel > 0 && significanceLevel < 1)) {
+            res.status(400).json({ error: 'alpha must be between 0 and 1' });
+            return;
+        }
+
+        const fairness = await AnalyticsService.getSelectionFairness({
+            ...req.analyticsFilters,
+            significanceLevel
+        });
         res.json(fairness);
     } catch (error) {
+        if (error instanceof Error && error.message === 'Meeting not found') {
+            res.status(404).json({ error: error.message });
+            return;
+        }
+
         console.error('Error getting selection fairness:', error);
         res.status(500).json({
             error: 'Error fetching selection fairness data',
@@ -71,7 +86,7 @@ export const getSelectionFairness: RequestHandler = async (req, res) => {
  */
 export const getPeakHours: RequestHandler = async (req, res) => {
     try {
-        const peakHours = await AnalyticsService.getPeakHours();
+        const peakHours = await AnalyticsService.getPeakHours(req.analyticsFilters);
         res.json(peakHours);
     } catch (error) {
         console.error('Error getting peak hours:', error);
@@ -87,7 +102,7 @@ export const getPeakHours: RequestHandler = async (req, res) => {
  */
 export const getEngagementScore: RequestHandler = async (req, res) => {
     try {
-        const engagement = await AnalyticsService.getEngagementScore();
+        const engagement = await AnalyticsService.getEngagementScore(req.analyticsFilters);
         res.json(engagement);
     } catch (error) {
         console.error('Error getting engagement score:', error);
@@ -97,3 +112,19 @@ export const getEngagementScore: RequestHandler = async (req, res) => {
         });
     }
 };
+
+/**
+ * Get attendance rates per participant and per team
+ */
+export const getAttendanceRates: RequestHandler = async (req, res) => {
+    try {
+        const attendance = await AnalyticsService.getAttendanceRates(req.analyticsFilters);
+        res.json(attendance);
+    } catch (error) {
+        console.error('Error getting attendance rates:', error);
+        res.status(500).json({
+            error: 'Error fetching attendance rates',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
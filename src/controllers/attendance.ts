@@ -0,0 +1,156 @@
+import { RequestHandler } from 'express';
+import Meeting from '../models/meeting';
+import { AttendanceService } from '../services/attendanceService';
+
+const ATTENDANCE_CLIENT_ERRORS = ['Invalid attendance date', 'Participant is not on this meeting'];
+const CHECK_IN_NOT_FOUND_ERRORS = ['Invalid or expired check-in link', 'Meeting not found'];
+
+/**
+ * Mark attendance for a meeting day, in bulk
+ */
+export const markAttendance: RequestHandler = async (req, res) => {
+    try {
+        const { records = [], date, defaultStatus } = req.body;
+
+        const validationError = AttendanceService.validateMarks(records, defaultStatus);
+        if (validationError) {
+            res.status(400).json({ error: validationError });
+            return;
+        }
+
+        const meeting = await Meeting.findById(req.params.id);
+        if (!meeting) {
+            res.status(404).json({ error: 'Meeting not found' });
+            return;
+        }
+
+        const attendance = await AttendanceService.markAttendance(meeting, records, {
+            date,
+            defaultStatus,
+            markedBy: req.user?._id
+        });
+        res.json({ message: 'Attendance recorded successfully', ...attendance });
+    } catch (error) {
+        if (error instanceof Error && ATTENDANCE_CLIENT_ERRORS.includes(error.message)) {
+            res.status(400).json({ error: error.message });
+            return;
+        }
+        console.error('Error recording attendance:', error);
+        res.status(500).json({
+            error: 'Error recording attendance',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+/**
+ * Get the attendance list of a meeting day, today by default
+ */
+export const getAttendance: RequestHandler = async (req, res) => {
+    try {
+        const meeting = await Meeting.findById(req.params.id);
+        if (!meeting) {
+            res.status(404).json({ error: 'Meeting not found' });
+            return;
+        }
+
+        const attendance = await AttendanceService.getAttendance(meeting, req.query.date as string | undefined);
+        res.json(attendance);
+    } catch (error) {
+        if (error instanceof Error && ATTENDANCE_CLIENT_ERRORS.includes(error.message)) {
+            res.status(400).json({ error: error.message });
+            return;
+        }
+        console.error('Error fetching attendance:', error);
+        res.status(500).json({
+            error: 'Error fetching attendance',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+/**
+ * Create personal self check-in links for a meeting day
+ */
+export const createCheckInLinks: RequestHandler = async (req, res) => {
+    try {
+        const { date, lateAfter, expiresInMinutes } = req.body;
+
+        const lateAfterDate = lateAfter ? new Date(lateAfter) : undefined;
+        if (lateAfterDate && isNaN(lateAfterDate.getTime())) {
+            res.status(400).json({ error: 'lateAfter must be a date' });
+            return;
+        }
+        if (expiresInMinutes !== undefined && !(Number.isInteger(expiresInMinutes) && expiresInMinutes > 0 && expiresInMinutes <= 24 * 60)) {
+            res.status(400).json({ error: 'expiresInMinutes must be a whole number of minutes up to a day' });
+            return;
+        }
+
+        const meeting = await Meeting.findById(req.params.id);
+        if (!meeting) {
+            res.status(404).json({ error: 'Meeting not found' });
+            return;
+        }
+
+        const checkIn = await AttendanceService.createCheckInLinks(meeting, { date, lateAfter: lateAfterDate, expiresInMinutes });
+        res.status(201).json({ message: 'Check-in links created successfully', ...checkIn });
+    } catch (error) {
+        if (error instanceof Error && ATTENDANCE_CLIENT_ERRORS.includes(error.message)) {
+            res.status(400).json({ error: error.message });
+            return;
+        }
+        console.error('Error creating check-in links:', error);
+        res.status(500).json({
+            error: 'Error creating check-in links',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+/**
+ * Get the meeting day a check-in link is for
+ */
+export const getCheckIn: RequestHandler = async (req, res) => {
+    try {
+        const checkIn = await AttendanceService.getCheckIn(req.params.token);
+        res.json(checkIn);
+    } catch (error) {
+        if (error instanceof Error && CHECK_IN_NOT_FOUND_ERRORS.includes(error.message)) {
+            res.status(404).json({ error: error.message });
+            return;
+        }
+        console.error('Error fetching check-in:', error);
+        res.status(500).json({
+            error: 'Error fetching check-in',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+/**
+ * Check in to a meeting through a check-in link
+ */
+export const checkIn: RequestHandler = async (req, res) => {
+    try {
+        const result = await AttendanceService.checkIn(req.params.token);
+        res.json({ message: 'Checked in successfully', ...result });
+    } catch (error) {
+        if (error instanceof Error && CHECK_IN_NOT_FOUND_ERRORS.includes(error.message)) {
+            res.status(404).json({ error: error.message });
+            return;
+        }
+        if (error instanceof Error && error.message === 'Participant is not on this meeting') {
+            res.status(403).json({ error: error.message });
+            return;
+        }
+        if (error instanceof Error && error.message === 'Attendance has already been marked for this meeting day') {
+            res.status(409).json({ error: error.message });
+            return;
+        }
+        console.error('Error checking in:', error);
+        res.status(500).json({
+            error: 'Error checking in',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
@@ -198,7 +198,18 @@ export const updateProfile: RequestHandler = async (req, res) => {
         if (department !== undefined) updateData.department = department;
         if (role !== undefined) updateData.role = role;
         if (avatarUrl !== undefined) updateData.avatarUrl = avatarUrl;
-        if (settings) updateData.settings = { ...updateData.settings, ...settings };
+        // Update only the settings that were sent so the rest keep their values
+        if (settings) {
+            for (const [group, values] of Object.entries(settings as Record<string, any>)) {
+                if (values && typeof values === 'object') {
+                    for (const [key, value] of Object.entries(values)) {
+                        updateData[`settings.${group}.${key}`] = value;
+                    }
+                } else {
+                    updateData[`settings.${group}`] = values;
+                }
+            }
+        }
 
         const user = await User.findByIdAndUpdate(
             req.user._id,
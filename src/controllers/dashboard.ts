@@ -6,7 +6,7 @@ import { AnalyticsService } from '../services/analyticsService';
  */
 export const getDashboardStats: RequestHandler = async (req, res) => {
     try {
-        const stats = await AnalyticsService.getDashboardStats();
+        const stats = await AnalyticsService.getDashboardStats(req.analyticsFilters);
         res.json(stats);
     } catch (error) {
         console.error('Error getting dashboard stats:', error);
@@ -23,11 +23,9 @@ export const getDashboardStats: RequestHandler = async (req, res) => {
 export const getRecentMeetings: RequestHandler = async (req, res) => {
     try {
         const limit = req.query.limit ? parseInt(req.query.limit as string) : 5;
-        const meetings = await AnalyticsService.getRecentMeetings(limit);
+        const meetings = await AnalyticsService.getRecentMeetings(limit, req.analyticsFilters);
 
-        res.json({
-            meetings
-        });
+        res.json(meetings);
     } catch (error) {
         console.error('Error getting recent meetings:', error);
         res.status(500).json({
@@ -43,11 +41,9 @@ export const getRecentMeetings: RequestHandler = async (req, res) => {
 export const getTopParticipants: RequestHandler = async (req, res) => {
     try {
         const limit = req.query.limit ? parseInt(req.query.limit as string) : 10;
-        const participants = await AnalyticsService.getTopParticipants(limit);
+        const participants = await AnalyticsService.getTopParticipants(limit, req.analyticsFilters);
 
-        res.json({
-            participants
-        });
+        res.json(participants);
     } catch (error) {
         console.error('Error getting top participants:', error);
         res.status(500).json({
@@ -1,72 +1,118 @@
-import { RequestHandler } from 'express';
-import path from 'path';
-import fs from 'fs';
+import { Request, RequestHandler } from 'express';
+import mongoose from 'mongoose';
 import { ExportService } from '../services/exportService';
+import { ExportScheduleService, ExportScheduleInput } from '../services/exportScheduleService';
+import { DEFAULT_TIMEZONE } from '../services/timezoneService';
+import { DELIVERY_TRANSPORTS } from '../models/ExportSchedule';
+import { ExportType, getExportFormat, listExportFormats } from '../services/exportFormats';
+import { ExportFormat } from '../models/ExportJob';
+
+/**
+ * Determine export type from route
+ */
+const getExportType = (req: Request): ExportType | null => {
+    const routePath = req.route.path;
+
+    if (routePath.includes('/meeting/') || routePath.includes('/meetings')) {
+        return 'meeting';
+    } else if (routePath.includes('/analytics')) {
+        return 'analytics';
+    } else if (routePath.includes('/participants')) {
+        return 'participants';
+    } else if (routePath.includes('/teams')) {
+        return 'teams';
+    }
+    return null;
+};
+
+/**
+ * Check a requested format exists and can represent the export type, returning the error if not
+ */
+const validateExportFormat = (format: unknown, exportType: ExportType): string | null => {
+    const writer = typeof format === 'string' ? getExportFormat(format) : undefined;
+    if (!writer) {
+        return `Valid format (${listExportFormats().map(f => f.name).join(', ')}) is required`;
+    }
+    if (writer.types && !writer.types.includes(exportType)) {
+        return `The ${writer.name} format is only available for ${writer.types.join(', ')} exports`;
+    }
+    return null;
+};
+
+/**
+ * Build export filters from the request body or query
+ */
+const buildExportFilters = (req: Request, exportType: ExportType, input: any) => {
+    const filters: any = {};
+
+    if (exportType === 'meeting' && req.params.id) {
+        filters.meetingId = req.params.id;
+    }
+
+    if (input.includeHistory !== undefined) {
+        filters.includeHistory = input.includeHistory;
+    }
+
+    if (input.dateRange) {
+        filters.dateRange = input.dateRange;
+    }
+
+    if (input.department) {
+        filters.department = input.department;
+    }
+
+    if (input.teamId) {
+        filters.teamId = input.teamId;
+    }
+
+    return filters;
+};
 
 /**
  * Create export job
  */
 export const createExportJob: RequestHandler = async (req, res) => {
     try {
-        const { format, includeHistory, dateRange } = req.body;
+        const { format, visibility } = req.body;
 
-        if (!format || !['json', 'csv', 'excel'].includes(format)) {
-            res.status(400).json({ error: 'Valid format (json, csv, excel) is required' });
+        if (visibility !== undefined && !['organization', 'owner'].includes(visibility)) {
+            res.status(400).json({ error: 'visibility must be organization or owner' });
             return;
         }
 
-        // Determine export type from route
-        let exportType: 'meeting' | 'analytics' | 'participants' | 'teams';
-        const routePath = req.route.path;
-
-        if (routePath.includes('/meeting/')) {
-            exportType = 'meeting';
-        } else if (routePath.includes('/analytics')) {
-            exportType = 'analytics';
-        } else if (routePath.includes('/participants')) {
-            exportType = 'participants';
-        } else if (routePath.includes('/teams')) {
-            exportType = 'teams';
-        } else {
+        const exportType = getExportType(req);
+        if (!exportType) {
             res.status(400).json({ error: 'Invalid export type' });
             return;
         }
 
-        // Build filters
-        const filters: any = {};
-
-        if (exportType === 'meeting' && req.params.id) {
-            filters.meetingId = req.params.id;
-        }
-
-        if (includeHistory !== undefined) {
-            filters.includeHistory = includeHistory;
-        }
-
-        if (dateRange) {
-            filters.dateRange = dateRange;
-        }
-
-        if (req.body.department) {
-            filters.department = req.body.department;
+        const formatError = validateExportFormat(format, exportType);
+        if (formatError) {
+            res.status(400).json({ error: formatError });
+            return;
         }
 
-        if (req.body.teamId) {
-            filters.teamId = req.body.teamId;
-        }
+        const filters = buildExportFilters(req, exportType, req.body);
 
         // Create export job
         const job = await ExportService.createExportJob(
             exportType,
             format,
-            filters
+            filters,
+            {
+                organizationId: req.user?.organizationId,
+                userId: req.user?._id,
+                visibility
+            }
         );
 
         res.json({
             jobId: job._id,
             status: job.status,
+            progress: job.progress,
             type: job.type,
             format: job.format,
+            visibility: job.visibility,
             createdAt: job.createdAt,
             expiresAt: job.expiresAt
         });
@@ -84,7 +130,7 @@ export const createExportJob: RequestHandler = async (req, res) => {
  */
 export const getExportJobStatus: RequestHandler = async (req, res) => {
     try {
-        const status = await ExportService.getExportJobStatus(req.params.exportId);
+        const status = await ExportService.getExportJobStatus(req.params.exportId, req.user?._id);
         res.json(status);
     } catch (error) {
         console.error('Error getting export job status:', error);
@@ -102,72 +148,239 @@ export const getExportJobStatus: RequestHandler = async (req, res) => {
 };
 
 /**
- * Download export file
+ * Download an export file with a signed download token
  */
 export const downloadExportFile: RequestHandler = async (req, res) => {
     try {
-        const fileName = req.params.fileName;
-
-        // Validate file name to prevent directory traversal
-        if (fileName.includes('..') || fileName.includes('/') || fileName.includes('\\')) {
-            res.status(400).json({ error: 'Invalid file name' });
-            return;
-        }
-
-        const filePath = ExportService.getDownloadFilePath(fileName);
+        const download = await ExportService.getDownload(req.params.token, {
+            ipAddress: req.ip,
+            userAgent: req.get('user-agent')
+        });
 
-        // Check if file exists
-        if (!fs.existsSync(filePath)) {
-            res.status(404).json({ error: 'File not found or expired' });
+        // Storage that serves files itself (e.g. S3) gets a short-lived presigned URL
+        if (download.redirectUrl) {
+            res.redirect(302, download.redirectUrl);
             return;
         }
 
-        // Get file stats
-        const stats = fs.statSync(filePath);
-        const fileSize = stats.size;
-
-        // Set appropriate headers
-        const fileExtension = path.extname(fileName).toLowerCase();
-        let contentType = 'application/octet-stream';
-
-        switch (fileExtension) {
-            case '.json':
-                contentType = 'application/json';
-                break;
-            case '.csv':
-                contentType = 'text/csv';
-                break;
-            case '.xlsx':
-                contentType = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
-                break;
+        res.setHeader('Content-Type', download.contentType);
+        if (download.size !== undefined) {
+            res.setHeader('Content-Length', download.size);
         }
-
-        res.setHeader('Content-Type', contentType);
-        res.setHeader('Content-Length', fileSize);
-        res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+        res.setHeader('Content-Disposition', `attachment; filename="${download.fileName}"`);
 
         // Stream the file
-        const fileStream = fs.createReadStream(filePath);
+        const fileStream = download.stream!;
         fileStream.pipe(res);
 
         fileStream.on('error', (error) => {
             console.error('Error streaming file:', error);
             if (!res.headersSent) {
                 res.status(500).json({ error: 'Error downloading file' });
+            } else {
+                res.destroy(error);
             }
         });
 
     } catch (error) {
-        console.error('Error downloading export file:', error);
+        if (error instanceof Error && error.message === 'Invalid or expired download token') {
+            res.status(403).json({ error: error.message });
+            return;
+        }
 
-        if (error instanceof Error && error.message === 'File not found or expired') {
-            res.status(404).json({ error: 'File not found or expired' });
+        if (error instanceof Error && ['Export job not found', 'File not found or expired'].includes(error.message)) {
+            res.status(404).json({ error: error.message });
             return;
         }
 
+        if (error instanceof Error && error.message === 'Export is not ready for download') {
+            res.status(409).json({ error: error.message });
+            return;
+        }
+
+        console.error('Error downloading export file:', error);
         res.status(500).json({
             error: 'Error downloading file',
             details: error instanceof Error ? error.message : 'Unknown error'
         });
     }
 };
+
+/**
+ * Stream an export straight into the response, without an export job
+ */
+export const streamExport: RequestHandler = async (req, res) => {
+    try {
+        const format = req.query.format as string;
+
+        const exportType = getExportType(req);
+        if (!exportType) {
+            res.status(400).json({ error: 'Invalid export type' });
+            return;
+        }
+
+        const formatError = validateExportFormat(format, exportType);
+        if (formatError) {
+            res.status(400).json({ error: formatError });
+            return;
+        }
+
+        const { from, to, includeHistory } = req.query;
+        if ((from || to) && (!from || !to || isNaN(Date.parse(from as string)) || isNaN(Date.parse(to as string)))) {
+            res.status(400).json({ error: 'from and to must both be valid dates' });
+            return;
+        }
+
+        const filters = buildExportFilters(req, exportType, {
+            ...req.query,
+            includeHistory: includeHistory === undefined ? undefined : includeHistory === 'true',
+            dateRange: from ? { start: from, end: to } : undefined
+        });
+
+        const exportStream = await ExportService.createExportStream(exportType, format as ExportFormat, filters, {
+            userId: req.user?._id,
+            ipAddress: req.ip,
+            userAgent: req.get('user-agent')
+        });
+
+        res.setHeader('Content-Type', exportStream.contentType);
+        res.setHeader('Content-Disposition', `attachment; filename="${exportStream.fileName}"`);
+        res.setHeader('X-Export-Records', String(exportStream.records));
+
+        await exportStream.write(res);
+    } catch (error) {
+        console.error('Error streaming export:', error);
+
+        // Once streaming has started the status is sent, so the client only sees a cut-off response
+        if (res.headersSent) {
+            res.destroy();
+            return;
+        }
+
+        if (error instanceof Error && error.message === 'Export too large to stream') {
+            res.status(413).json({
+                error: error.message,
+                details: 'Create an export job for this export instead'
+            });
+            return;
+        }
+
+        res.status(500).json({
+            error: 'Error streaming export',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+/**
+ * List the organization's export schedules
+ */
+export const getExportSchedules: RequestHandler = async (req, res) => {
+    try {
+        const schedules = await ExportScheduleService.listSchedules();
+        res.json({ schedules });
+    } catch (error) {
+        console.error('Error getting export schedules:', error);
+        res.status(500).json({
+            error: 'Error fetching export schedules',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+/**
+ * Create a recurring export delivered to its recipients
+ */
+export const createExportSchedule: RequestHandler = async (req, res) => {
+    try {
+        const { name, cron, timezone, type, format, filters, transport, recipients, includeSubscribers } = req.body;
+
+        if (!name || !cron) {
+            res.status(400).json({ error: 'name and cron are required' });
+            return;
+        }
+
+        if (!['meeting', 'analytics', 'participants', 'teams'].includes(type)) {
+            res.status(400).json({ error: 'Valid type (meeting, analytics, participants, teams) is required' });
+            return;
+        }
+
+        if (!DELIVERY_TRANSPORTS.includes(transport)) {
+            res.status(400).json({ error: `Valid transport (${DELIVERY_TRANSPORTS.join(', ')}) is required` });
+            return;
+        }
+
+        if (recipients !== undefined && (!Array.isArray(recipients) || recipients.some(r => typeof r !== 'string'))) {
+            res.status(400).json({ error: 'recipients must be an array of strings' });
+            return;
+        }
+
+        const input: ExportScheduleInput = {
+            name,
+            cron,
+            timezone: timezone || req.organization?.settings?.timezone || DEFAULT_TIMEZONE,
+            type,
+            format,
+            filters: {
+                meetingId: filters?.meetingId,
+                department: filters?.department,
+                teamId: filters?.teamId,
+                includeHistory: filters?.includeHistory,
+                lastDays: filters?.lastDays
+            },
+            transport,
+            recipients,
+            includeSubscribers: includeSubscribers === true
+        };
+
+        const problem = ExportScheduleService.validateSchedule(input);
+        if (problem) {
+            res.status(400).json({ error: problem });
+            return;
+        }
+
+        const schedule = await ExportScheduleService.createSchedule(input, req.user?._id);
+
+        res.status(201).json({
+            message: 'Export schedule created successfully',
+            schedule
+        });
+    } catch (error) {
+        if (error instanceof mongoose.Error.ValidationError || error instanceof mongoose.Error.CastError) {
+            res.status(400).json({ error: 'Invalid export schedule', details: error.message });
+            return;
+        }
+
+        console.error('Error creating export schedule:', error);
+        res.status(500).json({
+            error: 'Error creating export schedule',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+/**
+ * Delete an export schedule
+ */
+export const deleteExportSchedule: RequestHandler = async (req, res) => {
+    try {
+        if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+            res.status(404).json({ error: 'Export schedule not found' });
+            return;
+        }
+
+        await ExportScheduleService.deleteSchedule(req.params.id);
+        res.json({ message: 'Export schedule deleted successfully' });
+    } catch (error) {
+        if (error instanceof Error && error.message === 'Export schedule not found') {
+            res.status(404).json({ error: error.message });
+            return;
+        }
+
+        console.error('Error deleting export schedule:', error);
+        res.status(500).json({
+            error: 'Error deleting export schedule',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
@@ -0,0 +1,76 @@
+import { RequestHandler } from 'express';
+import mongoose from 'mongoose';
+import Meeting from '../models/meeting';
+import { GROUPING_MODES, GroupingMode } from '../models/GroupRound';
+import { GroupingService } from '../services/groupingService';
+
+const GROUPING_CLIENT_ERRORS = [
+    'A keep-together set is larger than the groups',
+    'Participants cannot be kept both together and apart',
+    'Too many participants to group'
+];
+
+/**
+ * Split a meeting's present participants into breakout groups or pairs
+ */
+export const createGroups: RequestHandler = async (req, res) => {
+    try {
+        const validationError = GroupingService.validate(req.body);
+        if (validationError) {
+            res.status(400).json({ error: validationError });
+            return;
+        }
+
+        const meeting = await Meeting.findById(req.params.id);
+        if (!meeting) {
+            res.status(404).json({ error: 'Meeting not found' });
+            return;
+        }
+
+        const round = await GroupingService.createGroups(meeting, req.body, req.user?._id);
+        res.status(round.dryRun ? 200 : 201).json(round);
+    } catch (error) {
+        if (error instanceof Error && GROUPING_CLIENT_ERRORS.includes(error.message)) {
+            res.status(400).json({ error: error.message });
+            return;
+        }
+        if (error instanceof Error && error.message === 'No eligible participants found') {
+            res.status(404).json({ error: error.message });
+            return;
+        }
+        console.error('Error creating groups:', error);
+        res.status(500).json({
+            error: 'Error creating groups',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+/**
+ * Get a meeting's recent group rounds, newest first
+ */
+export const getGroupRounds: RequestHandler = async (req, res) => {
+    try {
+        const mode = req.query.mode as GroupingMode | undefined;
+        if (mode && !GROUPING_MODES.includes(mode)) {
+            res.status(400).json({ error: `mode must be one of: ${GROUPING_MODES.join(', ')}` });
+            return;
+        }
+
+        const meeting = await Meeting.findById(req.params.id).select('_id');
+        if (!meeting) {
+            res.status(404).json({ error: 'Meeting not found' });
+            return;
+        }
+
+        const limit = req.query.limit ? Math.min(parseInt(req.query.limit as string) || 20, 100) : 20;
+        const rounds = await GroupingService.listRounds(meeting._id as mongoose.Types.ObjectId, { mode, limit });
+        res.json({ rounds });
+    } catch (error) {
+        console.error('Error fetching group rounds:', error);
+        res.status(500).json({
+            error: 'Error fetching group rounds',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
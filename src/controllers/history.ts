@@ -1,11 +1,105 @@
 import { RequestHandler } from 'express';
 
 import SelectionHistory from '../models/selectionHistory';
-import SelectionRecord from '../models/SelectionRecord';
-import Participant from '../models/participant';
+import SelectionRecord, { ISelectionAudit, ISelectionRecord } from '../models/SelectionRecord';
+import SeedCommitment from '../models/SeedCommitment';
+import Participant, { IParticipant } from '../models/participant';
 import Meeting from '../models/meeting';
+import SpinSession, { SpeakingOrderAction } from '../models/SpinSession';
 import mongoose from 'mongoose';
 import { v4 as uuidv4 } from 'uuid';
+import { EligibilityPool, SelectionService } from '../services/selectionService';
+import { getSelectionStrategy } from '../services/selectionStrategies';
+import { RandomnessService } from '../services/randomness';
+import { DailyStatsService } from '../services/dailyStatsService';
+import { MeetingMembershipService } from '../services/meetingMembershipService';
+
+const COMMITMENT_EXPIRY_MINUTES = 60;
+// History pages are read from the start when speaking order events are merged in, so both ends are bounded
+const MAX_HISTORY_LIMIT = 500;
+const MAX_HISTORY_OFFSET = 10000;
+
+const formatSelection = (participant: IParticipant, record: ISelectionRecord, pool: EligibilityPool) => ({
+    id: participant._id,
+    name: participant.name,
+    email: participant.email,
+    role: participant.role,
+    department: participant.department,
+    selectionCount: participant.selectionCount + 1,
+    lastSelected: record.selectedAt,
+    // Selections in the meeting's fairness scope, this one included
+    fairnessScope: pool.fairnessScope,
+    scopedSelectionCount: SelectionService.statisticsOf(participant, pool.statistics).selectionCount + 1
+});
+
+const formatHistoryRecord = (record: ISelectionRecord, meetingName: string, audit: Partial<ISelectionAudit>) => ({
+    id: record._id,
+    meetingId: record.meetingId,
+    meetingName,
+    department: record.department,
+    participantId: record.participantId,
+    participantName: record.participantName,
+    selectedAt: record.selectedAt,
+    sessionId: record.sessionId,
+    selectionMethod: record.selectionMethod,
+    assignedRole: record.assignedRole,
+    audit: SelectionService.formatAudit(audit)
+});
+
+type HistoryAction = 'selected' | Exclude<SpeakingOrderAction, 'next'>;
+
+/**
+ * Skips and moves to the end of speaking orders as history entries, newest first.
+ * Their turns (`next`) are already in the history as selection records.
+ */
+const getSpeakingOrderEvents = async (filter: { department?: any; meetingId?: any; participantId?: any }, limit: number) => {
+    const objectIdOf = (id: any) => (mongoose.Types.ObjectId.isValid(id) ? new mongoose.Types.ObjectId(id) : id);
+
+    const events = await SpinSession.aggregate([
+        {
+            $match: {
+                mode: 'order',
+                'events.action': { $in: ['skip', 'move-to-end'] },
+                ...(filter.department && { department: filter.department }),
+                ...(filter.meetingId && { meetingId: objectIdOf(filter.meetingId) })
+            }
+        },
+        { $unwind: '$events' },
+        {
+            $match: {
+                'events.action': { $in: ['skip', 'move-to-end'] },
+                ...(filter.participantId && { 'events.participantId': objectIdOf(filter.participantId) })
+            }
+        },
+        { $sort: { 'events.at': -1 } },
+        { $limit: limit },
+        {
+            $project: {
+                meetingId: 1,
+                department: 1,
+                selectionMethod: 1,
+                event: '$events'
+            }
+        }
+    ]);
+
+    const meetings = await Meeting.find({ _id: { $in: [...new Set(events.map(e => e.meetingId.toString()))] } }).select('name').lean();
+    const meetingNameOf = new Map(meetings.map(meeting => [meeting._id.toString(), meeting.name]));
+
+    return events.map(({ _id, meetingId, department, selectionMethod, event }) => ({
+        id: `${_id}:${event.action}:${new Date(event.at).getTime()}`,
+        action: event.action as HistoryAction,
+        meetingId,
+        meetingName: meetingNameOf.get(meetingId.toString()) || 'Unknown Meeting',
+        department,
+        participantId: event.participantId,
+        participantName: event.participantName,
+        selectedAt: event.at as Date,
+        selectionMethod,
+        sessionId: _id.toString(),
+        performedBy: event.performedBy
+    }));
+};
 
 export const getSelectionHistory: RequestHandler = async (req, res) => {
     try {
@@ -15,20 +109,35 @@ export const getSelectionHistory: RequestHandler = async (req, res) => {
         if (req.query.meetingId) filter.meetingId = req.query.meetingId;
         if (req.query.participantId) filter.participantId = req.query.participantId;
 
-        const limit = req.query.limit ? parseInt(req.query.limit as string) : 100;
-        const offset = req.query.offset ? parseInt(req.query.offset as string) : 0;
-
-        // Use new SelectionRecord model but return in backward-compatible format
-        const records = await SelectionRecord.find(filter)
-            .sort({ selectedAt: -1 })
-            .skip(offset)
-            .limit(limit)
-            .populate('participantId', 'name email')
-            .populate('meetingId', 'name');
+        const limit = req.query.limit !== undefined ? Number(req.query.limit) : 100;
+        const offset = req.query.offset !== undefined ? Number(req.query.offset) : 0;
+        if (!Number.isInteger(limit) || limit < 1) {
+            res.status(400).json({ error: 'limit must be a positive whole number' });
+            return;
+        }
+        if (!Number.isInteger(offset) || offset < 0 || offset > MAX_HISTORY_OFFSET) {
+            res.status(400).json({ error: `offset must be a whole number from 0 to ${MAX_HISTORY_OFFSET}` });
+            return;
+        }
+        const pageSize = Math.min(limit, MAX_HISTORY_LIMIT);
+        const includeSpeakingOrderEvents = req.query.speakingOrderEvents !== 'false';
+
+        // Use new SelectionRecord model but return in backward-compatible format.
+        // Skips and moves to the end of speaking orders are merged in, so both lists are read up to the page end.
+        const [records, events] = await Promise.all([
+            SelectionRecord.find(filter)
+                .sort({ selectedAt: -1 })
+                .skip(includeSpeakingOrderEvents ? 0 : offset)
+                .limit(includeSpeakingOrderEvents ? offset + pageSize : pageSize)
+                .populate('participantId', 'name email')
+                .populate('meetingId', 'name'),
+            includeSpeakingOrderEvents ? getSpeakingOrderEvents(filter, offset + pageSize) : []
+        ]);
 
         // Transform to old format for backward compatibility
         const oldFormat = records.map(record => ({
             id: record._id,
+            action: 'selected' as HistoryAction,
             meetingId: record.meetingId,
             meetingName: record.meetingId ? (record.meetingId as any).name : 'Unknown Meeting',
             department: record.department,
@@ -39,9 +148,18 @@ export const getSelectionHistory: RequestHandler = async (req, res) => {
             selectionDuration: record.selectionDuration,
             selectionMethod: record.selectionMethod,
             sessionId: record.sessionId,
+            assignedRole: record.assignedRole,
             metadata: record.metadata
         }));
 
+        if (includeSpeakingOrderEvents) {
+            const merged = [...oldFormat, ...events]
+                .sort((a, b) => new Date(b.selectedAt).getTime() - new Date(a.selectedAt).getTime())
+                .slice(offset, offset + pageSize);
+            res.json(merged);
+            return;
+        }
+
         res.json(oldFormat);
     } catch (error) {
         console.error('Error fetching selection history:', error);
@@ -81,6 +199,12 @@ export const createSelectionRecord: RequestHandler = async (req, res) => {
             Participant.findById(participantId).session(session)
         ]);
 
+        if (!meeting) {
+            await session.abortTransaction();
+            res.status(404).json({ error: 'Meeting not found' });
+            return;
+        }
+
         if (!participant) {
             await session.abortTransaction();
             res.status(404).json({ error: 'Participant not found' });
@@ -88,7 +212,7 @@ export const createSelectionRecord: RequestHandler = async (req, res) => {
         }
 
         const finalDepartment = department || participant.department || 'General';
-        const finalMeetingName = meetingName || meeting?.name || 'Unknown Meeting';
+        const finalMeetingName = meetingName || meeting.name;
 
         // Create new SelectionRecord (enhanced model)
         const selectionRecord = new SelectionRecord({
@@ -118,20 +242,20 @@ export const createSelectionRecord: RequestHandler = async (req, res) => {
             },
             { session }
         );
+        await MeetingMembershipService.recordSelection(meetingId, participant, selectionRecord.selectedAt, session);
 
         // Update meeting statistics
-        if (meeting) {
-            await Meeting.findByIdAndUpdate(
-                meetingId,
-                {
-                    $inc: { 'statistics.totalSpins': 1 },
-                    $set: { 'statistics.lastActivity': new Date() }
-                },
-                { session }
-            );
-        }
+        await Meeting.findByIdAndUpdate(
+            meetingId,
+            {
+                $inc: { 'statistics.totalSpins': 1 },
+                $set: { 'statistics.lastActivity': new Date() }
+            },
+            { session }
+        );
 
         await session.commitTransaction();
+        await DailyStatsService.recordSelections([selectionRecord]);
 
         res.status(201).json({
             message: 'Selection record created successfully',
@@ -181,6 +305,13 @@ export const selectParticipant: RequestHandler = async (req, res) => {
             return;
         }
 
+        const roleError = SelectionService.validateRoleRequest(req.body);
+        if (roleError) {
+            await session.abortTransaction();
+            res.status(400).json({ error: roleError });
+            return;
+        }
+
         // Get meeting info
         const meeting = await Meeting.findById(meetingId).session(session);
         if (!meeting) {
@@ -189,156 +320,144 @@ export const selectParticipant: RequestHandler = async (req, res) => {
             return;
         }
 
-        // Build participant query
-        let query: any = { department, isActive: true };
+        // Multi-pick spins assign a distinct participant to each role
+        const roles = SelectionService.resolveRoles(meeting, req.body);
 
-        // If meeting has specific participants, use them
-        if (meeting.participants && meeting.participants.length > 0) {
-            const participantEmails = meeting.participants.map(p => p.email).filter(Boolean);
-            if (participantEmails.length > 0) {
-                query.email = { $in: participantEmails };
-            }
+        let pool = await SelectionService.getEligibilityPool(meeting, department, session);
+        pool = await SelectionService.excludeAbsent(pool, meeting, session);
+
+        if (pool.eligible.length === 0) {
+            await session.abortTransaction();
+            res.status(404).json({ error: 'No eligible participants found' });
+            return;
+        }
+
+        const strategy = getSelectionStrategy(selectionMethod);
+        if (selectionMethod !== 'manual' && !strategy) {
+            await session.abortTransaction();
+            res.status(400).json({ error: `Unknown selection method: ${selectionMethod}` });
+            return;
+        }
+
+        // Apply selection logic (strategies that balance turns themselves skip the recency filter)
+        if (excludeRecentlySelected && !strategy?.handlesRecency) {
+            const narrowed = SelectionService.excludeRecentlySelected(pool);
+            // Multi-pick spins keep the whole pool when too few people are left to fill every role
+            pool = !roles || narrowed.eligible.length >= roles.length ? narrowed : pool;
         }
 
-        let participants = await Participant.find(query).session(session);
+        const participants = pool.eligible;
+
+        if (selectionMethod === 'manual') {
+            // For manual selection, return all eligible participants
+            await session.commitTransaction();
+            res.json({
+                fairnessScope: pool.fairnessScope,
+                eligibleParticipants: participants.map(p => ({
+                    id: p._id,
+                    name: p.name,
+                    department: p.department,
+                    ...SelectionService.statisticsOf(p, pool.statistics)
+                }))
+            });
+            return;
+        }
 
-        if (participants.length === 0) {
+        if (roles && participants.length < roles.length) {
             await session.abortTransaction();
-            res.status(404).json({ error: 'No eligible participants found' });
+            res.status(409).json({ error: `Only ${participants.length} eligible participants for ${roles.length} roles` });
             return;
         }
 
-        // Apply selection logic
-        if (excludeRecentlySelected) {
-            participants.sort((a, b) =>
-                (a.lastSelected ? new Date(a.lastSelected).getTime() : 0) -
-                (b.lastSelected ? new Date(b.lastSelected).getTime() : 0)
-            );
-
-            const neverSelected = participants.filter(p => !p.lastSelected);
-            if (neverSelected.length > 0) {
-                participants = neverSelected;
-            } else {
-                // Use least recently selected half
-                participants = participants.slice(0, Math.ceil(participants.length / 2));
+        const randomness = await SelectionService.prepareRandomness(meetingId, req.body.commitmentId, req.body.clientSeed, session);
+
+        if (roles) {
+            const picks = SelectionService.pickForRoles(pool, roles, selectionMethod, meeting, randomness, {
+                inverseFrequencyExponent: req.body.inverseFrequencyExponent,
+                statistics: pool.statistics
+            });
+
+            // One record per role, grouped under the spin's session ID
+            const sessionId = uuidv4();
+            const selectionRecords: ISelectionRecord[] = [];
+            for (const pick of picks) {
+                selectionRecords.push(await SelectionService.recordSelection({
+                    meetingId,
+                    participant: pick.participant,
+                    selectionMethod,
+                    sessionId,
+                    selectionRound: 1,
+                    spinDuration,
+                    excludedRecentlySelected: excludeRecentlySelected,
+                    totalEligible: pick.pool.eligible.length,
+                    eligibility: pick.pool,
+                    selectionState: pick.state,
+                    audit: pick.audit,
+                    assignedRole: pick.role
+                }, session));
             }
-        }
 
-        // Select participant based on method
-        let selectedParticipant;
-        switch (selectionMethod) {
-            case 'weighted':
-                // Weighted selection (favor less selected participants)
-                const weights = participants.map(p => {
-                    const maxSelections = Math.max(...participants.map(pp => pp.selectionCount));
-                    return maxSelections - p.selectionCount + 1;
-                });
-                const totalWeight = weights.reduce((sum, w) => sum + w, 0);
-                const randomWeight = Math.random() * totalWeight;
-
-                let weightSum = 0;
-                for (let i = 0; i < participants.length; i++) {
-                    weightSum += weights[i];
-                    if (randomWeight <= weightSum) {
-                        selectedParticipant = participants[i];
-                        break;
-                    }
-                }
-                break;
-
-            case 'manual':
-                // For manual selection, return all eligible participants
-                await session.commitTransaction();
-                res.json({
-                    eligibleParticipants: participants.map(p => ({
-                        id: p._id,
-                        name: p.name,
-                        department: p.department,
-                        selectionCount: p.selectionCount,
-                        lastSelected: p.lastSelected
-                    }))
-                });
-                return;
-
-            default: // random
-                const randomIndex = Math.floor(Math.random() * participants.length);
-                selectedParticipant = participants[randomIndex];
+            await session.commitTransaction();
+            await DailyStatsService.recordSelections(selectionRecords);
+
+            res.json({
+                sessionId,
+                selections: picks.map((pick, index) => ({
+                    assignedRole: pick.role,
+                    ...formatSelection(pick.participant, selectionRecords[index], pool)
+                })),
+                historyRecords: selectionRecords.map((record, index) =>
+                    formatHistoryRecord(record, meetingName || meeting.name, picks[index].audit))
+            });
+            return;
         }
 
-        if (!selectedParticipant) {
+        const pickOptions = {
+            inverseFrequencyExponent: req.body.inverseFrequencyExponent,
+            random: randomness.random,
+            statistics: pool.statistics
+        };
+        const audit = SelectionService.buildAudit(randomness, participants, meeting, pickOptions);
+        const result = SelectionService.pickParticipant(participants, selectionMethod, meeting, pickOptions);
+
+        if (!result) {
             await session.abortTransaction();
             res.status(500).json({ error: 'Failed to select participant' });
             return;
         }
 
+        const selectedParticipant = result.participant;
+
         // Create enhanced selection record
-        const sessionId = uuidv4();
-        const selectionRecord = new SelectionRecord({
+        const selectionRecord = await SelectionService.recordSelection({
             meetingId,
-            participantId: selectedParticipant._id,
-            participantName: selectedParticipant.name,
-            department: selectedParticipant.department,
-            teamId: selectedParticipant.teamId,
-            selectionDuration: spinDuration,
-            sessionId,
+            participant: selectedParticipant,
             selectionMethod,
-            metadata: {
-                excludedRecentlySelected: excludeRecentlySelected,
-                totalEligible: participants.length,
-                spinDuration,
-                selectionRound: 1
-            },
-            selectedAt: new Date()
-        });
-
-        await selectionRecord.save({ session });
-
-        // Update participant
-        await Participant.findByIdAndUpdate(
-            selectedParticipant._id,
-            {
-                $inc: { selectionCount: 1 },
-                $set: { lastSelected: new Date() }
-            },
-            { session }
-        );
-
-        // Update meeting statistics
-        await Meeting.findByIdAndUpdate(
-            meetingId,
-            {
-                $inc: { 'statistics.totalSpins': 1 },
-                $set: { 'statistics.lastActivity': new Date() }
-            },
-            { session }
-        );
+            sessionId: uuidv4(),
+            selectionRound: 1,
+            spinDuration,
+            excludedRecentlySelected: excludeRecentlySelected,
+            totalEligible: participants.length,
+            eligibility: pool,
+            selectionState: result.state,
+            audit
+        }, session);
 
         await session.commitTransaction();
+        await DailyStatsService.recordSelections([selectionRecord]);
 
         res.json({
-            selection: {
-                id: selectedParticipant._id,
-                name: selectedParticipant.name,
-                email: selectedParticipant.email,
-                role: selectedParticipant.role,
-                department: selectedParticipant.department,
-                selectionCount: selectedParticipant.selectionCount + 1,
-                lastSelected: new Date()
-            },
-            historyRecord: {
-                id: selectionRecord._id,
-                meetingId: selectionRecord.meetingId,
-                meetingName: meetingName || meeting.name,
-                department: selectionRecord.department,
-                participantId: selectionRecord.participantId,
-                participantName: selectionRecord.participantName,
-                selectedAt: selectionRecord.selectedAt,
-                sessionId: selectionRecord.sessionId,
-                selectionMethod: selectionRecord.selectionMethod
-            }
+            selection: formatSelection(selectedParticipant, selectionRecord, pool),
+            historyRecord: formatHistoryRecord(selectionRecord, meetingName || meeting.name, audit)
         });
     } catch (error) {
         await session.abortTransaction();
+
+        if (error instanceof Error && ['Seed commitment not found, expired or already used', 'Role template not found'].includes(error.message)) {
+            res.status(400).json({ error: error.message });
+            return;
+        }
+
         console.error('Error selecting participant:', error);
         res.status(500).json({
             error: 'Error selecting participant',
@@ -363,11 +482,29 @@ export const clearSelectionHistory: RequestHandler = async (req, res) => {
             filter.meetingId = req.query.meetingId;
         }
 
+        // Remember which days the cleared records covered so their rollups can be rebuilt
+        const [clearedRange] = await SelectionRecord.aggregate([
+            { $match: filter.meetingId ? { ...filter, meetingId: new mongoose.Types.ObjectId(filter.meetingId) } : filter },
+            { $group: { _id: null, from: { $min: '$selectedAt' }, to: { $max: '$selectedAt' } } }
+        ]).session(session);
+
         // Clear from new SelectionRecord model
         await SelectionRecord.deleteMany(filter).session(session);
 
-        // Clear from old SelectionHistory model (for backward compatibility)
-        await SelectionHistory.deleteMany(filter).session(session);
+        // Skips and moves to the end are listed in the history too
+        await SpinSession.updateMany(
+            { ...filter, mode: 'order' },
+            { $pull: { events: { action: { $in: ['skip', 'move-to-end'] } } } }
+        ).session(session);
+
+        // Clear from old SelectionHistory model (for backward compatibility).
+        // Legacy records carry no organizationId, so limit them to this organization's meetings.
+        const meetingFilter = req.query.meetingId ? { _id: req.query.meetingId } : {};
+        const organizationMeetingIds = await Meeting.find(meetingFilter).distinct('_id').session(session);
+        await SelectionHistory.deleteMany({
+            ...filter,
+            meetingId: { $in: organizationMeetingIds }
+        }).session(session);
 
         // Reset participant statistics
         const participantFilter: any = {};
@@ -375,11 +512,12 @@ export const clearSelectionHistory: RequestHandler = async (req, res) => {
             participantFilter.department = req.query.department;
         }
         if (req.query.meetingId) {
-            participantFilter.meetingId = req.query.meetingId;
+            participantFilter._id = { $in: await MeetingMembershipService.getParticipantIds(req.query.meetingId as string, session) };
         }
 
+        const participantIds = await Participant.find(participantFilter).distinct('_id').session(session) as mongoose.Types.ObjectId[];
         await Participant.updateMany(
-            participantFilter,
+            { _id: { $in: participantIds } },
             {
                 $set: {
                     selectionCount: 0,
@@ -387,6 +525,10 @@ export const clearSelectionHistory: RequestHandler = async (req, res) => {
                 }
             }
         ).session(session);
+        await MeetingMembershipService.resetStatistics({
+            meetingId: req.query.meetingId as string | undefined,
+            participantIds
+        }, session);
 
         // Reset meeting statistics if specific meeting
         if (req.query.meetingId) {
@@ -402,6 +544,16 @@ export const clearSelectionHistory: RequestHandler = async (req, res) => {
         }
 
         await session.commitTransaction();
+
+        // The history is cleared either way: a failed rebuild is logged and left to the nightly rollup job
+        if (clearedRange) {
+            try {
+                await DailyStatsService.rebuildRange(clearedRange.from, new Date(clearedRange.to.getTime() + 1));
+            } catch (error) {
+                console.error('Error rebuilding daily stats after clearing history:', error);
+            }
+        }
+
         res.json({
             message: 'Selection history cleared successfully',
             cleared: {
@@ -419,4 +571,85 @@ export const clearSelectionHistory: RequestHandler = async (req, res) => {
     } finally {
         session.endSession();
     }
-};
\ No newline at end of file
+};
+
+/**
+ * Publish a seed commitment ahead of a spin. Only the hash is returned now;
+ * the seed is revealed in the selection record once it has been used.
+ */
+export const createSeedCommitment: RequestHandler = async (req, res) => {
+    try {
+        const { meetingId } = req.body;
+
+        if (meetingId && !(await Meeting.exists({ _id: meetingId }))) {
+            res.status(404).json({ error: 'Meeting not found' });
+            return;
+        }
+
+        const seed = RandomnessService.generateSeed();
+        const commitment = new SeedCommitment({
+            meetingId,
+            createdBy: req.user?._id,
+            seed,
+            seedHash: RandomnessService.hashSeed(seed),
+            expiresAt: new Date(Date.now() + COMMITMENT_EXPIRY_MINUTES * 60 * 1000)
+        });
+
+        await commitment.save();
+
+        res.status(201).json({
+            commitmentId: commitment._id,
+            seedHash: commitment.seedHash,
+            meetingId: commitment.meetingId,
+            expiresAt: commitment.expiresAt
+        });
+    } catch (error) {
+        console.error('Error creating seed commitment:', error);
+        res.status(500).json({
+            error: 'Error creating seed commitment',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+/**
+ * Verify a seeded selection by replaying it from the stored candidates and seed
+ */
+export const verifySelection: RequestHandler = async (req, res) => {
+    try {
+        if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+            res.status(400).json({ error: 'Invalid selection record ID' });
+            return;
+        }
+
+        const record = await SelectionRecord.findById(req.params.id);
+        if (!record) {
+            res.status(404).json({ error: 'Selection record not found' });
+            return;
+        }
+
+        const replay = SelectionService.replaySelection(record);
+        if (!replay.verifiable) {
+            res.status(422).json({
+                error: 'Selection is not verifiable',
+                message: 'Only selections made with a seed commitment can be replayed',
+                audit: SelectionService.formatAudit(record.metadata?.audit)
+            });
+            return;
+        }
+
+        res.json({
+            id: record._id,
+            selectionMethod: record.selectionMethod,
+            selectedAt: record.selectedAt,
+            audit: SelectionService.formatAudit(record.metadata?.audit),
+            ...replay
+        });
+    } catch (error) {
+        console.error('Error verifying selection:', error);
+        res.status(500).json({
+            error: 'Error verifying selection',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
@@ -1,10 +1,9 @@
-import { Router, RequestHandler } from 'express';
+import { RequestHandler } from 'express';
 import Meeting from '../models/meeting';
 import Participant from "../models/participant";
 import SelectionRecord from '../models/SelectionRecord';
-import { Readable } from "stream";
-import csv from "csv-parser";
-import * as XLSX from "xlsx";
+import { ImportValidationError, ParticipantImportService } from '../services/participantImportService';
+import { MeetingMembershipService } from '../services/meetingMembershipService';
 import mongoose from 'mongoose';
 
 
@@ -33,7 +32,7 @@ export const getAllMeetings: RequestHandler = async (req, res) => {
         const enhancedMeetings = await Promise.all(
             meetings.map(async (meeting) => {
                 const [participantCount, recentSelections] = await Promise.all([
-                    Participant.countDocuments({ meetingId: meeting._id, isActive: true }),
+                    MeetingMembershipService.countActiveMembers(meeting._id as mongoose.Types.ObjectId),
                     SelectionRecord.countDocuments({ meetingId: meeting._id })
                 ]);
 
@@ -73,115 +72,141 @@ export const getAllMeetings: RequestHandler = async (req, res) => {
 export const addParticipantsToMeeting: RequestHandler = async (req, res) => {
     try {
         const { meetingId } = req.params;
-        if (!req.file) {
+        const source = ParticipantImportService.sourceFromRequest(req.file, req.body);
+        if (!source) {
             res.status(400).json({ error: "No file uploaded" });
             return;
         }
 
-        const buffer = req.file.buffer;
-        const filename = req.file.originalname;
-        let participants = [];
-
-        if (filename.endsWith(".csv")) {
-            const stream = Readable.from(buffer);
-            const results: any[] = [];
-
-            await new Promise((resolve, reject) => {
-                stream
-                    .pipe(csv())
-                    .on("data", (data) => results.push(data))
-                    .on("end", () => resolve(results))
-                    .on("error", (err) => reject(err));
-            });
-
-            participants = results
-                .map((row) => ({
-                    name: row.name?.trim(),
-                    role: row.role?.trim(),
-                    email: row.email?.trim(),
-                    selectionCount: 0,
-                }))
-                .filter((p) => p.name);
-        } else if (filename.endsWith(".xlsx") || filename.endsWith(".xls")) {
-            const workbook = XLSX.read(buffer);
-            const sheetName = workbook.SheetNames[0];
-            const worksheet = workbook.Sheets[sheetName];
-            const data: { [key: string]: any }[] = XLSX.utils.sheet_to_json(worksheet);
-
-            participants = data
-                .map((row) => ({
-                    name: row.name?.toString().trim() || row.Name?.toString().trim(),
-                    role: row.role?.toString().trim() || row.Role?.toString().trim(),
-                    email: row.email?.toString().trim() || row.Email?.toString().trim(),
-                    selectionCount: 0,
-                }))
-                .filter((p) => p.name);
-        } else {
-            res.status(400).json({ error: "Unsupported file format" });
+        const meeting = await Meeting.findById(meetingId);
+        if (!meeting) {
+            res.status(404).json({ error: "Meeting not found" });
             return;
         }
-        if (participants.length === 0) {
-            res.status(404).json({ error: 'No participants found' });
+
+        const options = ParticipantImportService.parseOptions({ ...req.query, ...req.body });
+        const report = await ParticipantImportService.importParticipants(source, {
+            ...options,
+            department: options.department || meeting.department
+        });
+        if (report.dryRun) {
+            res.json(report);
             return;
         }
 
-        await Participant.bulkWrite(
-            participants.map((p) => ({
-                updateOne: {
-                    filter: { name: p.name, email: p.email },
-                    update: { $set: p },
-                    upsert: true
-                }
-            }))
+        // Participants already on the meeting keep their membership and statistics
+        const membership = await MeetingMembershipService.addParticipants(
+            meeting._id as mongoose.Types.ObjectId,
+            report.rows.filter(row => row.participantId).map(row => row.participantId!)
         );
+        const participants = await MeetingMembershipService.getRoster(meeting._id as mongoose.Types.ObjectId);
+
+        res.json({ message: "Participants added successfully", meeting, ...report, membership, participants });
+    } catch (error) {
+        if (error instanceof ImportValidationError) {
+            res.status(400).json({ error: error.message });
+            return;
+        }
+        if (error instanceof Error && error.message === 'Import too large to run in the request') {
+            res.status(413).json({ error: error.message });
+            return;
+        }
+        console.error("Error adding participants to meeting:", error);
+        res.status(500).json({ error: "Error adding participants to meeting" });
+    }
+};
+export const getOneMeetingParticipants: RequestHandler = async (req, res) => {
+    try {
+        const { meetingId } = req.params;
 
         const meeting = await Meeting.findById(meetingId);
+
         if (!meeting) {
             res.status(404).json({ error: "Meeting not found" });
             return;
         }
 
-        // Get all participants we just added/updated
-        const addedParticipants = await Participant.find({
-            email: { $in: participants.map(p => p.email) }
-        }).sort({ name: 1 });
-
-        const uniqueParticipants = [
-            ...new Map(
-                [...meeting.participants, ...addedParticipants].map((p) => [p.email, p])
-            ).values()
-        ];
-
-        meeting.participants = uniqueParticipants;
-        await meeting.save()
-        res.json({ message: "Participants added successfully", meeting });
+        const participants = await MeetingMembershipService.getRoster(meeting._id as mongoose.Types.ObjectId);
+        res.json({ message: `All Participants  Loaded successfullly for ${meeting.department}`, participants });
     } catch (error) {
-        res.status(500).json({ error: "Error adding participants to meeting" });
-        console.log(error)
+        console.error("Error fetching meeting participants:", error);
+        res.status(500).json({ error: "Server error" });
     }
 };
-export const getOneMeetingParticipants: RequestHandler = async (req, res) => {
+
+export const addExistingParticipantsToMeeting: RequestHandler = async (req, res) => {
     try {
         const { meetingId } = req.params;
+        const { participantIds } = req.body;
 
-        const meeting = await Meeting.findById(meetingId).populate("participants");
+        if (!Array.isArray(participantIds) || !participantIds.length) {
+            res.status(400).json({ error: "participantIds must be a non-empty array" });
+            return;
+        }
+        if (!participantIds.every((id) => mongoose.Types.ObjectId.isValid(id))) {
+            res.status(400).json({ error: "Invalid participant ID" });
+            return;
+        }
 
+        const meeting = await Meeting.findById(meetingId);
         if (!meeting) {
             res.status(404).json({ error: "Meeting not found" });
             return;
         }
 
-        res.json({ message: `All Participants  Loaded successfullly for ${meeting.department}`, participants: meeting.participants });
+        const existingIds = await Participant.find({ _id: { $in: participantIds } }).distinct('_id') as mongoose.Types.ObjectId[];
+        if (existingIds.length !== new Set(participantIds.map(String)).size) {
+            res.status(404).json({ error: "Participant not found" });
+            return;
+        }
+
+        const membership = await MeetingMembershipService.addParticipants(meeting._id as mongoose.Types.ObjectId, existingIds);
+        const participants = await MeetingMembershipService.getRoster(meeting._id as mongoose.Types.ObjectId);
+        res.json({ message: "Participants added successfully", ...membership, participants });
     } catch (error) {
-        console.error("Error fetching meeting participants:", error);
-        res.status(500).json({ error: "Server error" });
+        console.error("Error adding participants to meeting:", error);
+        res.status(500).json({
+            error: "Error adding participants to meeting",
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+export const removeParticipantFromMeeting: RequestHandler = async (req, res) => {
+    try {
+        const { meetingId, participantId } = req.params;
+
+        const meeting = await Meeting.findById(meetingId);
+        if (!meeting) {
+            res.status(404).json({ error: "Meeting not found" });
+            return;
+        }
+
+        const removed = await MeetingMembershipService.removeParticipant(meeting._id as mongoose.Types.ObjectId, participantId);
+        if (!removed) {
+            res.status(404).json({ error: "Participant is not on this meeting" });
+            return;
+        }
+        res.json({ message: "Participant removed from meeting successfully" });
+    } catch (error) {
+        console.error("Error removing participant from meeting:", error);
+        res.status(500).json({
+            error: "Error removing participant from meeting",
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
     }
 };
 
 export const createMeeting: RequestHandler = async (req, res) => {
     try {
-        const meeting = new Meeting(req.body);
+        const { participantIds, ...fields } = req.body;
+        const meeting = new Meeting(fields);
         await meeting.save();
+
+        if (Array.isArray(participantIds) && participantIds.length) {
+            const existingIds = await Participant.find({ _id: { $in: participantIds } }).distinct('_id') as mongoose.Types.ObjectId[];
+            await MeetingMembershipService.addParticipants(meeting._id as mongoose.Types.ObjectId, existingIds);
+        }
         res.status(201).json(meeting);
     } catch (error) {
         res.status(500).json({ error: 'Error creating meeting' });
@@ -200,7 +225,7 @@ export const getMeetingById: RequestHandler = async (req, res) => {
 
         // Get enhanced statistics
         const [participantCount, recentSelections, totalSelections] = await Promise.all([
-            Participant.countDocuments({ meetingId: meeting._id, isActive: true }),
+            MeetingMembershipService.countActiveMembers(meeting._id as mongoose.Types.ObjectId),
             SelectionRecord.find({ meetingId: meeting._id })
                 .sort({ selectedAt: -1 })
                 .limit(5)
@@ -276,6 +301,7 @@ export const deleteMeeting: RequestHandler = async (req, res) => {
             res.status(404).json({ error: 'Meeting not found' });
             return;
         }
+        await MeetingMembershipService.removeMeeting(meeting._id as mongoose.Types.ObjectId);
         res.json({ message: 'Meeting deleted successfully' });
     } catch (error) {
         res.status(500).json({ error: 'Error deleting meeting' });
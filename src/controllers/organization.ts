@@ -3,7 +3,7 @@ import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
 import Organization from '../models/Organization';
 import User from '../models/User';
-import { addOrgId } from '../middleware/multiTenant';
+import { backfillDailyStats } from '../jobs/backfillDailyStats';
 
 /**
  * Create a new organization (for signup)
@@ -219,7 +219,12 @@ export const updateOrganization: RequestHandler = async (req, res) => {
         if (industry) updateData.industry = industry;
         if (domain !== undefined) updateData.domain = domain;
         if (logo !== undefined) updateData.logo = logo;
-        if (settings) updateData.settings = { ...updateData.settings, ...settings };
+        // Update only the settings that were sent so the rest keep their values
+        if (settings) {
+            for (const [key, value] of Object.entries(settings)) {
+                updateData[`settings.${key}`] = value;
+            }
+        }
         if (security) updateData.security = { ...updateData.security, ...security };
 
         // Check if domain is already taken (if being updated)
@@ -243,6 +248,13 @@ export const updateOrganization: RequestHandler = async (req, res) => {
             { new: true, runValidators: true }
         );
 
+        // Day and hour buckets of the rollups depend on the timezone, so rebuild them in the background
+        if (organization && settings?.timezone && settings.timezone !== req.organization.settings?.timezone) {
+            backfillDailyStats({ organizationId: req.organization._id }).catch(error => {
+                console.error('Error rebuilding daily stats after timezone change:', error);
+            });
+        }
+
         res.json({
             message: 'Organization updated successfully',
             organization: {
@@ -1,5 +1,7 @@
 import { RequestHandler } from 'express';
 import Participant from '../models/participant';
+import { MeetingMembershipService } from '../services/meetingMembershipService';
+import { AvailabilityService } from '../services/availabilityService';
 import mongoose from "mongoose"
 
 export const getParticipants: RequestHandler = async (req, res) => {
@@ -88,6 +90,8 @@ export const deleteParticipant: RequestHandler = async (req, res) => {
             res.status(404).json({ error: 'Participant not found' });
             return;
         }
+        await MeetingMembershipService.removeParticipantEverywhere(participant._id as mongoose.Types.ObjectId);
+        await AvailabilityService.removeParticipant(participant._id as mongoose.Types.ObjectId);
         res.json({ message: 'Participant deleted successfully' });
     } catch (error) {
         res.status(500).json({ error: 'Error deleting participant' });
@@ -0,0 +1,474 @@
+import { RequestHandler } from 'express';
+import mongoose from 'mongoose';
+import Meeting from '../models/meeting';
+import SpinSession, { ISpinSession, SpeakingOrderAction } from '../models/SpinSession';
+import { SelectionService } from '../services/selectionService';
+import { DailyStatsService } from '../services/dailyStatsService';
+import { SpeakingOrderService } from '../services/speakingOrderService';
+import { getSelectionStrategy, listSelectionStrategies } from '../services/selectionStrategies';
+
+/**
+ * Format a spin session for API responses
+ */
+const formatSession = (spinSession: ISpinSession) => ({
+    id: spinSession._id,
+    meetingId: spinSession.meetingId,
+    department: spinSession.department,
+    mode: spinSession.mode,
+    selectionMethod: spinSession.selectionMethod,
+    status: spinSession.status,
+    currentRound: spinSession.currentRound,
+    totalSelections: spinSession.totalSelections,
+    maxSelections: spinSession.maxSelections ?? null,
+    remainingSelections: spinSession.maxSelections
+        ? Math.max(0, spinSession.maxSelections - spinSession.totalSelections)
+        : null,
+    selectedThisRound: spinSession.selectedThisRound,
+    selections: spinSession.selections,
+    ...(spinSession.mode === 'order' && {
+        speakingOrder: spinSession.speakingOrder,
+        currentSpeaker: SpeakingOrderService.currentSpeaker(spinSession),
+        events: spinSession.events
+    }),
+    startedAt: spinSession.startedAt,
+    endedAt: spinSession.endedAt
+});
+
+const MAX_SELECTIONS_PER_SESSION = 100;
+
+// Another active session was started for the meeting at the same time
+const isActiveSessionConflict = (error: unknown) =>
+    error instanceof mongoose.mongo.MongoServerError && error.code === 11000;
+
+const SPEAKING_ORDER_CONFLICTS = ['Not a speaking order session', 'Spin session has ended', 'Speaking order is complete', 'Speaking order was updated by another request, please retry'];
+
+/**
+ * Start a spin session for a meeting
+ */
+export const createSpinSession: RequestHandler = async (req, res) => {
+    try {
+        const { maxSelections } = req.body;
+        if (maxSelections !== undefined && maxSelections !== null &&
+            !(Number.isInteger(maxSelections) && maxSelections >= 1 && maxSelections <= MAX_SELECTIONS_PER_SESSION)) {
+            res.status(400).json({ error: `maxSelections must be a whole number from 1 to ${MAX_SELECTIONS_PER_SESSION}` });
+            return;
+        }
+
+        const meeting = await Meeting.findById(req.params.id);
+        if (!meeting) {
+            res.status(404).json({ error: 'Meeting not found' });
+            return;
+        }
+
+        const selectionMethod = req.body.selectionMethod || meeting.settings.selectionMethod || 'random';
+        if (!getSelectionStrategy(selectionMethod)) {
+            const supported = listSelectionStrategies().map(strategy => strategy.name);
+            res.status(400).json({ error: `Spin sessions support these selection methods: ${supported.join(', ')}` });
+            return;
+        }
+
+        const activeSession = await SpinSession.findOne({ meetingId: meeting._id, status: 'active' });
+        if (activeSession) {
+            res.status(409).json({
+                error: 'Meeting already has an active spin session',
+                activeSessionId: activeSession._id
+            });
+            return;
+        }
+
+        const spinSession = new SpinSession({
+            meetingId: meeting._id,
+            startedBy: req.user?._id,
+            department: req.body.department || meeting.department,
+            selectionMethod,
+            maxSelections: maxSelections ?? meeting.settings.maxSelectionsPerSession
+        });
+
+        await spinSession.save();
+
+        res.status(201).json({
+            message: 'Spin session started',
+            session: formatSession(spinSession)
+        });
+    } catch (error) {
+        if (isActiveSessionConflict(error)) {
+            res.status(409).json({ error: 'Meeting already has an active spin session' });
+            return;
+        }
+        console.error('Error creating spin session:', error);
+        res.status(500).json({
+            error: 'Error creating spin session',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+/**
+ * Get spin session state
+ */
+export const getSpinSession: RequestHandler = async (req, res) => {
+    try {
+        const spinSession = await SpinSession.findById(req.params.sessionId);
+        if (!spinSession) {
+            res.status(404).json({ error: 'Spin session not found' });
+            return;
+        }
+
+        res.json({ session: formatSession(spinSession) });
+    } catch (error) {
+        console.error('Error fetching spin session:', error);
+        res.status(500).json({
+            error: 'Error fetching spin session',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+/**
+ * Spin within a session: nobody is picked twice until everyone in the pool has gone
+ */
+export const spinInSession: RequestHandler = async (req, res) => {
+    const session = await mongoose.startSession();
+    session.startTransaction();
+
+    try {
+        const { spinDuration } = req.body;
+
+        const spinSession = await SpinSession.findById(req.params.sessionId).session(session);
+        if (!spinSession) {
+            await session.abortTransaction();
+            res.status(404).json({ error: 'Spin session not found' });
+            return;
+        }
+
+        if (spinSession.status !== 'active') {
+            await session.abortTransaction();
+            res.status(409).json({ error: 'Spin session has ended' });
+            return;
+        }
+
+        if (spinSession.mode === 'order') {
+            await session.abortTransaction();
+            res.status(409).json({ error: 'Speaking order sessions advance with next, skip and move-to-end' });
+            return;
+        }
+
+        if (spinSession.maxSelections && spinSession.totalSelections >= spinSession.maxSelections) {
+            await session.abortTransaction();
+            res.status(409).json({ error: 'Session selection limit reached' });
+            return;
+        }
+
+        const meeting = await Meeting.findById(spinSession.meetingId).session(session);
+        if (!meeting) {
+            await session.abortTransaction();
+            res.status(404).json({ error: 'Meeting not found' });
+            return;
+        }
+
+        const eligibility = await SelectionService.excludeAbsent(
+            await SelectionService.getEligibilityPool(meeting, spinSession.department, session),
+            meeting,
+            session
+        );
+        if (eligibility.eligible.length === 0) {
+            await session.abortTransaction();
+            res.status(404).json({ error: 'No eligible participants found' });
+            return;
+        }
+
+        // Start a new round once everyone eligible has been picked
+        const pickedThisRound = new Set(spinSession.selectedThisRound.map(id => id.toString()));
+        let round = spinSession.currentRound;
+        let selectedThisRound = [...spinSession.selectedThisRound];
+        let roundPool = SelectionService.narrowPool(
+            eligibility,
+            'alreadySelectedThisRound',
+            eligibility.eligible.filter(p => !pickedThisRound.has((p._id as mongoose.Types.ObjectId).toString()))
+        );
+
+        if (roundPool.eligible.length === 0) {
+            round += 1;
+            selectedThisRound = [];
+            roundPool = eligibility;
+        }
+
+        const pool = roundPool.eligible;
+
+        const randomness = await SelectionService.prepareRandomness(meeting._id as mongoose.Types.ObjectId, req.body.commitmentId, req.body.clientSeed, session);
+        const pickOptions = { random: randomness.random, statistics: eligibility.statistics };
+        const audit = SelectionService.buildAudit(randomness, pool, meeting, pickOptions);
+        const result = SelectionService.pickParticipant(pool, spinSession.selectionMethod, meeting, pickOptions);
+        if (!result) {
+            await session.abortTransaction();
+            res.status(500).json({ error: 'Failed to select participant' });
+            return;
+        }
+
+        const selectedParticipant = result.participant;
+
+        const selectionRecord = await SelectionService.recordSelection({
+            meetingId: meeting._id as mongoose.Types.ObjectId,
+            participant: selectedParticipant,
+            selectionMethod: spinSession.selectionMethod,
+            sessionId: (spinSession._id as mongoose.Types.ObjectId).toString(),
+            selectionRound: round,
+            spinDuration,
+            excludedRecentlySelected: false,
+            totalEligible: pool.length,
+            eligibility: roundPool,
+            selectionState: result.state,
+            audit
+        }, session);
+
+        const totalSelections = spinSession.totalSelections + 1;
+        const limitReached = !!spinSession.maxSelections && totalSelections >= spinSession.maxSelections;
+
+        // Guard on the previous count so concurrent spins cannot both apply
+        const updatedSession = await SpinSession.findOneAndUpdate(
+            { _id: spinSession._id, status: 'active', totalSelections: spinSession.totalSelections },
+            {
+                $set: {
+                    currentRound: round,
+                    selectedThisRound: [...selectedThisRound, selectedParticipant._id],
+                    ...(limitReached && { status: 'ended', endedAt: new Date() })
+                },
+                $inc: { totalSelections: 1 },
+                $push: {
+                    selections: {
+                        participantId: selectedParticipant._id,
+                        participantName: selectedParticipant.name,
+                        selectionRecordId: selectionRecord._id,
+                        round,
+                        selectedAt: selectionRecord.selectedAt
+                    }
+                }
+            },
+            { new: true, session }
+        );
+
+        if (!updatedSession) {
+            await session.abortTransaction();
+            res.status(409).json({ error: 'Spin session was updated by another spin, please retry' });
+            return;
+        }
+
+        await session.commitTransaction();
+        await DailyStatsService.recordSelections([selectionRecord]);
+
+        res.json({
+            selection: {
+                id: selectedParticipant._id,
+                name: selectedParticipant.name,
+                email: selectedParticipant.email,
+                role: selectedParticipant.role,
+                department: selectedParticipant.department,
+                round
+            },
+            remainingInRound: pool.length - 1,
+            session: formatSession(updatedSession),
+            historyRecord: {
+                id: selectionRecord._id,
+                meetingId: selectionRecord.meetingId,
+                meetingName: meeting.name,
+                participantId: selectionRecord.participantId,
+                participantName: selectionRecord.participantName,
+                selectedAt: selectionRecord.selectedAt,
+                sessionId: selectionRecord.sessionId,
+                selectionMethod: selectionRecord.selectionMethod,
+                audit: SelectionService.formatAudit(audit)
+            }
+        });
+    } catch (error) {
+        await session.abortTransaction();
+
+        if (error instanceof Error && error.message === 'Seed commitment not found, expired or already used') {
+            res.status(400).json({ error: error.message });
+            return;
+        }
+
+        console.error('Error spinning in session:', error);
+        res.status(500).json({
+            error: 'Error spinning in session',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    } finally {
+        session.endSession();
+    }
+};
+
+/**
+ * End a spin session
+ */
+export const endSpinSession: RequestHandler = async (req, res) => {
+    try {
+        const spinSession = await SpinSession.findById(req.params.sessionId);
+        if (!spinSession) {
+            res.status(404).json({ error: 'Spin session not found' });
+            return;
+        }
+
+        if (spinSession.status === 'ended') {
+            res.status(409).json({ error: 'Spin session has already ended' });
+            return;
+        }
+
+        spinSession.status = 'ended';
+        spinSession.endedAt = new Date();
+        await spinSession.save();
+
+        res.json({
+            message: 'Spin session ended',
+            session: formatSession(spinSession)
+        });
+    } catch (error) {
+        console.error('Error ending spin session:', error);
+        res.status(500).json({
+            error: 'Error ending spin session',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+/**
+ * Generate a speaking order for everyone eligible in a meeting, as an ordered session
+ */
+export const createSpeakingOrder: RequestHandler = async (req, res) => {
+    const session = await mongoose.startSession();
+    session.startTransaction();
+
+    try {
+        const meeting = await Meeting.findById(req.params.id).session(session);
+        if (!meeting) {
+            await session.abortTransaction();
+            res.status(404).json({ error: 'Meeting not found' });
+            return;
+        }
+
+        const selectionMethod = req.body.selectionMethod || meeting.settings.selectionMethod || 'random';
+        if (!getSelectionStrategy(selectionMethod)) {
+            const supported = listSelectionStrategies().map(strategy => strategy.name);
+            await session.abortTransaction();
+            res.status(400).json({ error: `Speaking orders support these selection methods: ${supported.join(', ')}` });
+            return;
+        }
+
+        const activeSession = await SpinSession.findOne({ meetingId: meeting._id, status: 'active' }).session(session);
+        if (activeSession) {
+            await session.abortTransaction();
+            res.status(409).json({
+                error: 'Meeting already has an active spin session',
+                activeSessionId: activeSession._id
+            });
+            return;
+        }
+
+        const spinSession = await SpeakingOrderService.create(meeting, {
+            department: req.body.department || meeting.department,
+            selectionMethod,
+            startedBy: req.user?._id
+        }, session);
+
+        await session.commitTransaction();
+
+        res.status(201).json({
+            message: 'Speaking order created',
+            session: formatSession(spinSession)
+        });
+    } catch (error) {
+        await session.abortTransaction();
+
+        if (error instanceof Error && error.message === 'No eligible participants found') {
+            res.status(404).json({ error: error.message });
+            return;
+        }
+        if (isActiveSessionConflict(error)) {
+            res.status(409).json({ error: 'Meeting already has an active spin session' });
+            return;
+        }
+
+        console.error('Error creating speaking order:', error);
+        res.status(500).json({
+            error: 'Error creating speaking order',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    } finally {
+        session.endSession();
+    }
+};
+
+const advanceSpeakingOrder = (action: SpeakingOrderAction): RequestHandler => async (req, res) => {
+    const session = await mongoose.startSession();
+    session.startTransaction();
+
+    try {
+        const spinSession = await SpinSession.findById(req.params.sessionId).session(session);
+        if (!spinSession) {
+            await session.abortTransaction();
+            res.status(404).json({ error: 'Spin session not found' });
+            return;
+        }
+
+        const result = await SpeakingOrderService.advance(spinSession, action, req.user?._id, session);
+
+        await session.commitTransaction();
+        if (result.selectionRecord) {
+            await DailyStatsService.recordSelections([result.selectionRecord]);
+        }
+
+        const meeting = result.selectionRecord && await Meeting.findById(result.selectionRecord.meetingId).select('name');
+        res.json({
+            action,
+            participant: {
+                id: result.event.participantId,
+                name: result.event.participantName
+            },
+            currentSpeaker: SpeakingOrderService.currentSpeaker(result.session),
+            session: formatSession(result.session),
+            historyRecord: result.selectionRecord && {
+                id: result.selectionRecord._id,
+                meetingId: result.selectionRecord.meetingId,
+                meetingName: meeting?.name,
+                participantId: result.selectionRecord.participantId,
+                participantName: result.selectionRecord.participantName,
+                selectedAt: result.selectionRecord.selectedAt,
+                sessionId: result.selectionRecord.sessionId,
+                selectionMethod: result.selectionRecord.selectionMethod
+            }
+        });
+    } catch (error) {
+        await session.abortTransaction();
+
+        if (error instanceof Error && SPEAKING_ORDER_CONFLICTS.includes(error.message)) {
+            res.status(409).json({ error: error.message });
+            return;
+        }
+        if (error instanceof Error && error.message === 'Participant not found') {
+            res.status(404).json({ error: 'Participant not found, skip or move them instead' });
+            return;
+        }
+
+        console.error('Error advancing speaking order:', error);
+        res.status(500).json({
+            error: 'Error advancing speaking order',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    } finally {
+        session.endSession();
+    }
+};
+
+/**
+ * The current speaker has spoken: record their turn and move on to the next one
+ */
+export const nextSpeaker = advanceSpeakingOrder('next');
+
+/**
+ * Pass over the current speaker without recording a turn
+ */
+export const skipSpeaker = advanceSpeakingOrder('skip');
+
+/**
+ * Put the current speaker behind everyone still waiting
+ */
+export const moveSpeakerToEnd = advanceSpeakingOrder('move-to-end');
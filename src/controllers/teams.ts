@@ -4,6 +4,15 @@ import Team from '../models/Team';
 import Participant from '../models/participant';
 import Meeting from '../models/meeting';
 import SelectionRecord from '../models/SelectionRecord';
+import User from '../models/User';
+import { AnalyticsService } from '../services/analyticsService';
+
+/**
+ * Check that a prospective team lead belongs to the requesting organization
+ */
+const isOrganizationUser = async (userId: string, organizationId?: string) => {
+    return !!organizationId && !!(await User.exists({ _id: userId, organizationId }));
+};
 
 /**
  * Get all teams
@@ -69,6 +78,11 @@ export const createTeam: RequestHandler = async (req, res) => {
             return;
         }
 
+        if (leadId && !(await isOrganizationUser(leadId, req.user?.organizationId))) {
+            res.status(400).json({ error: 'Team lead must belong to this organization' });
+            return;
+        }
+
         const team = new Team({
             name: name.trim(),
             description: description?.trim(),
@@ -170,6 +184,11 @@ export const updateTeam: RequestHandler = async (req, res) => {
     try {
         const { name, description, color, leadId } = req.body;
 
+        if (leadId && !(await isOrganizationUser(leadId, req.user?.organizationId))) {
+            res.status(400).json({ error: 'Team lead must belong to this organization' });
+            return;
+        }
+
         const updateData: any = {};
         if (name) updateData.name = name.trim();
         if (description !== undefined) updateData.description = description?.trim();
@@ -413,73 +432,13 @@ export const removeTeamMember: RequestHandler = async (req, res) => {
  */
 export const getTeamPerformance: RequestHandler = async (req, res) => {
     try {
-        const teamId = new mongoose.Types.ObjectId(req.params.id);
-
-        const [
-            totalSelections,
-            averageParticipation,
-            topPerformers,
-            weeklyActivity
-        ] = await Promise.all([
-            SelectionRecord.countDocuments({ teamId }),
-
-            // Calculate average participation
-            SelectionRecord.aggregate([
-                { $match: { teamId } },
-                { $group: { _id: '$participantId' } },
-                { $count: 'participantCount' }
-            ]),
-
-            // Get top performers
-            SelectionRecord.aggregate([
-                { $match: { teamId } },
-                {
-                    $group: {
-                        _id: '$participantId',
-                        selectionCount: { $sum: 1 },
-                        participantName: { $first: '$participantName' },
-                        department: { $first: '$department' }
-                    }
-                },
-                { $sort: { selectionCount: -1 } },
-                { $limit: 5 },
-                {
-                    $project: {
-                        name: '$participantName',
-                        department: 1,
-                        selections: '$selectionCount'
-                    }
-                }
-            ]),
-
-            // Get weekly activity
-            SelectionRecord.aggregate([
-                {
-                    $match: {
-                        teamId,
-                        selectedAt: {
-                            $gte: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000)
-                        }
-                    }
-                },
-                {
-                    $group: {
-                        _id: { $dateToString: { format: "%Y-%m-%d", date: "$selectedAt" } },
-                        selections: { $sum: 1 }
-                    }
-                },
-                { $sort: { "_id": 1 } }
-            ])
-        ]);
-
-        const avgParticipation = averageParticipation[0]?.participantCount || 0;
+        if (!(await Team.exists({ _id: req.params.id }))) {
+            res.status(404).json({ error: 'Team not found' });
+            return;
+        }
 
-        res.json({
-            totalSelections,
-            averageParticipation: avgParticipation,
-            topPerformers,
-            weeklyActivity
-        });
+        const performance = await AnalyticsService.getTeamPerformance(req.params.id, req.analyticsFilters);
+        res.json(performance);
     } catch (error) {
         console.error('Error getting team performance:', error);
         res.status(500).json({
@@ -0,0 +1,213 @@
+import { RequestHandler } from 'express';
+import mongoose from 'mongoose';
+import Participant from '../models/participant';
+import Unavailability from '../models/Unavailability';
+import { AvailabilityService } from '../services/availabilityService';
+import { DailyStatsService } from '../services/dailyStatsService';
+import { TimezoneService } from '../services/timezoneService';
+
+/**
+ * List a participant's unavailability, optionally only what overlaps a from/to date range
+ */
+export const getUnavailability: RequestHandler = async (req, res) => {
+    try {
+        if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+            res.status(400).json({ error: 'Invalid participant ID' });
+            return;
+        }
+
+        const timezone = await DailyStatsService.getTimezone();
+        const from = req.query.from ? TimezoneService.parseDate(req.query.from as string, timezone) : undefined;
+        const to = req.query.to ? TimezoneService.parseDate(req.query.to as string, timezone) : undefined;
+        if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+            res.status(400).json({ error: 'from and to must be dates' });
+            return;
+        }
+
+        const participant = await Participant.findById(req.params.id).select('_id');
+        if (!participant) {
+            res.status(404).json({ error: 'Participant not found' });
+            return;
+        }
+
+        // An inclusive `to` day
+        const unavailability = await AvailabilityService.list(participant._id as mongoose.Types.ObjectId, {
+            from,
+            to: to && TimezoneService.nextDay(TimezoneService.startOfDay(to, timezone), timezone)
+        });
+        res.json({ unavailability });
+    } catch (error) {
+        console.error('Error fetching unavailability:', error);
+        res.status(500).json({
+            error: 'Error fetching unavailability',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+/**
+ * Record a period a participant is away, optionally recurring
+ */
+export const createUnavailability: RequestHandler = async (req, res) => {
+    try {
+        if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+            res.status(400).json({ error: 'Invalid participant ID' });
+            return;
+        }
+
+        const validationError = AvailabilityService.validate(req.body);
+        if (validationError) {
+            res.status(400).json({ error: validationError });
+            return;
+        }
+
+        const participant = await Participant.findById(req.params.id).select('_id');
+        if (!participant) {
+            res.status(404).json({ error: 'Participant not found' });
+            return;
+        }
+
+        const unavailability = await Unavailability.create({
+            participantId: participant._id,
+            ...await AvailabilityService.toFields(req.body),
+            createdBy: req.user?._id
+        });
+        res.status(201).json({ message: 'Unavailability recorded successfully', unavailability });
+    } catch (error) {
+        console.error('Error recording unavailability:', error);
+        res.status(500).json({
+            error: 'Error recording unavailability',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+/**
+ * Replace the dates, reason, recurrence or note of a participant's unavailability
+ */
+export const updateUnavailability: RequestHandler = async (req, res) => {
+    try {
+        if (!mongoose.Types.ObjectId.isValid(req.params.id) || !mongoose.Types.ObjectId.isValid(req.params.unavailabilityId)) {
+            res.status(400).json({ error: 'Invalid participant or unavailability ID' });
+            return;
+        }
+
+        const validationError = AvailabilityService.validate(req.body);
+        if (validationError) {
+            res.status(400).json({ error: validationError });
+            return;
+        }
+
+        const fields = await AvailabilityService.toFields(req.body);
+        const unavailability = await Unavailability.findOneAndUpdate(
+            { _id: req.params.unavailabilityId, participantId: req.params.id },
+            {
+                $set: {
+                    reason: fields.reason,
+                    startDate: fields.startDate,
+                    endDate: fields.endDate,
+                    ...(fields.recurrence && { recurrence: fields.recurrence }),
+                    ...(fields.note !== undefined && { note: fields.note })
+                },
+                ...(!fields.recurrence && { $unset: { recurrence: 1 } })
+            },
+            { new: true, runValidators: true }
+        );
+        if (!unavailability) {
+            res.status(404).json({ error: 'Unavailability not found' });
+            return;
+        }
+        res.json({ message: 'Unavailability updated successfully', unavailability });
+    } catch (error) {
+        console.error('Error updating unavailability:', error);
+        res.status(500).json({
+            error: 'Error updating unavailability',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+/**
+ * Delete a participant's unavailability
+ */
+export const deleteUnavailability: RequestHandler = async (req, res) => {
+    try {
+        if (!mongoose.Types.ObjectId.isValid(req.params.id) || !mongoose.Types.ObjectId.isValid(req.params.unavailabilityId)) {
+            res.status(400).json({ error: 'Invalid participant or unavailability ID' });
+            return;
+        }
+
+        const unavailability = await Unavailability.findOneAndDelete({ _id: req.params.unavailabilityId, participantId: req.params.id });
+        if (!unavailability) {
+            res.status(404).json({ error: 'Unavailability not found' });
+            return;
+        }
+        res.json({ message: 'Unavailability deleted successfully' });
+    } catch (error) {
+        console.error('Error deleting unavailability:', error);
+        res.status(500).json({
+            error: 'Error deleting unavailability',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+/**
+ * Participants unavailable on a day, today by default
+ */
+export const getUnavailableParticipants: RequestHandler = async (req, res) => {
+    try {
+        const timezone = await DailyStatsService.getTimezone();
+        const day = req.query.date ? TimezoneService.parseDate(req.query.date as string, timezone) : new Date();
+        if (isNaN(day.getTime())) {
+            res.status(400).json({ error: 'date must be a date' });
+            return;
+        }
+        const from = TimezoneService.startOfDay(day, timezone);
+        const to = TimezoneService.nextDay(from, timezone);
+
+        const { department } = req.query;
+        if (department !== undefined && typeof department !== 'string') {
+            res.status(400).json({ error: 'department must be a single value' });
+            return;
+        }
+
+        const filter = department ? { department } : {};
+        const participants = await Participant.find({ ...filter, isActive: true }).select('name email department teamId').sort({ name: 1 }).lean();
+        const records = await Unavailability.find({
+            participantId: { $in: participants.map(p => p._id) },
+            startDate: { $lt: to }
+        }).lean();
+
+        const awayOf = new Map<string, typeof records>();
+        for (const record of records) {
+            if (AvailabilityService.occurrences(record, from, to, timezone, 1).length > 0) {
+                const key = record.participantId.toString();
+                awayOf.set(key, [...(awayOf.get(key) || []), record]);
+            }
+        }
+
+        res.json({
+            date: from,
+            participants: participants
+                .filter(p => awayOf.has(p._id.toString()))
+                .map(p => ({
+                    ...p,
+                    unavailability: awayOf.get(p._id.toString())!.map(record => ({
+                        id: record._id,
+                        reason: record.reason,
+                        startDate: record.startDate,
+                        endDate: record.endDate,
+                        recurrence: record.recurrence,
+                        note: record.note
+                    }))
+                }))
+        });
+    } catch (error) {
+        console.error('Error fetching unavailable participants:', error);
+        res.status(500).json({
+            error: 'Error fetching unavailable participants',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
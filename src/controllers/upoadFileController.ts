@@ -1,85 +1,171 @@
-import { Request, Response } from "express";
+import fs from "fs";
 import { Readable } from "stream";
-import csv from "csv-parser";
-import * as XLSX from "xlsx";
+import { Request, Response } from "express";
 import Participant from '../models/participant';
+import { ImportValidationError, ParticipantImportService } from '../services/participantImportService';
+import { ImportJobService } from '../services/importJobService';
 
-export const uploadFile = async (req: Request, res: Response): Promise<void> => {
+/**
+ * Preview an import: detected columns, suggested mapping, sample rows and per-row validation errors
+ */
+export const previewUpload = async (req: Request, res: Response): Promise<void> => {
     try {
-        if (!req.file) {
+        const source = ParticipantImportService.sourceFromRequest(req.file, req.body);
+        if (!source) {
             res.status(400).json({ error: "No file uploaded" });
             return;
         }
 
-        const buffer = req.file.buffer;
-        const filename = req.file.originalname;
-        let participants = [];
-
-        if (filename.endsWith(".csv")) {
-            const stream = Readable.from(buffer);
-            const results: any[] = [];
-
-            await new Promise((resolve, reject) => {
-                stream
-                    .pipe(csv())
-                    .on("data", (data) => results.push(data))
-                    .on("end", () => resolve(results))
-                    .on("error", (err) => reject(err));
-            });
-
-            participants = results
-                .map((row) => ({
-                    name: row.name?.trim(),
-                    role: row.role?.trim(),
-                    email: row.email?.trim(),
-                    department: req.body.department,
-                    selectionCount: 0,
-                }))
-                .filter((p) => p.name);
-        } else if (filename.endsWith(".xlsx") || filename.endsWith(".xls")) {
-            const workbook = XLSX.read(buffer);
-            const sheetName = workbook.SheetNames[0];
-            const worksheet = workbook.Sheets[sheetName];
-            const data: { [key: string]: any }[] = XLSX.utils.sheet_to_json(worksheet);
+        const options = ParticipantImportService.parseOptions({ ...req.query, ...req.body });
+        const preview = await ParticipantImportService.preview(source, options);
+        res.json(preview);
+    } catch (error) {
+        if (error instanceof ImportValidationError) {
+            res.status(400).json({ error: error.message });
+            return;
+        }
+        console.error("File preview error:", error);
+        res.status(500).json({
+            error: "Error previewing file",
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
 
-            participants = data
-                .map((row) => ({
-                    name: row.name?.toString().trim() || row.Name?.toString().trim(),
-                    role: row.role?.toString().trim() || row.Role?.toString().trim(),
-                    email: row.email?.toString().trim() || row.Email?.toString().trim(),
-                    department: req.body.department,
-                    selectionCount: 0,
-                }))
-                .filter((p) => p.name);
-        } else {
-            res.status(400).json({ error: "Unsupported file format" });
+/**
+ * Import participants from a file or JSON records, or report what the import would do when `dryRun` is set
+ */
+export const uploadFile = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const source = ParticipantImportService.sourceFromRequest(req.file, req.body);
+        if (!source) {
+            res.status(400).json({ error: "No file uploaded" });
             return;
         }
 
-        if (!participants.length) {
-            res.status(400).json({ error: "No valid participant data found in file" });
+        const options = ParticipantImportService.parseOptions({ ...req.query, ...req.body });
+        const report = await ParticipantImportService.importParticipants(source, options);
+        if (report.dryRun) {
+            res.json(report);
             return;
         }
-        await Participant.bulkWrite(
-            participants.map((p) => ({
-                updateOne: {
-                    filter: { name: p.name, department: p.department },
-                    update: { $set: p },
-                    upsert: true
-                }
-            }))
-        );
 
-        const allParticipants = await Participant.find({
-            department: req.body.department
-        }).sort({ name: 1 });
+        const participantIds = report.rows
+            .filter(row => row.participantId)
+            .map(row => row.participantId);
+        const participants = await Participant.find({ _id: { $in: participantIds } }).sort({ name: 1 });
 
         res.json({
             message: "File uploaded and imported successfully",
-            participants: allParticipants
+            ...report,
+            participants
         });
     } catch (error) {
+        if (error instanceof ImportValidationError) {
+            res.status(400).json({ error: error.message });
+            return;
+        }
+        if (error instanceof Error && error.message === 'Import too large to run in the request') {
+            res.status(413).json({ error: error.message, hint: "Use POST /api/upload/jobs to import it in the background" });
+            return;
+        }
         console.error("File upload error:", error);
         res.status(500).json({ error: "Error processing file" });
     }
 };
+
+/**
+ * Start a background import of a file or JSON records
+ */
+export const createImportJob = async (req: Request, res: Response): Promise<void> => {
+    // Job uploads are written to a temporary file rather than kept in memory
+    const tempPath = req.file?.path;
+    try {
+        let upload;
+        if (req.file) {
+            upload = { fileName: req.file.originalname, stream: fs.createReadStream(req.file.path) };
+        } else if (Array.isArray(req.body.participants) || Array.isArray(req.body.rows)) {
+            upload = { fileName: "participants.json", stream: Readable.from([JSON.stringify(req.body.participants || req.body.rows)]) };
+        } else {
+            res.status(400).json({ error: "No file uploaded" });
+            return;
+        }
+
+        const options = ParticipantImportService.parseOptions({ ...req.query, ...req.body });
+        const job = await ImportJobService.createImportJob(upload, options, req.user?._id);
+
+        res.status(202).json({
+            message: "Import job created successfully",
+            jobId: job._id,
+            status: job.status,
+            progress: job.progress,
+            createdAt: job.createdAt,
+            expiresAt: job.expiresAt
+        });
+    } catch (error) {
+        if (error instanceof ImportValidationError) {
+            res.status(400).json({ error: error.message });
+            return;
+        }
+        console.error("Error creating import job:", error);
+        res.status(500).json({
+            error: "Error creating import job",
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    } finally {
+        if (tempPath) {
+            await fs.promises.rm(tempPath, { force: true });
+        }
+    }
+};
+
+/**
+ * Get import job status: progress, counts and row errors
+ */
+export const getImportJobStatus = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const status = await ImportJobService.getImportJobStatus(req.params.id);
+        res.json(status);
+    } catch (error) {
+        if (error instanceof Error && error.message === 'Import job not found') {
+            res.status(404).json({ error: error.message });
+            return;
+        }
+        console.error("Error getting import job status:", error);
+        res.status(500).json({
+            error: "Error getting import job status",
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
+
+/**
+ * Download the CSV of an import's rejected rows
+ */
+export const downloadImportErrors = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const report = await ImportJobService.openErrorReport(req.params.id);
+
+        res.setHeader("Content-Type", "text/csv");
+        if (report.size !== undefined) {
+            res.setHeader("Content-Length", report.size);
+        }
+        res.setHeader("Content-Disposition", `attachment; filename="${report.fileName}"`);
+
+        report.stream.pipe(res);
+        report.stream.on("error", (error) => {
+            console.error("Error streaming import error report:", error);
+            res.destroy(error);
+        });
+    } catch (error) {
+        if (error instanceof Error && ['Import job not found', 'Import has no rejected rows', 'File not found or expired'].includes(error.message)) {
+            res.status(404).json({ error: error.message });
+            return;
+        }
+        console.error("Error downloading import error report:", error);
+        res.status(500).json({
+            error: "Error downloading import error report",
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
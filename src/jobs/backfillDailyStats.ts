@@ -0,0 +1,67 @@
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import SelectionRecord from '../models/SelectionRecord';
+import { runUnscoped, runWithTenant } from '../models/plugins/tenantScope';
+import { rebuildDailyStats } from './dailyStatsJob';
+
+/**
+ * Backfill DailyStats rollups from historical selection records.
+ *
+ * Usage: npm run stats:backfill -- [--from 2024-01-01] [--to 2025-01-01] [--org <organizationId>]
+ * Defaults to the full history of every organization.
+ */
+
+const readArgument = (name: string): string | undefined => {
+    const index = process.argv.indexOf(`--${name}`);
+    return index !== -1 ? process.argv[index + 1] : undefined;
+};
+
+const parseDate = (name: string, value?: string): Date | undefined => {
+    if (!value) return undefined;
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+        throw new Error(`Invalid --${name} date: ${value}`);
+    }
+    return date;
+};
+
+export const backfillDailyStats = async (options: { from?: Date; to?: Date; organizationId?: string } = {}) => {
+    const findEarliest = () => SelectionRecord.findOne({}).sort({ selectedAt: 1 }).select('selectedAt').lean();
+    const from = options.from || (await (options.organizationId
+        ? runWithTenant(options.organizationId, findEarliest)
+        : runUnscoped(findEarliest)
+    ))?.selectedAt;
+
+    if (!from) {
+        console.log('ℹ️ No selection records to backfill');
+        return { organizations: 0, days: 0 };
+    }
+
+    const to = options.to || new Date();
+    console.log(`🔄 Backfilling daily stats from ${from.toISOString()} to ${to.toISOString()}...`);
+
+    const result = await rebuildDailyStats(from, to, options.organizationId ? [options.organizationId] : undefined);
+    console.log(`✅ Backfilled ${result.days} day(s) across ${result.organizations} organization(s)`);
+
+    return result;
+};
+
+if (require.main === module) {
+    dotenv.config();
+
+    (async () => {
+        try {
+            await mongoose.connect(process.env.MONGODB_URI as string);
+            await backfillDailyStats({
+                from: parseDate('from', readArgument('from')),
+                to: parseDate('to', readArgument('to')),
+                organizationId: readArgument('org')
+            });
+        } catch (error) {
+            console.error('❌ Daily stats backfill failed:', error);
+            process.exitCode = 1;
+        } finally {
+            await mongoose.connection.close();
+        }
+    })();
+}
@@ -0,0 +1,48 @@
+import cron, { ScheduledTask } from 'node-cron';
+import SelectionRecord from '../models/SelectionRecord';
+import { runUnscoped, runWithTenant } from '../models/plugins/tenantScope';
+import { DailyStatsService } from '../services/dailyStatsService';
+
+const DEFAULT_SCHEDULE = '15 0 * * *';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Rebuild the rollups of every organization with selections in [from, to)
+ */
+export const rebuildDailyStats = async (from: Date, to: Date, organizationIds?: string[]) => {
+    const organizations: string[] = organizationIds || (await runUnscoped(() =>
+        SelectionRecord.distinct('organizationId', { selectedAt: { $gte: from, $lt: to } })
+    )).map(id => id.toString());
+
+    let days = 0;
+    for (const organizationId of organizations) {
+        try {
+            const result = await runWithTenant(organizationId, () => DailyStatsService.rebuildRange(from, to));
+            days += result.days;
+        } catch (error) {
+            console.error(`❌ Daily stats rollup failed for organization ${organizationId}:`, error);
+        }
+    }
+
+    return { organizations: organizations.length, days };
+};
+
+/**
+ * Nightly job recomputing recent rollups from the selection records, correcting
+ * any drift from the incremental updates applied on each spin
+ */
+export const scheduleDailyStatsRollup = (): ScheduledTask => {
+    return cron.schedule(process.env.DAILY_STATS_CRON || DEFAULT_SCHEDULE, async () => {
+        // Whatever an organization's timezone, the local day containing `to` has already
+        // ended, so only closed days are rebuilt and today's incremental updates are left alone
+        const to = new Date(Date.now() - DAY_MS);
+        const from = new Date(to.getTime() - DAY_MS);
+
+        const result = await rebuildDailyStats(from, to);
+        console.log(`📊 Daily stats rollup: ${result.days} day(s) across ${result.organizations} organization(s)`);
+    }, {
+        name: 'daily-stats-rollup',
+        timezone: 'UTC',
+        noOverlap: true
+    });
+};
@@ -0,0 +1,65 @@
+import { createQueue, JobQueue } from './queue';
+
+const MAX_ATTEMPTS = parseInt(process.env.EXPORT_MAX_ATTEMPTS || '3', 10);
+const RETRY_DELAY_MS = parseInt(process.env.EXPORT_RETRY_DELAY_MS || '10000', 10);
+
+export interface ExportJobData {
+    exportJobId: string;
+    organizationId: string;
+}
+
+let exportQueue: JobQueue<ExportJobData> | null = null;
+
+/**
+ * Queue export jobs are handed to the worker through, created on first use
+ */
+export const getExportQueue = (): JobQueue<ExportJobData> => {
+    if (!exportQueue) {
+        exportQueue = createQueue<ExportJobData>('exports');
+    }
+    return exportQueue;
+};
+
+/**
+ * Queue an export job, keyed by its id so it is never queued twice
+ */
+export const enqueueExport = async (exportJobId: string, organizationId: string) => {
+    await getExportQueue().add(
+        { exportJobId, organizationId },
+        { jobId: exportJobId, attempts: MAX_ATTEMPTS, backoff: RETRY_DELAY_MS }
+    );
+};
+
+/**
+ * Put an export back in the queue for later without using up one of its attempts
+ */
+export const deferExport = async (data: ExportJobData, delay: number) => {
+    await getExportQueue().add(data, {
+        jobId: `${data.exportJobId}:deferred:${Date.now()}`,
+        delay,
+        attempts: MAX_ATTEMPTS,
+        backoff: RETRY_DELAY_MS
+    });
+};
+
+let deliveryQueue: JobQueue<ExportJobData> | null = null;
+
+/**
+ * Queue completed scheduled exports wait in for delivery to their recipients
+ */
+export const getDeliveryQueue = (): JobQueue<ExportJobData> => {
+    if (!deliveryQueue) {
+        deliveryQueue = createQueue<ExportJobData>('export-deliveries');
+    }
+    return deliveryQueue;
+};
+
+/**
+ * Queue the delivery of a completed scheduled export
+ */
+export const enqueueDelivery = async (exportJobId: string, organizationId: string) => {
+    await getDeliveryQueue().add(
+        { exportJobId, organizationId },
+        { jobId: `${exportJobId}:delivery`, attempts: MAX_ATTEMPTS, backoff: RETRY_DELAY_MS }
+    );
+};
@@ -0,0 +1,186 @@
+import mongoose from 'mongoose';
+import cron, { ScheduledTask } from 'node-cron';
+import dotenv from 'dotenv';
+import ExportJob from '../models/ExportJob';
+import { runUnscoped, runWithTenant } from '../models/plugins/tenantScope';
+import { ExportService } from '../services/exportService';
+import { ExportScheduleService } from '../services/exportScheduleService';
+import {
+    deferExport,
+    enqueueDelivery,
+    enqueueExport,
+    ExportJobData,
+    getDeliveryQueue,
+    getExportQueue
+} from './exportQueue';
+import { JobQueue, QueueJob } from './queue';
+import { startImportWorker } from './importWorker';
+
+const WORKER_CONCURRENCY = parseInt(process.env.EXPORT_WORKER_CONCURRENCY || '4', 10);
+const ORGANIZATION_CONCURRENCY = parseInt(process.env.EXPORT_ORG_CONCURRENCY || '2', 10);
+const DELIVERY_CONCURRENCY = parseInt(process.env.EXPORT_DELIVERY_CONCURRENCY || '2', 10);
+const STALE_AFTER_MS = parseInt(process.env.EXPORT_STALE_AFTER_MINUTES || '15', 10) * 60 * 1000;
+// How long an export waits when its organization already has the maximum running
+const ORGANIZATION_BUSY_DELAY_MS = 15 * 1000;
+const DEFAULT_CLEANUP_SCHEDULE = '0 * * * *';
+// How often due export schedules are looked for
+const DEFAULT_SCHEDULER_SCHEDULE = '* * * * *';
+
+/**
+ * Run one queued export in its organization's scope, failing the attempt so the queue retries it
+ */
+export const handleExportJob = async (job: QueueJob<ExportJobData>) => {
+    const { exportJobId, organizationId } = job.data;
+
+    await runWithTenant(organizationId, async () => {
+        const claim = await ExportService.claimExportJob(exportJobId, job.id, ORGANIZATION_CONCURRENCY, STALE_AFTER_MS);
+        if (claim === 'busy') {
+            await deferExport(job.data, ORGANIZATION_BUSY_DELAY_MS);
+            return;
+        }
+        if (claim === 'unavailable') {
+            // Finished, expired or picked up by another queue entry
+            return;
+        }
+
+        let completed;
+        try {
+            completed = await ExportService.processExportJob(exportJobId, percent => job.progress(percent));
+        } catch (error) {
+            const willRetry = job.attemptsMade + 1 < job.maxAttempts;
+            await ExportService.recordExportFailure(exportJobId, error, willRetry);
+            throw error;
+        }
+
+        if (completed.scheduleId) {
+            await enqueueDelivery(exportJobId, organizationId);
+        }
+    });
+};
+
+/**
+ * Deliver one completed scheduled export, failing the attempt so the queue retries it
+ */
+export const handleDeliveryJob = async (job: QueueJob<ExportJobData>) => {
+    const { exportJobId, organizationId } = job.data;
+
+    await runWithTenant(organizationId, async () => {
+        try {
+            await ExportScheduleService.deliverScheduledExport(exportJobId);
+        } catch (error) {
+            const willRetry = job.attemptsMade + 1 < job.maxAttempts;
+            await ExportScheduleService.recordDeliveryFailure(exportJobId, error, willRetry);
+            throw error;
+        }
+    });
+};
+
+/**
+ * Re-queue exports left behind by a crashed or restarted process: those processing without
+ * progress for too long, and those pending that long. With the in-memory queue nothing
+ * survived the restart, so every unfinished export is re-queued.
+ */
+export const recoverStuckExports = async (everyUnfinished: boolean = false) => {
+    const staleBefore = new Date(Date.now() - STALE_AFTER_MS);
+    const stuck = await runUnscoped(() => ExportJob.find({
+        status: { $in: ['pending', 'processing'] },
+        ...(!everyUnfinished && { updatedAt: { $lt: staleBefore } })
+    }).select('_id organizationId status').lean());
+
+    for (const job of stuck) {
+        const exportJobId = job._id.toString();
+        const organizationId = job.organizationId.toString();
+
+        await runWithTenant(organizationId, () => ExportJob.updateOne(
+            { _id: job._id, status: job.status },
+            { $set: { status: 'pending' }, $unset: { queueJobId: 1 } }
+        ));
+        await enqueueExport(exportJobId, organizationId);
+    }
+
+    // Completed scheduled exports whose delivery never finished
+    const undelivered = await runUnscoped(() => ExportJob.find({
+        status: 'completed',
+        'delivery.status': 'pending',
+        ...(!everyUnfinished && { updatedAt: { $lt: staleBefore } })
+    }).select('_id organizationId').lean());
+
+    for (const job of undelivered) {
+        await enqueueDelivery(job._id.toString(), job.organizationId.toString());
+    }
+
+    return stuck.length + undelivered.length;
+};
+
+/**
+ * Hourly removal of expired exports and their stored files
+ */
+export const scheduleExportCleanup = (): ScheduledTask => {
+    return cron.schedule(process.env.EXPORT_CLEANUP_CRON || DEFAULT_CLEANUP_SCHEDULE, () => ExportService.cleanupExpiredExports(), {
+        name: 'export-cleanup',
+        timezone: 'UTC',
+        noOverlap: true
+    });
+};
+
+/**
+ * Start the export jobs of due export schedules every minute
+ */
+export const scheduleExportSchedules = (): ScheduledTask => {
+    return cron.schedule(process.env.EXPORT_SCHEDULER_CRON || DEFAULT_SCHEDULER_SCHEDULE, async () => {
+        const started = await ExportScheduleService.runDueSchedules();
+        if (started > 0) {
+            console.log(`🗓️  Started ${started} scheduled export(s)`);
+        }
+    }, {
+        name: 'export-schedules',
+        timezone: 'UTC',
+        noOverlap: true
+    });
+};
+
+/**
+ * Recover stuck exports, then start processing the export and delivery queues,
+ * running export schedules and cleaning up expired files
+ */
+export const startExportWorker = async (): Promise<JobQueue<ExportJobData>[]> => {
+    const queue = getExportQueue();
+    const deliveryQueue = getDeliveryQueue();
+
+    const recovered = await recoverStuckExports(queue.driver === 'memory');
+    if (recovered > 0) {
+        console.log(`♻️  Re-queued ${recovered} stuck export job(s)`);
+    }
+
+    queue.process(WORKER_CONCURRENCY, handleExportJob);
+    deliveryQueue.process(DELIVERY_CONCURRENCY, handleDeliveryJob);
+    scheduleExportSchedules();
+    scheduleExportCleanup();
+    console.log(`📦 Export worker started (${queue.driver} queue, concurrency ${WORKER_CONCURRENCY}, ${ORGANIZATION_CONCURRENCY} per organization)`);
+
+    return [queue, deliveryQueue];
+};
+
+// Standalone worker process: npm run worker. It also runs participant imports.
+if (require.main === module) {
+    dotenv.config();
+
+    (async () => {
+        await mongoose.connect(process.env.MONGODB_URI as string);
+        console.log('✅ Connected to MongoDB');
+
+        const queues: JobQueue<any>[] = [...await startExportWorker(), await startImportWorker()];
+
+        const shutdown = async (signal: string) => {
+            console.log(`🛑 ${signal} received, waiting for running exports and imports...`);
+            await Promise.all(queues.map(queue => queue.close()));
+            await mongoose.connection.close();
+            process.exit(0);
+        };
+        process.on('SIGTERM', () => shutdown('SIGTERM'));
+        process.on('SIGINT', () => shutdown('SIGINT'));
+    })().catch(error => {
+        console.error('❌ Export worker failed to start:', error);
+        process.exit(1);
+    });
+}
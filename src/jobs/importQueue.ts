@@ -0,0 +1,31 @@
+import { createQueue, JobQueue } from './queue';
+
+const MAX_ATTEMPTS = parseInt(process.env.IMPORT_MAX_ATTEMPTS || '3', 10);
+const RETRY_DELAY_MS = parseInt(process.env.IMPORT_RETRY_DELAY_MS || '10000', 10);
+
+export interface ImportJobData {
+    importJobId: string;
+    organizationId: string;
+}
+
+let importQueue: JobQueue<ImportJobData> | null = null;
+
+/**
+ * Queue import jobs are handed to the worker through, created on first use
+ */
+export const getImportQueue = (): JobQueue<ImportJobData> => {
+    if (!importQueue) {
+        importQueue = createQueue<ImportJobData>('imports');
+    }
+    return importQueue;
+};
+
+/**
+ * Queue an import job, keyed by its id so it is never queued twice
+ */
+export const enqueueImport = async (importJobId: string, organizationId: string) => {
+    await getImportQueue().add(
+        { importJobId, organizationId },
+        { jobId: importJobId, attempts: MAX_ATTEMPTS, backoff: RETRY_DELAY_MS }
+    );
+};
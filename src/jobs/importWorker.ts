@@ -0,0 +1,70 @@
+import ImportJob from '../models/ImportJob';
+import { runUnscoped, runWithTenant } from '../models/plugins/tenantScope';
+import { ImportJobService } from '../services/importJobService';
+import { enqueueImport, getImportQueue, ImportJobData } from './importQueue';
+import { JobQueue, QueueJob } from './queue';
+
+const WORKER_CONCURRENCY = parseInt(process.env.IMPORT_WORKER_CONCURRENCY || '2', 10);
+const STALE_AFTER_MS = parseInt(process.env.IMPORT_STALE_AFTER_MINUTES || '15', 10) * 60 * 1000;
+
+/**
+ * Run one queued import in its organization's scope, failing the attempt so the queue retries it
+ */
+export const handleImportJob = async (job: QueueJob<ImportJobData>) => {
+    const { importJobId, organizationId } = job.data;
+
+    await runWithTenant(organizationId, async () => {
+        if (!await ImportJobService.claimImportJob(importJobId, job.id)) {
+            // Finished, expired or picked up by another queue entry
+            return;
+        }
+
+        try {
+            await ImportJobService.processImportJob(importJobId, percent => job.progress(percent));
+        } catch (error) {
+            const willRetry = job.attemptsMade + 1 < job.maxAttempts;
+            await ImportJobService.recordImportFailure(importJobId, error, willRetry);
+            throw error;
+        }
+    });
+};
+
+/**
+ * Re-queue imports left behind by a crashed or restarted process, as for exports
+ */
+export const recoverStuckImports = async (everyUnfinished: boolean = false) => {
+    const staleBefore = new Date(Date.now() - STALE_AFTER_MS);
+    const stuck = await runUnscoped(() => ImportJob.find({
+        status: { $in: ['pending', 'processing'] },
+        ...(!everyUnfinished && { updatedAt: { $lt: staleBefore } })
+    }).select('_id organizationId status').lean());
+
+    for (const job of stuck) {
+        const organizationId = job.organizationId.toString();
+
+        await runWithTenant(organizationId, () => ImportJob.updateOne(
+            { _id: job._id, status: job.status },
+            { $set: { status: 'pending' }, $unset: { queueJobId: 1 } }
+        ));
+        await enqueueImport(job._id.toString(), organizationId);
+    }
+
+    return stuck.length;
+};
+
+/**
+ * Recover stuck imports, then start processing the import queue
+ */
+export const startImportWorker = async (): Promise<JobQueue<ImportJobData>> => {
+    const queue = getImportQueue();
+
+    const recovered = await recoverStuckImports(queue.driver === 'memory');
+    if (recovered > 0) {
+        console.log(`♻️  Re-queued ${recovered} stuck import job(s)`);
+    }
+
+    queue.process(WORKER_CONCURRENCY, handleImportJob);
+    console.log(`📥 Import worker started (${queue.driver} queue, concurrency ${WORKER_CONCURRENCY})`);
+
+    return queue;
+};
@@ -0,0 +1,192 @@
+import Bull from 'bull';
+
+export type QueueDriver = 'bull' | 'memory';
+
+export interface EnqueueOptions {
+    // Jobs with an id already waiting, delayed or running are not added twice
+    jobId?: string;
+    delay?: number;
+    attempts?: number;
+    // Base delay of the exponential backoff between attempts
+    backoff?: number;
+}
+
+export interface QueueJob<T> {
+    id: string;
+    data: T;
+    // Attempts that already failed before this one
+    attemptsMade: number;
+    maxAttempts: number;
+    progress(percent: number): Promise<void>;
+}
+
+export type JobHandler<T> = (job: QueueJob<T>) => Promise<void>;
+
+export interface JobQueue<T> {
+    readonly driver: QueueDriver;
+    add(data: T, options?: EnqueueOptions): Promise<void>;
+    process(concurrency: number, handler: JobHandler<T>): void;
+    close(): Promise<void>;
+}
+
+/**
+ * Queue backed by Redis: jobs survive restarts and are shared by every worker process
+ */
+class BullQueue<T> implements JobQueue<T> {
+    readonly driver = 'bull';
+    private queue: Bull.Queue<T>;
+
+    constructor(name: string) {
+        this.queue = new Bull<T>(name, process.env.REDIS_URL || 'redis://127.0.0.1:6379');
+    }
+
+    async add(data: T, options: EnqueueOptions = {}) {
+        await this.queue.add(data, {
+            jobId: options.jobId,
+            delay: options.delay,
+            attempts: options.attempts,
+            backoff: options.backoff ? { type: 'exponential', delay: options.backoff } : undefined,
+            removeOnComplete: true,
+            removeOnFail: true
+        });
+    }
+
+    process(concurrency: number, handler: JobHandler<T>) {
+        this.queue.process(concurrency, job => handler({
+            id: String(job.id),
+            data: job.data,
+            attemptsMade: job.attemptsMade,
+            maxAttempts: job.opts.attempts || 1,
+            progress: percent => job.progress(percent)
+        }));
+    }
+
+    async close() {
+        await this.queue.close();
+    }
+}
+
+interface MemoryJob<T> {
+    id: string;
+    data: T;
+    attemptsMade: number;
+    maxAttempts: number;
+    backoff: number;
+}
+
+/**
+ * In-process queue for local development and tests: same retry semantics, nothing survives a restart
+ */
+class MemoryQueue<T> implements JobQueue<T> {
+    readonly driver = 'memory';
+    private waiting: MemoryJob<T>[] = [];
+    private jobIds = new Set<string>();
+    private timers = new Set<NodeJS.Timeout>();
+    private handler?: JobHandler<T>;
+    private concurrency = 1;
+    private running = 0;
+    private inFlight = new Set<Promise<void>>();
+    private closed = false;
+    private nextId = 1;
+
+    async add(data: T, options: EnqueueOptions = {}) {
+        const id = options.jobId || String(this.nextId++);
+        if (this.jobIds.has(id)) {
+            return;
+        }
+
+        this.jobIds.add(id);
+        this.schedule({
+            id,
+            data,
+            attemptsMade: 0,
+            maxAttempts: options.attempts || 1,
+            backoff: options.backoff || 0
+        }, options.delay || 0);
+    }
+
+    process(concurrency: number, handler: JobHandler<T>) {
+        this.handler = handler;
+        this.concurrency = concurrency;
+        this.drain();
+    }
+
+    /**
+     * Stop taking jobs and wait for the running ones to finish
+     */
+    async close() {
+        this.closed = true;
+        this.timers.forEach(timer => clearTimeout(timer));
+        this.timers.clear();
+        this.waiting = [];
+        this.handler = undefined;
+        await Promise.all(this.inFlight);
+    }
+
+    private schedule(job: MemoryJob<T>, delay: number) {
+        if (this.closed) {
+            return;
+        }
+        if (delay <= 0) {
+            this.waiting.push(job);
+            this.drain();
+            return;
+        }
+
+        const timer = setTimeout(() => {
+            this.timers.delete(timer);
+            this.waiting.push(job);
+            this.drain();
+        }, delay);
+        // Pending retries alone should not keep the process alive
+        timer.unref();
+        this.timers.add(timer);
+    }
+
+    private drain() {
+        while (this.handler && this.running < this.concurrency && this.waiting.length > 0) {
+            const running = this.run(this.waiting.shift()!, this.handler);
+            this.inFlight.add(running);
+            running.finally(() => this.inFlight.delete(running));
+        }
+    }
+
+    private async run(job: MemoryJob<T>, handler: JobHandler<T>) {
+        this.running += 1;
+        try {
+            await handler({
+                id: job.id,
+                data: job.data,
+                attemptsMade: job.attemptsMade,
+                maxAttempts: job.maxAttempts,
+                progress: async () => undefined
+            });
+            this.jobIds.delete(job.id);
+        } catch (error) {
+            job.attemptsMade += 1;
+            if (job.attemptsMade < job.maxAttempts) {
+                this.schedule(job, job.backoff * Math.pow(2, job.attemptsMade - 1));
+            } else {
+                this.jobIds.delete(job.id);
+            }
+        } finally {
+            this.running -= 1;
+            this.drain();
+        }
+    }
+}
+
+/**
+ * Driver from QUEUE_DRIVER, defaulting to Bull when Redis is configured
+ */
+export const getQueueDriver = (): QueueDriver => {
+    const driver = process.env.QUEUE_DRIVER || (process.env.REDIS_URL ? 'bull' : 'memory');
+    if (driver !== 'bull' && driver !== 'memory') {
+        throw new Error(`Unknown QUEUE_DRIVER "${driver}", expected "bull" or "memory"`);
+    }
+    return driver;
+};
+
+export const createQueue = <T>(name: string): JobQueue<T> => {
+    return getQueueDriver() === 'bull' ? new BullQueue<T>(name) : new MemoryQueue<T>();
+};
@@ -0,0 +1,116 @@
+import { Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import { AnalyticsFilters } from '../services/analyticsService';
+import { DEFAULT_TIMEZONE, GRANULARITIES, Granularity, TimezoneService } from '../services/timezoneService';
+
+// Longest series a single request may ask for
+const MAX_BUCKETS = 1000;
+
+// Earliest `from` accepted, well before any selection could have been recorded
+const MIN_FROM = new Date(Date.UTC(2000, 0, 1));
+
+const QUERY_FILTERS = ['from', 'to', 'granularity', 'teamId', 'department', 'meetingId'];
+
+const APPROXIMATE_BUCKET_MS: Record<Granularity, number> = {
+    hour: 60 * 60 * 1000,
+    day: 24 * 60 * 60 * 1000,
+    week: 7 * 24 * 60 * 60 * 1000,
+    month: 30 * 24 * 60 * 60 * 1000
+};
+
+declare global {
+    namespace Express {
+        interface Request {
+            analyticsFilters?: AnalyticsFilters;
+        }
+    }
+}
+
+/**
+ * Middleware to validate the shared analytics query parameters
+ * (`from`, `to`, `granularity`, `teamId`, `department`, `meetingId`)
+ */
+export const parseAnalyticsFilters = (req: Request, res: Response, next: NextFunction) => {
+    const timezone = req.timezone || DEFAULT_TIMEZONE;
+    const errors: string[] = [];
+
+    // Repeated (`?a=1&a=2`) or nested (`?a[b]=1`) parameters are not valid filters
+    const query: Record<string, string | undefined> = {};
+    for (const name of QUERY_FILTERS) {
+        const value = req.query[name];
+        if (value === undefined || typeof value === 'string') {
+            query[name] = value;
+        } else {
+            errors.push(`${name} must be a single value`);
+        }
+    }
+
+    const parseDate = (name: string): Date | undefined => {
+        const value = query[name];
+        if (!value) return undefined;
+
+        const date = TimezoneService.parseDate(value, timezone);
+        if (isNaN(date.getTime())) {
+            errors.push(`${name} must be a valid date`);
+            return undefined;
+        }
+        return date;
+    };
+
+    const from = parseDate('from');
+    const to = parseDate('to');
+    if (from && from < MIN_FROM) {
+        errors.push(`from must not be before ${MIN_FROM.toISOString().slice(0, 10)}`);
+    }
+    if (from && to && from >= to) {
+        errors.push('from must be before to');
+    }
+
+    const granularity = query.granularity as Granularity | undefined;
+    if (granularity && !GRANULARITIES.includes(granularity)) {
+        errors.push(`granularity must be one of: ${GRANULARITIES.join(', ')}`);
+    }
+
+    for (const name of ['teamId', 'meetingId']) {
+        if (query[name] && !mongoose.Types.ObjectId.isValid(query[name]!)) {
+            errors.push(`${name} must be a valid ID`);
+        }
+    }
+    // Team routes such as `/api/teams/:id/performance` filter by the team in the path
+    if (req.params.id !== undefined && !mongoose.Types.ObjectId.isValid(req.params.id)) {
+        errors.push('id must be a valid ID');
+    }
+
+    const department = query.department?.trim();
+    if (query.department !== undefined && !department) {
+        errors.push('department must not be empty');
+    }
+
+    // Series default to daily buckets
+    const effectiveGranularity = granularity && GRANULARITIES.includes(granularity) ? granularity : 'day';
+    if (from) {
+        const buckets = ((to || new Date()).getTime() - from.getTime()) / APPROXIMATE_BUCKET_MS[effectiveGranularity];
+        if (buckets > MAX_BUCKETS) {
+            errors.push(`Range is too long for ${effectiveGranularity} granularity (max ${MAX_BUCKETS} buckets)`);
+        }
+    }
+
+    if (errors.length > 0) {
+        res.status(400).json({
+            error: 'Invalid analytics filters',
+            details: errors
+        });
+        return;
+    }
+
+    req.analyticsFilters = {
+        from,
+        to,
+        granularity,
+        teamId: query.teamId,
+        department,
+        meetingId: query.meetingId,
+        timezone
+    };
+    next();
+};
@@ -2,6 +2,7 @@ import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import User from '../models/User';
 import Organization from '../models/Organization';
+import { runWithTenant } from '../models/plugins/tenantScope';
 
 // Extend the Request interface to include user and organization
 declare global {
@@ -14,6 +15,7 @@ declare global {
                 email: string;
                 name: string;
                 permissions: any;
+                timezone?: string;
             };
             organization?: {
                 _id: string;
@@ -169,10 +171,12 @@ export const authenticateUser = async (req: Request, res: Response, next: NextFu
             organizationRole: user.organizationRole,
             email: user.email,
             name: user.name,
-            permissions: user.permissions
+            permissions: user.permissions,
+            timezone: user.settings?.preferences?.timezone
         };
 
-        next();
+        // Bind every tenant-scoped model query downstream to the user's organization
+        runWithTenant(req.user.organizationId, next);
     } catch (error) {
         console.error('Error authenticating user:', error);
         res.status(401).json({
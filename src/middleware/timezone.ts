@@ -0,0 +1,33 @@
+import { Request, Response, NextFunction } from 'express';
+import { DEFAULT_TIMEZONE, TimezoneService } from '../services/timezoneService';
+
+declare global {
+    namespace Express {
+        interface Request {
+            timezone?: string;
+        }
+    }
+}
+
+/**
+ * Middleware to resolve the timezone used for date bucketing: the `tz` query
+ * parameter, then the user's preference, then the organization setting
+ */
+export const resolveTimezone = (req: Request, res: Response, next: NextFunction) => {
+    const requested = req.query.tz;
+
+    if (requested !== undefined && typeof requested !== 'string') {
+        res.status(400).json({ error: 'Invalid timezone', message: 'tz must be a single value' });
+        return;
+    }
+    if (requested && !TimezoneService.isValid(requested)) {
+        res.status(400).json({
+            error: 'Invalid timezone',
+            message: `Unknown timezone "${requested}". Use an IANA name such as "Africa/Lagos"`
+        });
+        return;
+    }
+
+    req.timezone = requested || req.user?.timezone || req.organization?.settings?.timezone || DEFAULT_TIMEZONE;
+    next();
+};
@@ -1,4 +1,3 @@
-import mongoose from 'mongoose';
 import Meeting from '../models/meeting';
 import Participant from '../models/participant';
 
@@ -62,8 +61,9 @@ export async function up() {
 
         console.log(`Updated ${participantUpdateResult.modifiedCount} participants with enterprise fields`);
 
-        // Update participant counts in meetings based on existing data
-        const meetings = await Meeting.find({});
+        // Update participant counts in meetings based on existing data.
+        // Read the raw documents, the embedded roster has since moved to MeetingMembership (migration 004).
+        const meetings = await Meeting.collection.find({}, { projection: { participants: 1 } }).toArray();
         for (const meeting of meetings) {
             const participantCount = meeting.participants ? meeting.participants.length : 0;
             await Meeting.findByIdAndUpdate(meeting._id, {
@@ -1,4 +1,3 @@
-import mongoose from 'mongoose';
 import SelectionHistory from '../models/selectionHistory';
 import SelectionRecord from '../models/SelectionRecord';
 import Participant from '../models/participant';
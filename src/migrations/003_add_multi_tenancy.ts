@@ -1,4 +1,3 @@
-import mongoose from 'mongoose';
 import Organization from '../models/Organization';
 import User from '../models/User';
 import Meeting from '../models/meeting';
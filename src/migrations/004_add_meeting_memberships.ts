@@ -0,0 +1,239 @@
+import mongoose from 'mongoose';
+import Meeting from '../models/meeting';
+import Participant from '../models/participant';
+import SelectionRecord from '../models/SelectionRecord';
+import MeetingMembership from '../models/MeetingMembership';
+
+/**
+ * Migration 004: Move Meeting Rosters to Meeting Memberships
+ * This migration turns the rosters embedded in meetings, and the single meeting referenced by each
+ * participant, into MeetingMembership documents carrying per-meeting selection statistics
+ */
+
+type MembershipKey = string;
+
+const keyOf = (meetingId: any, participantId: any): MembershipKey => `${meetingId}:${participantId}`;
+
+export async function up() {
+    console.log('Starting Migration 004: Migrating meeting rosters to memberships...');
+
+    try {
+        const memberships = new Map<MembershipKey, { organizationId: any; meetingId: any; participantId: any }>();
+        const addMembership = (organizationId: any, meetingId: any, participantId: any) => {
+            memberships.set(keyOf(meetingId, participantId), { organizationId, meetingId, participantId });
+        };
+
+        // Embedded rosters hold copies of participants, matched back by id, then by email within the organization.
+        // Entries without a participant get one created from the copy, so they are not lost with the roster.
+        const meetings = await Meeting.collection
+            .find({ 'participants.0': { $exists: true } }, { projection: { organizationId: 1, department: 1, participants: 1 } })
+            .toArray();
+
+        console.log(`Found ${meetings.length} meetings with an embedded roster`);
+
+        // Participants created so far, by organization and id or email, so an entry copied into several meetings is created once
+        const created = new Map<string, any>();
+        // Meetings keeping their embedded roster because an entry could not be turned into a participant
+        const keptRosters: any[] = [];
+        let createdCount = 0;
+        let unmatched = 0;
+        for (const meeting of meetings) {
+            const entries: any[] = meeting.participants || [];
+            const ids = entries.map(entry => entry._id).filter(Boolean);
+            const emails = entries.map(entry => entry.email && entry.email.toLowerCase()).filter(Boolean);
+
+            const participants = await Participant.find({
+                organizationId: meeting.organizationId,
+                $or: [{ _id: { $in: ids } }, { email: { $in: emails } }]
+            }).select('_id email').lean();
+
+            const byId = new Map(participants.map(p => [p._id.toString(), p]));
+            const byEmail = new Map(participants.filter(p => p.email).map(p => [p.email, p]));
+
+            let keepRoster = false;
+            for (const entry of entries) {
+                const idKey = entry._id && `${meeting.organizationId}:${entry._id}`;
+                const emailKey = entry.email && `${meeting.organizationId}:${entry.email.toLowerCase()}`;
+                let participant = (entry._id && byId.get(entry._id.toString())) ||
+                    (entry.email && byEmail.get(entry.email.toLowerCase())) ||
+                    (idKey && created.get(idKey)) ||
+                    (emailKey && created.get(emailKey));
+
+                if (!participant && entry.name) {
+                    participant = {
+                        _id: entry._id || new mongoose.Types.ObjectId(),
+                        organizationId: meeting.organizationId,
+                        name: entry.name,
+                        role: entry.role,
+                        email: entry.email ? entry.email.toLowerCase() : undefined,
+                        department: entry.department || meeting.department,
+                        lastSelected: entry.lastSelected,
+                        selectionCount: entry.selectionCount || 0,
+                        isActive: true,
+                        totalMeetings: 1,
+                        createdAt: new Date(),
+                        updatedAt: new Date()
+                    };
+                    await Participant.collection.insertOne(participant);
+                    createdCount++;
+                    if (idKey) created.set(idKey, participant);
+                    if (emailKey) created.set(emailKey, participant);
+                    if (!idKey) created.set(`${meeting.organizationId}:${participant._id}`, participant);
+                }
+
+                if (participant) {
+                    addMembership(meeting.organizationId, meeting._id, participant._id);
+                } else {
+                    unmatched++;
+                    keepRoster = true;
+                }
+            }
+            if (keepRoster) {
+                keptRosters.push(meeting._id);
+            }
+        }
+
+        if (createdCount > 0) {
+            console.log(`Created ${createdCount} participants for roster entries with no matching participant`);
+        }
+        if (unmatched > 0) {
+            console.log(`Kept the embedded roster of ${keptRosters.length} meetings for ${unmatched} entries without a name`);
+        }
+
+        // Participants that referenced a single meeting
+        const referenced = await Participant.collection
+            .find({ meetingId: { $exists: true, $ne: null } }, { projection: { organizationId: 1, meetingId: 1 } })
+            .toArray();
+
+        for (const participant of referenced) {
+            addMembership(participant.organizationId, participant.meetingId, participant._id);
+        }
+
+        console.log(`Found ${memberships.size} memberships to create`);
+
+        // Per-meeting statistics from the selection history
+        const stats = await SelectionRecord.aggregate([
+            {
+                $group: {
+                    _id: { meetingId: '$meetingId', participantId: '$participantId' },
+                    count: { $sum: 1 },
+                    lastSelected: { $max: '$selectedAt' }
+                }
+            }
+        ]);
+        const statsByKey = new Map(stats.map(s => [keyOf(s._id.meetingId, s._id.participantId), s]));
+
+        // Insert in batches to avoid memory issues
+        const batchSize = 1000;
+        const operations = [...memberships.entries()].map(([key, membership]) => {
+            const stat = statsByKey.get(key);
+            return {
+                updateOne: {
+                    filter: {
+                        organizationId: membership.organizationId,
+                        meetingId: membership.meetingId,
+                        participantId: membership.participantId
+                    },
+                    update: {
+                        $setOnInsert: {
+                            selectionCount: stat ? stat.count : 0,
+                            ...(stat && { lastSelected: stat.lastSelected }),
+                            addedAt: new Date()
+                        }
+                    },
+                    upsert: true
+                }
+            };
+        });
+
+        let writtenCount = 0;
+        for (let i = 0; i < operations.length; i += batchSize) {
+            const batch = operations.slice(i, i + batchSize);
+            await MeetingMembership.bulkWrite(batch, { ordered: false });
+            writtenCount += batch.length;
+            console.log(`Migrated ${writtenCount}/${operations.length} memberships`);
+        }
+
+        // The memberships are now the only roster, apart from rosters with entries that could not be migrated
+        await Meeting.collection.updateMany(
+            { participants: { $exists: true }, _id: { $nin: keptRosters } },
+            { $unset: { participants: '' } }
+        );
+        await Participant.collection.updateMany({ meetingId: { $exists: true } }, { $unset: { meetingId: '' } });
+
+        console.log('Migration 004 completed successfully');
+        return true;
+    } catch (error) {
+        console.error('Error in Migration 004:', error);
+        throw error;
+    }
+}
+
+export async function down() {
+    console.log('Starting Migration 004 rollback...');
+
+    try {
+        const memberships = await MeetingMembership.find({}).lean();
+        const participants = await Participant.collection
+            .find({ _id: { $in: memberships.map(m => m.participantId) } })
+            .toArray();
+        const byId = new Map(participants.map(p => [p._id.toString(), p]));
+
+        // Rebuild the embedded rosters. Rosters kept by the migration are complete already.
+        const kept = await Meeting.collection
+            .find({ 'participants.0': { $exists: true } }, { projection: { _id: 1 } })
+            .toArray();
+        const keptIds = new Set(kept.map(meeting => meeting._id.toString()));
+        const rosters = new Map<string, any[]>();
+        for (const membership of memberships) {
+            const participant = byId.get(membership.participantId.toString());
+            if (!participant) continue;
+
+            const key = membership.meetingId.toString();
+            if (keptIds.has(key)) continue;
+            rosters.set(key, [...(rosters.get(key) || []), {
+                _id: participant._id,
+                name: participant.name,
+                role: participant.role,
+                email: participant.email,
+                department: participant.department,
+                lastSelected: membership.lastSelected,
+                selectionCount: membership.selectionCount
+            }]);
+        }
+
+        for (const [meetingId, roster] of rosters) {
+            await Meeting.collection.updateOne(
+                { _id: new mongoose.Types.ObjectId(meetingId) },
+                { $set: { participants: roster } }
+            );
+        }
+
+        // A participant can only reference one meeting again, keep the first they joined
+        const firstMeeting = new Map<string, mongoose.Types.ObjectId>();
+        for (const membership of [...memberships].sort((a, b) => a.addedAt.getTime() - b.addedAt.getTime())) {
+            const key = membership.participantId.toString();
+            if (!firstMeeting.has(key)) {
+                firstMeeting.set(key, membership.meetingId);
+            }
+        }
+
+        for (const [participantId, meetingId] of firstMeeting) {
+            await Participant.collection.updateOne(
+                { _id: new mongoose.Types.ObjectId(participantId) },
+                { $set: { meetingId } }
+            );
+        }
+
+        const deleteResult = await MeetingMembership.deleteMany({});
+        console.log(`Removed ${deleteResult.deletedCount} meeting memberships`);
+
+        console.log('Migration 004 rollback completed');
+        return true;
+    } catch (error) {
+        console.error('Error in Migration 004 rollback:', error);
+        throw error;
+    }
+}
+
+export default { up, down };
@@ -1,6 +1,8 @@
 import mongoose from 'mongoose';
 import migration001 from './001_add_enterprise_fields';
 import migration002 from './002_migrate_selection_history';
+import migration004 from './004_add_meeting_memberships';
+import { runUnscoped } from '../models/plugins/tenantScope';
 
 /**
  * Migration Runner
@@ -26,6 +28,12 @@ const migrations: Migration[] = [
         name: 'Migrate Selection History',
         up: migration002.up,
         down: migration002.down
+    },
+    {
+        version: '004',
+        name: 'Add Meeting Memberships',
+        up: migration004.up,
+        down: migration004.down
     }
 ];
 
@@ -40,7 +48,18 @@ const MigrationSchema = new mongoose.Schema({
 const MigrationLog = mongoose.model('MigrationLog', MigrationSchema);
 
 export class MigrationRunner {
+    /**
+     * Migrations operate across all organizations, so they run outside tenant scoping
+     */
     static async runMigrations() {
+        return runUnscoped(() => this.applyPendingMigrations());
+    }
+
+    static async rollbackMigration(version: string) {
+        return runUnscoped(() => this.revertMigration(version));
+    }
+
+    private static async applyPendingMigrations() {
         console.log('🚀 Starting database migrations...');
 
         try {
@@ -106,7 +125,7 @@ export class MigrationRunner {
         }
     }
 
-    static async rollbackMigration(version: string) {
+    private static async revertMigration(version: string) {
         console.log(`🔄 Rolling back migration ${version}...`);
 
         try {
@@ -0,0 +1,81 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { tenantScopePlugin } from './plugins/tenantScope';
+
+export const ATTENDANCE_STATUSES = ['present', 'absent', 'late'] as const;
+
+export type AttendanceStatus = typeof ATTENDANCE_STATUSES[number];
+
+// Statuses that make a participant eligible for spins
+export const PRESENT_STATUSES: AttendanceStatus[] = ['present', 'late'];
+
+export interface IAttendanceRecord extends Document {
+    organizationId: mongoose.Types.ObjectId;
+    meetingId: mongoose.Types.ObjectId;
+    participantId: mongoose.Types.ObjectId;
+    teamId?: mongoose.Types.ObjectId; // Participant's team when attendance was taken
+    occurrenceDate: Date; // Start of the meeting day in the organization timezone
+    status: AttendanceStatus;
+    source: 'manual' | 'self';
+    markedBy?: mongoose.Types.ObjectId;
+    checkedInAt: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const AttendanceRecordSchema: Schema = new Schema({
+    organizationId: {
+        type: Schema.Types.ObjectId,
+        ref: 'Organization',
+        required: true,
+        index: true
+    },
+    meetingId: {
+        type: Schema.Types.ObjectId,
+        ref: 'Meeting',
+        required: true
+    },
+    participantId: {
+        type: Schema.Types.ObjectId,
+        ref: 'Participant',
+        required: true
+    },
+    teamId: {
+        type: Schema.Types.ObjectId,
+        ref: 'Team'
+    },
+    occurrenceDate: {
+        type: Date,
+        required: true
+    },
+    status: {
+        type: String,
+        enum: ATTENDANCE_STATUSES,
+        required: true
+    },
+    source: {
+        type: String,
+        enum: ['manual', 'self'],
+        default: 'manual'
+    },
+    markedBy: {
+        type: Schema.Types.ObjectId,
+        ref: 'User'
+    },
+    checkedInAt: {
+        type: Date,
+        default: Date.now
+    }
+}, {
+    timestamps: true,
+    toJSON: { virtuals: true }
+});
+
+// Compound indexes for multi-tenancy and performance
+AttendanceRecordSchema.index({ organizationId: 1, meetingId: 1, occurrenceDate: 1, participantId: 1 }, { unique: true }); // One record per participant and meeting day
+AttendanceRecordSchema.index({ organizationId: 1, participantId: 1, occurrenceDate: -1 });
+AttendanceRecordSchema.index({ organizationId: 1, teamId: 1, occurrenceDate: -1 });
+
+// Scope every query and write to the current organization
+AttendanceRecordSchema.plugin(tenantScopePlugin);
+
+export default mongoose.model<IAttendanceRecord>('AttendanceRecord', AttendanceRecordSchema);
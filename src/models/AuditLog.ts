@@ -0,0 +1,66 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { tenantScopePlugin } from './plugins/tenantScope';
+
+export interface IAuditLog extends Document {
+    organizationId: mongoose.Types.ObjectId;
+    userId?: mongoose.Types.ObjectId;
+    action: 'export.download' | 'export.stream';
+    resourceType: 'ExportJob' | 'Organization';
+    resourceId: mongoose.Types.ObjectId;
+    ipAddress?: string;
+    userAgent?: string;
+    metadata?: Record<string, any>;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const AuditLogSchema: Schema = new Schema({
+    organizationId: {
+        type: Schema.Types.ObjectId,
+        ref: 'Organization',
+        required: true,
+        index: true
+    },
+    userId: {
+        type: Schema.Types.ObjectId,
+        ref: 'User'
+    },
+    action: {
+        type: String,
+        enum: ['export.download', 'export.stream'],
+        required: true
+    },
+    resourceType: {
+        type: String,
+        enum: ['ExportJob', 'Organization'],
+        required: true
+    },
+    resourceId: {
+        type: Schema.Types.ObjectId,
+        required: true
+    },
+    ipAddress: {
+        type: String,
+        trim: true
+    },
+    userAgent: {
+        type: String,
+        trim: true
+    },
+    metadata: {
+        type: Schema.Types.Mixed
+    }
+}, {
+    timestamps: true,
+    toJSON: { virtuals: true }
+});
+
+// Compound indexes for multi-tenancy and performance
+AuditLogSchema.index({ organizationId: 1, createdAt: -1 });
+AuditLogSchema.index({ organizationId: 1, resourceType: 1, resourceId: 1, createdAt: -1 });
+AuditLogSchema.index({ organizationId: 1, userId: 1, createdAt: -1 });
+
+// Scope every query and write to the current organization
+AuditLogSchema.plugin(tenantScopePlugin);
+
+export default mongoose.model<IAuditLog>('AuditLog', AuditLogSchema);
@@ -1,16 +1,27 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import { tenantScopePlugin } from './plugins/tenantScope';
 
 export interface IDailyStats extends Document {
     organizationId: mongoose.Types.ObjectId;
     date: Date;
+    // Organization timezone the day and hour buckets were computed in
+    timezone: string;
     totalSelections: number;
     uniqueParticipants: number;
     uniqueMeetings: number;
     averageResponseTime: number;
+    // Running totals behind the derived fields, kept so a spin can be added without a re-aggregation
+    participantIds: mongoose.Types.ObjectId[];
+    meetingIds: mongoose.Types.ObjectId[];
+    durationTotal: number;
+    durationCount: number;
     departmentBreakdown: Array<{
         department: string;
         selections: number;
         participants: number;
+        participantIds: mongoose.Types.ObjectId[];
+        durationTotal: number;
+        durationCount: number;
     }>;
     peakHours: Array<{
         hour: number;
@@ -32,6 +43,10 @@ const DailyStatsSchema: Schema = new Schema({
         required: true,
         index: true
     },
+    timezone: {
+        type: String,
+        default: 'UTC'
+    },
     totalSelections: {
         type: Number,
         default: 0,
@@ -52,6 +67,24 @@ const DailyStatsSchema: Schema = new Schema({
         default: 0,
         min: 0
     },
+    participantIds: {
+        type: [Schema.Types.ObjectId],
+        select: false
+    },
+    meetingIds: {
+        type: [Schema.Types.ObjectId],
+        select: false
+    },
+    durationTotal: {
+        type: Number,
+        default: 0,
+        min: 0
+    },
+    durationCount: {
+        type: Number,
+        default: 0,
+        min: 0
+    },
     departmentBreakdown: [{
         department: {
             type: String,
@@ -67,6 +100,19 @@ const DailyStatsSchema: Schema = new Schema({
             type: Number,
             default: 0,
             min: 0
+        },
+        participantIds: [{
+            type: Schema.Types.ObjectId
+        }],
+        durationTotal: {
+            type: Number,
+            default: 0,
+            min: 0
+        },
+        durationCount: {
+            type: Number,
+            default: 0,
+            min: 0
         }
     }],
     peakHours: [{
@@ -91,4 +137,7 @@ const DailyStatsSchema: Schema = new Schema({
 DailyStatsSchema.index({ organizationId: 1, date: 1 }, { unique: true }); // Unique date per organization
 DailyStatsSchema.index({ organizationId: 1, date: -1 });
 
+// Scope every query and write to the current organization
+DailyStatsSchema.plugin(tenantScopePlugin);
+
 export default mongoose.model<IDailyStats>('DailyStats', DailyStatsSchema);
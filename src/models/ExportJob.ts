@@ -1,10 +1,18 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import { tenantScopePlugin } from './plugins/tenantScope';
+
+// Writers for each format are registered in src/services/exportFormats.ts
+export const EXPORT_FORMATS = ['json', 'ndjson', 'csv', 'excel', 'pdf', 'ics'] as const;
+
+export type ExportFormat = typeof EXPORT_FORMATS[number];
 
 export interface IExportJob extends Document {
     organizationId: mongoose.Types.ObjectId;
     userId?: mongoose.Types.ObjectId;
     type: 'meeting' | 'analytics' | 'participants' | 'teams';
-    format: 'json' | 'csv' | 'excel';
+    format: ExportFormat;
+    // Who may see and download the export: anyone in the organization, or only its creator
+    visibility: 'organization' | 'owner';
     filters: {
         meetingId?: mongoose.Types.ObjectId;
         dateRange?: {
@@ -13,9 +21,29 @@ export interface IExportJob extends Document {
         };
         department?: string;
         teamId?: mongoose.Types.ObjectId;
+        includeHistory?: boolean;
     };
     status: 'pending' | 'processing' | 'completed' | 'failed';
-    downloadUrl?: string;
+    progress: number; // 0-100
+    attempts: number;
+    queueJobId?: string; // Queue job currently holding the export
+    startedAt?: Date;
+    completedAt?: Date;
+    fileName?: string;
+    storageKey?: string; // Location in export storage, only ever handed out through signed download tokens
+    scheduleId?: mongoose.Types.ObjectId; // Export schedule that created the job, delivered once completed
+    delivery?: {
+        status: 'pending' | 'delivered' | 'failed';
+        deliveredAt?: Date;
+        error?: string;
+        // Outcome per recipient, so retries only go to the ones not reached yet
+        recipients?: Array<{
+            recipient: string;
+            status: 'delivered' | 'failed';
+            deliveredAt?: Date;
+            error?: string;
+        }>;
+    };
     expiresAt?: Date;
     error?: string;
     createdAt: Date;
@@ -42,9 +70,14 @@ const ExportJobSchema: Schema = new Schema({
     },
     format: {
         type: String,
-        enum: ['json', 'csv', 'excel'],
+        enum: EXPORT_FORMATS,
         required: true
     },
+    visibility: {
+        type: String,
+        enum: ['organization', 'owner'],
+        default: 'organization'
+    },
     filters: {
         meetingId: {
             type: Schema.Types.ObjectId,
@@ -61,6 +94,9 @@ const ExportJobSchema: Schema = new Schema({
         teamId: {
             type: Schema.Types.ObjectId,
             ref: 'Team'
+        },
+        includeHistory: {
+            type: Boolean
         }
     },
     status: {
@@ -69,10 +105,62 @@ const ExportJobSchema: Schema = new Schema({
         default: 'pending',
         index: true
     },
-    downloadUrl: {
+    progress: {
+        type: Number,
+        min: 0,
+        max: 100,
+        default: 0
+    },
+    attempts: {
+        type: Number,
+        default: 0
+    },
+    queueJobId: {
+        type: String
+    },
+    startedAt: {
+        type: Date
+    },
+    completedAt: {
+        type: Date
+    },
+    fileName: {
         type: String,
         trim: true
     },
+    storageKey: {
+        type: String,
+        trim: true
+    },
+    scheduleId: {
+        type: Schema.Types.ObjectId,
+        ref: 'ExportSchedule'
+    },
+    delivery: {
+        status: {
+            type: String,
+            enum: ['pending', 'delivered', 'failed']
+        },
+        deliveredAt: { type: Date },
+        error: {
+            type: String,
+            trim: true
+        },
+        recipients: [{
+            _id: false,
+            recipient: {
+                type: String,
+                required: true
+            },
+            status: {
+                type: String,
+                enum: ['delivered', 'failed'],
+                required: true
+            },
+            deliveredAt: { type: Date },
+            error: { type: String }
+        }]
+    },
     expiresAt: {
         type: Date,
         index: { expireAfterSeconds: 0 } // TTL index for automatic cleanup
@@ -88,6 +176,11 @@ const ExportJobSchema: Schema = new Schema({
 
 // Compound indexes for multi-tenancy and performance
 ExportJobSchema.index({ organizationId: 1, userId: 1, createdAt: -1 });
-ExportJobSchema.index({ organizationId: 1, status: 1 });
+ExportJobSchema.index({ organizationId: 1, status: 1, startedAt: 1 });
+ExportJobSchema.index({ status: 1, updatedAt: 1 });
+ExportJobSchema.index({ 'delivery.status': 1, updatedAt: 1 });
+
+// Scope every query and write to the current organization
+ExportJobSchema.plugin(tenantScopePlugin);
 
 export default mongoose.model<IExportJob>('ExportJob', ExportJobSchema);
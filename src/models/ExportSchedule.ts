@@ -0,0 +1,156 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { tenantScopePlugin } from './plugins/tenantScope';
+import { EXPORT_FORMATS, ExportFormat } from './ExportJob';
+import { DEFAULT_TIMEZONE, TimezoneService } from '../services/timezoneService';
+
+// Transports are implemented in src/services/deliveryTransports.ts
+export const DELIVERY_TRANSPORTS = ['smtp', 'webhook', 'file'] as const;
+
+export type DeliveryTransportName = typeof DELIVERY_TRANSPORTS[number];
+
+export interface IExportSchedule extends Document {
+    organizationId: mongoose.Types.ObjectId;
+    createdBy?: mongoose.Types.ObjectId;
+    name: string;
+    cron: string;
+    timezone: string; // IANA timezone the cron expression is evaluated in
+    type: 'meeting' | 'analytics' | 'participants' | 'teams';
+    format: ExportFormat;
+    filters: {
+        meetingId?: mongoose.Types.ObjectId;
+        department?: string;
+        teamId?: mongoose.Types.ObjectId;
+        includeHistory?: boolean;
+        lastDays?: number; // Each run exports the days leading up to it
+    };
+    transport: DeliveryTransportName;
+    recipients: string[]; // Email addresses for smtp, URLs for webhook
+    // Also email the organization's users who turned on weekly reports
+    includeSubscribers: boolean;
+    isActive: boolean;
+    nextRunAt: Date;
+    lastRunAt?: Date;
+    lastExportJobId?: mongoose.Types.ObjectId;
+    lastDelivery?: {
+        status: 'delivered' | 'failed';
+        at: Date;
+        error?: string;
+    };
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const ExportScheduleSchema: Schema = new Schema({
+    organizationId: {
+        type: Schema.Types.ObjectId,
+        ref: 'Organization',
+        required: true,
+        index: true
+    },
+    createdBy: {
+        type: Schema.Types.ObjectId,
+        ref: 'User'
+    },
+    name: {
+        type: String,
+        required: true,
+        trim: true,
+        maxlength: 200
+    },
+    cron: {
+        type: String,
+        required: true,
+        trim: true
+    },
+    timezone: {
+        type: String,
+        default: DEFAULT_TIMEZONE,
+        validate: {
+            validator: (value: string) => TimezoneService.isValid(value),
+            message: 'Invalid timezone'
+        }
+    },
+    type: {
+        type: String,
+        enum: ['meeting', 'analytics', 'participants', 'teams'],
+        required: true
+    },
+    format: {
+        type: String,
+        enum: EXPORT_FORMATS,
+        required: true
+    },
+    filters: {
+        meetingId: {
+            type: Schema.Types.ObjectId,
+            ref: 'Meeting'
+        },
+        department: {
+            type: String,
+            trim: true
+        },
+        teamId: {
+            type: Schema.Types.ObjectId,
+            ref: 'Team'
+        },
+        includeHistory: {
+            type: Boolean
+        },
+        lastDays: {
+            type: Number,
+            min: 1,
+            max: 366
+        }
+    },
+    transport: {
+        type: String,
+        enum: DELIVERY_TRANSPORTS,
+        required: true
+    },
+    recipients: [{
+        type: String,
+        trim: true
+    }],
+    includeSubscribers: {
+        type: Boolean,
+        default: false
+    },
+    isActive: {
+        type: Boolean,
+        default: true
+    },
+    nextRunAt: {
+        type: Date,
+        required: true
+    },
+    lastRunAt: {
+        type: Date
+    },
+    lastExportJobId: {
+        type: Schema.Types.ObjectId,
+        ref: 'ExportJob'
+    },
+    lastDelivery: {
+        status: {
+            type: String,
+            enum: ['delivered', 'failed']
+        },
+        at: { type: Date },
+        error: {
+            type: String,
+            trim: true
+        }
+    }
+}, {
+    timestamps: true,
+    toJSON: { virtuals: true }
+});
+
+// Compound indexes for multi-tenancy and performance
+ExportScheduleSchema.index({ organizationId: 1, createdAt: -1 });
+ExportScheduleSchema.index({ isActive: 1, nextRunAt: 1 });
+
+// Scope every query and write to the current organization
+ExportScheduleSchema.plugin(tenantScopePlugin);
+
+export default mongoose.model<IExportSchedule>('ExportSchedule', ExportScheduleSchema);
@@ -0,0 +1,100 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { tenantScopePlugin } from './plugins/tenantScope';
+
+// Breakout groups of any size, or pairs that rotate away from past pairings
+export const GROUPING_MODES = ['groups', 'pairs'] as const;
+
+export type GroupingMode = typeof GROUPING_MODES[number];
+
+export const GROUP_BALANCE_FIELDS = ['department', 'team'] as const;
+
+export type GroupBalanceField = typeof GROUP_BALANCE_FIELDS[number];
+
+export interface IGroupRound extends Document {
+    organizationId: mongoose.Types.ObjectId;
+    meetingId: mongoose.Types.ObjectId;
+    mode: GroupingMode;
+    groups: Array<{
+        name: string;
+        participantIds: mongoose.Types.ObjectId[];
+    }>;
+    // The request the groups were generated from
+    settings: {
+        groupCount?: number;
+        groupSize?: number;
+        balanceBy?: GroupBalanceField;
+        avoidRepeatRounds: number;
+        together: mongoose.Types.ObjectId[][];
+        apart: mongoose.Types.ObjectId[][];
+    };
+    repeatedPairs: number; // Pairs that already shared a group in the rounds considered
+    createdBy?: mongoose.Types.ObjectId;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const GroupRoundSchema: Schema = new Schema({
+    organizationId: {
+        type: Schema.Types.ObjectId,
+        ref: 'Organization',
+        required: true,
+        index: true
+    },
+    meetingId: {
+        type: Schema.Types.ObjectId,
+        ref: 'Meeting',
+        required: true
+    },
+    mode: {
+        type: String,
+        enum: GROUPING_MODES,
+        default: 'groups'
+    },
+    groups: [{
+        _id: false,
+        name: {
+            type: String,
+            required: true,
+            trim: true
+        },
+        participantIds: [{
+            type: Schema.Types.ObjectId,
+            ref: 'Participant'
+        }]
+    }],
+    settings: {
+        groupCount: { type: Number, min: 1 },
+        groupSize: { type: Number, min: 2 },
+        balanceBy: {
+            type: String,
+            enum: GROUP_BALANCE_FIELDS
+        },
+        avoidRepeatRounds: {
+            type: Number,
+            default: 0,
+            min: 0
+        },
+        together: [[{ type: Schema.Types.ObjectId, ref: 'Participant' }]],
+        apart: [[{ type: Schema.Types.ObjectId, ref: 'Participant' }]]
+    },
+    repeatedPairs: {
+        type: Number,
+        default: 0,
+        min: 0
+    },
+    createdBy: {
+        type: Schema.Types.ObjectId,
+        ref: 'User'
+    }
+}, {
+    timestamps: true,
+    toJSON: { virtuals: true }
+});
+
+// Compound indexes for multi-tenancy and performance
+GroupRoundSchema.index({ organizationId: 1, meetingId: 1, mode: 1, createdAt: -1 });
+
+// Scope every query and write to the current organization
+GroupRoundSchema.plugin(tenantScopePlugin);
+
+export default mongoose.model<IGroupRound>('GroupRound', GroupRoundSchema);
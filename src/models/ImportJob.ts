@@ -0,0 +1,137 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { tenantScopePlugin } from './plugins/tenantScope';
+
+export interface IImportJob extends Document {
+    organizationId: mongoose.Types.ObjectId;
+    userId?: mongoose.Types.ObjectId;
+    fileName: string;
+    storageKey: string; // Uploaded file in storage, read by the import worker
+    options: {
+        mapping?: Record<string, any>;
+        department?: string;
+        dryRun: boolean;
+    };
+    status: 'pending' | 'processing' | 'completed' | 'failed';
+    progress: number; // 0-100
+    attempts: number;
+    queueJobId?: string; // Queue job currently holding the import
+    startedAt?: Date;
+    completedAt?: Date;
+    counts: {
+        total: number;
+        creates: number;
+        updates: number;
+        skips: number;
+        errors: number;
+    };
+    // First IMPORT_MAX_STORED_ERRORS row errors, the error report has them all
+    rowErrors: Array<{
+        row: number;
+        field?: string;
+        message: string;
+    }>;
+    errorReportKey?: string; // CSV of the rejected rows in storage
+    expiresAt?: Date;
+    error?: string;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const ImportJobSchema: Schema = new Schema({
+    organizationId: {
+        type: Schema.Types.ObjectId,
+        ref: 'Organization',
+        required: true,
+        index: true
+    },
+    userId: {
+        type: Schema.Types.ObjectId,
+        ref: 'User',
+        index: true
+    },
+    fileName: {
+        type: String,
+        required: true,
+        trim: true
+    },
+    storageKey: {
+        type: String,
+        required: true,
+        trim: true
+    },
+    options: {
+        mapping: {
+            type: Schema.Types.Mixed
+        },
+        department: {
+            type: String,
+            trim: true
+        },
+        dryRun: {
+            type: Boolean,
+            default: false
+        }
+    },
+    status: {
+        type: String,
+        enum: ['pending', 'processing', 'completed', 'failed'],
+        default: 'pending',
+        index: true
+    },
+    progress: {
+        type: Number,
+        min: 0,
+        max: 100,
+        default: 0
+    },
+    attempts: {
+        type: Number,
+        default: 0
+    },
+    queueJobId: {
+        type: String
+    },
+    startedAt: {
+        type: Date
+    },
+    completedAt: {
+        type: Date
+    },
+    counts: {
+        total: { type: Number, default: 0 },
+        creates: { type: Number, default: 0 },
+        updates: { type: Number, default: 0 },
+        skips: { type: Number, default: 0 },
+        errors: { type: Number, default: 0 }
+    },
+    rowErrors: [{
+        _id: false,
+        row: { type: Number, required: true },
+        field: { type: String },
+        message: { type: String, required: true }
+    }],
+    errorReportKey: {
+        type: String,
+        trim: true
+    },
+    expiresAt: {
+        type: Date,
+        index: { expireAfterSeconds: 0 } // TTL index for automatic cleanup
+    },
+    error: {
+        type: String,
+        trim: true
+    }
+}, {
+    timestamps: true,
+    toJSON: { virtuals: true }
+});
+
+// Compound indexes for multi-tenancy and performance
+ImportJobSchema.index({ organizationId: 1, createdAt: -1 });
+ImportJobSchema.index({ status: 1, updatedAt: 1 });
+
+// Scope every query and write to the current organization
+ImportJobSchema.plugin(tenantScopePlugin);
+
+export default mongoose.model<IImportJob>('ImportJob', ImportJobSchema);
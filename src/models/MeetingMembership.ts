@@ -0,0 +1,65 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { tenantScopePlugin } from './plugins/tenantScope';
+
+export interface IMeetingMembership extends Document {
+    organizationId: mongoose.Types.ObjectId;
+    meetingId: mongoose.Types.ObjectId;
+    participantId: mongoose.Types.ObjectId;
+    // Selection statistics within this meeting, the participant keeps the organization-wide totals
+    selectionCount: number;
+    lastSelected?: Date;
+    addedAt: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const MeetingMembershipSchema: Schema = new Schema({
+    organizationId: {
+        type: Schema.Types.ObjectId,
+        ref: 'Organization',
+        required: true,
+        index: true
+    },
+    meetingId: {
+        type: Schema.Types.ObjectId,
+        ref: 'Meeting',
+        required: true
+    },
+    participantId: {
+        type: Schema.Types.ObjectId,
+        ref: 'Participant',
+        required: true
+    },
+    selectionCount: {
+        type: Number,
+        default: 0,
+        min: 0
+    },
+    lastSelected: {
+        type: Date
+    },
+    addedAt: {
+        type: Date,
+        default: Date.now
+    }
+}, {
+    timestamps: true,
+    toJSON: { virtuals: true }
+});
+
+// Compound indexes for multi-tenancy and performance
+MeetingMembershipSchema.index({ organizationId: 1, meetingId: 1, participantId: 1 }, { unique: true }); // One membership per participant and meeting
+MeetingMembershipSchema.index({ organizationId: 1, participantId: 1 });
+
+// Virtual for participant reference
+MeetingMembershipSchema.virtual('participant', {
+    ref: 'Participant',
+    localField: 'participantId',
+    foreignField: '_id',
+    justOne: true
+});
+
+// Scope every query and write to the current organization
+MeetingMembershipSchema.plugin(tenantScopePlugin);
+
+export default mongoose.model<IMeetingMembership>('MeetingMembership', MeetingMembershipSchema);
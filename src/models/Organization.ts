@@ -1,4 +1,5 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import { DEFAULT_TIMEZONE, TimezoneService } from '../services/timezoneService';
 
 export interface IOrganization extends Document {
     name: string;
@@ -18,6 +19,7 @@ export interface IOrganization extends Document {
         customBranding: boolean;
         apiAccess: boolean;
         retentionDays: number; // Data retention period
+        timezone: string; // IANA timezone used to bucket analytics by day and hour
     };
     subscription: {
         plan: 'free' | 'basic' | 'pro' | 'enterprise';
@@ -110,7 +112,15 @@ const OrganizationSchema: Schema = new Schema({
         enableExport: { type: Boolean, default: true },
         customBranding: { type: Boolean, default: false },
         apiAccess: { type: Boolean, default: false },
-        retentionDays: { type: Number, default: 365, min: 30, max: 2555 } // Max ~7 years
+        retentionDays: { type: Number, default: 365, min: 30, max: 2555 }, // Max ~7 years
+        timezone: {
+            type: String,
+            default: DEFAULT_TIMEZONE,
+            validate: {
+                validator: (value: string) => TimezoneService.isValid(value),
+                message: 'Invalid timezone'
+            }
+        }
     },
     subscription: {
         plan: {
@@ -0,0 +1,66 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { tenantScopePlugin } from './plugins/tenantScope';
+
+export interface ISeedCommitment extends Document {
+    organizationId: mongoose.Types.ObjectId;
+    meetingId?: mongoose.Types.ObjectId;
+    createdBy?: mongoose.Types.ObjectId;
+    seedHash: string;
+    seed: string;
+    status: 'pending' | 'used';
+    selectionRecordId?: mongoose.Types.ObjectId;
+    expiresAt: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const SeedCommitmentSchema: Schema = new Schema({
+    organizationId: {
+        type: Schema.Types.ObjectId,
+        ref: 'Organization',
+        required: true,
+        index: true
+    },
+    meetingId: {
+        type: Schema.Types.ObjectId,
+        ref: 'Meeting'
+    },
+    createdBy: {
+        type: Schema.Types.ObjectId,
+        ref: 'User'
+    },
+    seedHash: {
+        type: String,
+        required: true
+    },
+    // Only revealed after the spin, through the selection record
+    seed: {
+        type: String,
+        required: true,
+        select: false
+    },
+    status: {
+        type: String,
+        enum: ['pending', 'used'],
+        default: 'pending'
+    },
+    selectionRecordId: {
+        type: Schema.Types.ObjectId,
+        ref: 'SelectionRecord'
+    },
+    expiresAt: {
+        type: Date,
+        required: true,
+        index: { expireAfterSeconds: 0 } // TTL index for automatic cleanup
+    }
+}, {
+    timestamps: true,
+    toJSON: { virtuals: true }
+});
+
+SeedCommitmentSchema.index({ organizationId: 1, status: 1 });
+
+// Scope every query and write to the current organization
+SeedCommitmentSchema.plugin(tenantScopePlugin);
+
+export default mongoose.model<ISeedCommitment>('SeedCommitment', SeedCommitmentSchema);
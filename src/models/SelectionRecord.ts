@@ -1,4 +1,58 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import { tenantScopePlugin } from './plugins/tenantScope';
+
+export const SELECTION_METHODS = [
+    'random',
+    'weighted',
+    'manual',
+    'round-robin',
+    'least-recently-selected',
+    'inverse-frequency',
+    'fair-shuffle'
+] as const;
+
+export type SelectionMethod = typeof SELECTION_METHODS[number];
+
+// Which selections fairness counts: every meeting, this meeting only, or every meeting of its team
+export const FAIRNESS_SCOPES = ['global', 'meeting', 'team'] as const;
+
+export type FairnessScope = typeof FAIRNESS_SCOPES[number];
+
+export const EXCLUSION_RULES = ['inactive', 'outOfDepartment', 'unavailable', 'notPresent', 'recentlySelected', 'alreadySelectedThisRound'] as const;
+
+export type ExclusionRule = typeof EXCLUSION_RULES[number];
+
+// Most roles one multi-pick spin can assign
+export const MAX_ROLES_PER_SPIN = 20;
+
+export interface ISelectionEligibility {
+    // Everyone in the meeting roster (or department) considered for this spin
+    candidateCount: number;
+    eligibleParticipantIds: mongoose.Types.ObjectId[];
+    exclusions: Record<ExclusionRule, mongoose.Types.ObjectId[]>;
+}
+
+export interface ISelectionAudit {
+    rng: 'crypto' | 'seeded';
+    seedHash?: string;
+    seed?: string;
+    clientSeed?: string;
+    commitmentId?: mongoose.Types.ObjectId;
+    // Everything needed to replay a seeded pick
+    candidates?: Array<{
+        participantId: mongoose.Types.ObjectId;
+        name: string;
+        selectionCount: number;
+        lastSelected?: Date;
+    }>;
+    strategyState?: {
+        lastSelectedParticipantId?: mongoose.Types.ObjectId;
+        rotationKey?: string;
+        drawnThisCycle: mongoose.Types.ObjectId[];
+        cycle: number;
+    };
+    inverseFrequencyExponent?: number;
+}
 
 export interface ISelectionRecord extends Document {
     organizationId: mongoose.Types.ObjectId;
@@ -9,13 +63,17 @@ export interface ISelectionRecord extends Document {
     teamId?: mongoose.Types.ObjectId;
     selectionDuration?: number; // milliseconds
     sessionId?: string; // Group related selections
-    selectionMethod: 'random' | 'weighted' | 'manual';
+    selectionMethod: SelectionMethod;
+    assignedRole?: string; // Role picked for in a multi-pick spin, e.g. facilitator
     metadata?: {
         excludedRecentlySelected?: boolean;
         totalEligible?: number;
         spinDuration?: number;
         selectionRound?: number;
+        fairnessScope?: FairnessScope;
         migrated?: boolean;
+        eligibility?: ISelectionEligibility;
+        audit?: ISelectionAudit;
     };
     selectedAt: Date;
     createdAt: Date;
@@ -70,15 +128,57 @@ const SelectionRecordSchema: Schema = new Schema({
     },
     selectionMethod: {
         type: String,
-        enum: ['random', 'weighted', 'manual'],
+        enum: SELECTION_METHODS,
         default: 'random'
     },
+    assignedRole: {
+        type: String,
+        trim: true,
+        maxlength: 50
+    },
     metadata: {
         excludedRecentlySelected: { type: Boolean, default: false },
         totalEligible: { type: Number, min: 0 },
         spinDuration: { type: Number, min: 0 },
         selectionRound: { type: Number, min: 1 },
-        migrated: { type: Boolean, default: false }
+        fairnessScope: { type: String, enum: FAIRNESS_SCOPES },
+        migrated: { type: Boolean, default: false },
+        eligibility: {
+            candidateCount: { type: Number, min: 0 },
+            eligibleParticipantIds: { type: [Schema.Types.ObjectId], default: undefined },
+            exclusions: {
+                inactive: { type: [Schema.Types.ObjectId], default: undefined },
+                outOfDepartment: { type: [Schema.Types.ObjectId], default: undefined },
+                unavailable: { type: [Schema.Types.ObjectId], default: undefined },
+                notPresent: { type: [Schema.Types.ObjectId], default: undefined },
+                recentlySelected: { type: [Schema.Types.ObjectId], default: undefined },
+                alreadySelectedThisRound: { type: [Schema.Types.ObjectId], default: undefined }
+            }
+        },
+        audit: {
+            rng: { type: String, enum: ['crypto', 'seeded'] },
+            seedHash: { type: String },
+            seed: { type: String },
+            clientSeed: { type: String },
+            commitmentId: { type: Schema.Types.ObjectId, ref: 'SeedCommitment' },
+            candidates: {
+                type: [{
+                    _id: false,
+                    participantId: { type: Schema.Types.ObjectId, ref: 'Participant' },
+                    name: { type: String },
+                    selectionCount: { type: Number },
+                    lastSelected: { type: Date }
+                }],
+                default: undefined
+            },
+            strategyState: {
+                lastSelectedParticipantId: { type: Schema.Types.ObjectId },
+                rotationKey: { type: String },
+                drawnThisCycle: { type: [Schema.Types.ObjectId], default: undefined },
+                cycle: { type: Number }
+            },
+            inverseFrequencyExponent: { type: Number }
+        }
     },
     selectedAt: {
         type: Date,
@@ -98,6 +198,7 @@ SelectionRecordSchema.index({ organizationId: 1, department: 1, selectedAt: -1 }
 SelectionRecordSchema.index({ organizationId: 1, teamId: 1, selectedAt: -1 });
 SelectionRecordSchema.index({ organizationId: 1, selectedAt: -1 });
 SelectionRecordSchema.index({ organizationId: 1, sessionId: 1 });
+SelectionRecordSchema.index({ organizationId: 1, 'metadata.eligibility.eligibleParticipantIds': 1 });
 
 // Virtual for meeting reference
 SelectionRecordSchema.virtual('meeting', {
@@ -115,4 +216,7 @@ SelectionRecordSchema.virtual('participant', {
     justOne: true
 });
 
+// Scope every query and write to the current organization
+SelectionRecordSchema.plugin(tenantScopePlugin);
+
 export default mongoose.model<ISelectionRecord>('SelectionRecord', SelectionRecordSchema);
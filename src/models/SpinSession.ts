@@ -0,0 +1,219 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { tenantScopePlugin } from './plugins/tenantScope';
+import { SELECTION_METHODS, SelectionMethod } from './SelectionRecord';
+
+// A spin session picks one participant per spin, a speaking order session lists everyone up front
+export const SESSION_MODES = ['spin', 'order'] as const;
+
+export type SessionMode = typeof SESSION_MODES[number];
+
+export const SPEAKING_ORDER_ACTIONS = ['next', 'skip', 'move-to-end'] as const;
+
+export type SpeakingOrderAction = typeof SPEAKING_ORDER_ACTIONS[number];
+
+export type SpeakerStatus = 'waiting' | 'spoken' | 'skipped';
+
+export interface ISpinSession extends Document {
+    organizationId: mongoose.Types.ObjectId;
+    meetingId: mongoose.Types.ObjectId;
+    startedBy?: mongoose.Types.ObjectId;
+    department: string;
+    mode: SessionMode;
+    selectionMethod: Exclude<SelectionMethod, 'manual'>;
+    status: 'active' | 'ended';
+    maxSelections?: number;
+    currentRound: number;
+    selectedThisRound: mongoose.Types.ObjectId[];
+    selections: Array<{
+        participantId: mongoose.Types.ObjectId;
+        participantName: string;
+        selectionRecordId: mongoose.Types.ObjectId;
+        round: number;
+        selectedAt: Date;
+    }>;
+    totalSelections: number;
+    // Speaking order sessions only: the order, whose current speaker is the first one waiting
+    speakingOrder: Array<{
+        participantId: mongoose.Types.ObjectId;
+        participantName: string;
+        status: SpeakerStatus;
+        selectionRecordId?: mongoose.Types.ObjectId;
+    }>;
+    events: Array<{
+        action: SpeakingOrderAction;
+        participantId: mongoose.Types.ObjectId;
+        participantName: string;
+        selectionRecordId?: mongoose.Types.ObjectId;
+        performedBy?: mongoose.Types.ObjectId;
+        at: Date;
+    }>;
+    startedAt: Date;
+    endedAt?: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const SpinSessionSchema: Schema = new Schema({
+    organizationId: {
+        type: Schema.Types.ObjectId,
+        ref: 'Organization',
+        required: true,
+        index: true
+    },
+    meetingId: {
+        type: Schema.Types.ObjectId,
+        ref: 'Meeting',
+        required: true,
+        index: true
+    },
+    startedBy: {
+        type: Schema.Types.ObjectId,
+        ref: 'User'
+    },
+    department: {
+        type: String,
+        required: true,
+        trim: true
+    },
+    mode: {
+        type: String,
+        enum: SESSION_MODES,
+        default: 'spin'
+    },
+    selectionMethod: {
+        type: String,
+        enum: SELECTION_METHODS.filter(method => method !== 'manual'),
+        default: 'random'
+    },
+    status: {
+        type: String,
+        enum: ['active', 'ended'],
+        default: 'active',
+        index: true
+    },
+    maxSelections: {
+        type: Number,
+        min: 1,
+        max: 100
+    },
+    currentRound: {
+        type: Number,
+        default: 1,
+        min: 1
+    },
+    // Participants already picked in the current round; cleared when everyone has gone
+    selectedThisRound: [{
+        type: Schema.Types.ObjectId,
+        ref: 'Participant'
+    }],
+    selections: [{
+        participantId: {
+            type: Schema.Types.ObjectId,
+            ref: 'Participant',
+            required: true
+        },
+        participantName: {
+            type: String,
+            required: true,
+            trim: true
+        },
+        selectionRecordId: {
+            type: Schema.Types.ObjectId,
+            ref: 'SelectionRecord',
+            required: true
+        },
+        round: {
+            type: Number,
+            required: true,
+            min: 1
+        },
+        selectedAt: {
+            type: Date,
+            default: Date.now
+        }
+    }],
+    totalSelections: {
+        type: Number,
+        default: 0,
+        min: 0
+    },
+    speakingOrder: [{
+        _id: false,
+        participantId: {
+            type: Schema.Types.ObjectId,
+            ref: 'Participant',
+            required: true
+        },
+        participantName: {
+            type: String,
+            required: true,
+            trim: true
+        },
+        status: {
+            type: String,
+            enum: ['waiting', 'spoken', 'skipped'],
+            default: 'waiting'
+        },
+        selectionRecordId: {
+            type: Schema.Types.ObjectId,
+            ref: 'SelectionRecord'
+        }
+    }],
+    // Every next / skip / move-to-end of a speaking order, in order
+    events: [{
+        _id: false,
+        action: {
+            type: String,
+            enum: SPEAKING_ORDER_ACTIONS,
+            required: true
+        },
+        participantId: {
+            type: Schema.Types.ObjectId,
+            ref: 'Participant',
+            required: true
+        },
+        participantName: {
+            type: String,
+            required: true,
+            trim: true
+        },
+        selectionRecordId: {
+            type: Schema.Types.ObjectId,
+            ref: 'SelectionRecord'
+        },
+        performedBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User'
+        },
+        at: {
+            type: Date,
+            default: Date.now
+        }
+    }],
+    startedAt: {
+        type: Date,
+        default: Date.now
+    },
+    endedAt: {
+        type: Date
+    }
+}, {
+    timestamps: true,
+    toJSON: { virtuals: true },
+    toObject: { virtuals: true }
+});
+
+// Compound indexes for multi-tenancy and performance
+SpinSessionSchema.index({ organizationId: 1, meetingId: 1, status: 1 });
+// At most one active session per meeting, even when two are started at once
+SpinSessionSchema.index(
+    { organizationId: 1, meetingId: 1 },
+    { unique: true, partialFilterExpression: { status: 'active' } }
+);
+SpinSessionSchema.index({ organizationId: 1, meetingId: 1, mode: 1, startedAt: -1 });
+SpinSessionSchema.index({ organizationId: 1, createdAt: -1 });
+
+// Scope every query and write to the current organization
+SpinSessionSchema.plugin(tenantScopePlugin);
+
+export default mongoose.model<ISpinSession>('SpinSession', SpinSessionSchema);
@@ -1,4 +1,5 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import { tenantScopePlugin } from './plugins/tenantScope';
 
 export interface ITeam extends Document {
     organizationId: mongoose.Types.ObjectId;
@@ -81,4 +82,7 @@ TeamSchema.index({ organizationId: 1, name: 1 }, { unique: true }); // Unique te
 TeamSchema.index({ organizationId: 1, leadId: 1 });
 TeamSchema.index({ organizationId: 1, 'members.participantId': 1 });
 
+// Scope every query and write to the current organization
+TeamSchema.plugin(tenantScopePlugin);
+
 export default mongoose.model<ITeam>('Team', TeamSchema);
@@ -0,0 +1,97 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { tenantScopePlugin } from './plugins/tenantScope';
+
+export const UNAVAILABILITY_REASONS = ['vacation', 'sick', 'parental-leave', 'other'] as const;
+
+export type UnavailabilityReason = typeof UNAVAILABILITY_REASONS[number];
+
+export const RECURRENCE_FREQUENCIES = ['daily', 'weekly', 'monthly'] as const;
+
+export type RecurrenceFrequency = typeof RECURRENCE_FREQUENCIES[number];
+
+export interface IRecurrence {
+    frequency: RecurrenceFrequency;
+    interval?: number; // Repeat every `interval` days, weeks or months, 1 when missing
+    until?: Date; // Last day an occurrence may start on, forever when missing
+}
+
+export interface IUnavailability extends Document {
+    organizationId: mongoose.Types.ObjectId;
+    participantId: mongoose.Types.ObjectId;
+    reason: UnavailabilityReason;
+    // Whole days in the organization timezone, both stored as the start of the day and inclusive
+    startDate: Date;
+    endDate: Date;
+    recurrence?: IRecurrence;
+    note?: string;
+    createdBy?: mongoose.Types.ObjectId;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const UnavailabilitySchema: Schema = new Schema({
+    organizationId: {
+        type: Schema.Types.ObjectId,
+        ref: 'Organization',
+        required: true,
+        index: true
+    },
+    participantId: {
+        type: Schema.Types.ObjectId,
+        ref: 'Participant',
+        required: true
+    },
+    reason: {
+        type: String,
+        enum: UNAVAILABILITY_REASONS,
+        default: 'other'
+    },
+    startDate: {
+        type: Date,
+        required: true
+    },
+    endDate: {
+        type: Date,
+        required: true
+    },
+    recurrence: {
+        frequency: {
+            type: String,
+            enum: RECURRENCE_FREQUENCIES
+        },
+        interval: {
+            type: Number,
+            min: 1
+        },
+        until: Date
+    },
+    note: {
+        type: String,
+        trim: true,
+        maxlength: 500
+    },
+    createdBy: {
+        type: Schema.Types.ObjectId,
+        ref: 'User'
+    }
+}, {
+    timestamps: true,
+    toJSON: { virtuals: true }
+});
+
+// Compound indexes for multi-tenancy and performance
+UnavailabilitySchema.index({ organizationId: 1, participantId: 1, startDate: -1 });
+UnavailabilitySchema.index({ organizationId: 1, endDate: 1 });
+
+// Virtual for participant reference
+UnavailabilitySchema.virtual('participant', {
+    ref: 'Participant',
+    localField: 'participantId',
+    foreignField: '_id',
+    justOne: true
+});
+
+// Scope every query and write to the current organization
+UnavailabilitySchema.plugin(tenantScopePlugin);
+
+export default mongoose.model<IUnavailability>('Unavailability', UnavailabilitySchema);
@@ -1,4 +1,5 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import { TimezoneService } from '../services/timezoneService';
 
 export interface IUser extends Document {
     organizationId: mongoose.Types.ObjectId;
@@ -32,6 +33,7 @@ export interface IUser extends Document {
             compactView: boolean;
             defaultSpinDuration: number;
             defaultExcludeRecent: boolean;
+            timezone?: string; // Overrides the organization timezone for analytics
         };
     };
     auth: {
@@ -116,7 +118,14 @@ const UserSchema: Schema = new Schema({
             showAnimations: { type: Boolean, default: true },
             compactView: { type: Boolean, default: false },
             defaultSpinDuration: { type: Number, default: 3000, min: 1000, max: 10000 },
-            defaultExcludeRecent: { type: Boolean, default: true }
+            defaultExcludeRecent: { type: Boolean, default: true },
+            timezone: {
+                type: String,
+                validate: {
+                    validator: (value: string) => TimezoneService.isValid(value),
+                    message: 'Invalid timezone'
+                }
+            }
         }
     },
     auth: {
@@ -1,5 +1,6 @@
-import mongoose, { Schema, Document, Types } from 'mongoose';
-import { IParticipant } from './participant';
+import mongoose, { Schema, Document } from 'mongoose';
+import { tenantScopePlugin } from './plugins/tenantScope';
+import { FAIRNESS_SCOPES, FairnessScope, MAX_ROLES_PER_SPIN, SELECTION_METHODS, SelectionMethod } from './SelectionRecord';
 
 export interface IMeeting extends Document {
     organizationId: mongoose.Types.ObjectId;
@@ -7,16 +8,36 @@ export interface IMeeting extends Document {
     department: string;
     description?: string;
     isActive: boolean;
-    participants: IParticipant[];
+    // The roster lives in MeetingMembership, see src/models/MeetingMembership.ts
     // Enhanced enterprise fields
     teamId?: mongoose.Types.ObjectId;
     status: 'active' | 'scheduled' | 'completed' | 'archived';
+    // When the meeting takes place, used for calendar exports
+    schedule?: {
+        startsAt?: Date;
+        durationMinutes?: number;
+        recurrence?: string; // iCalendar RRULE value, e.g. FREQ=WEEKLY;BYDAY=MO
+    };
     settings: {
         spinDuration: number;
         excludeRecentlySelected: boolean;
         allowManualSelection: boolean;
         maxSelectionsPerSession?: number;
-        selectionMethod: 'random' | 'weighted' | 'manual';
+        selectionMethod: SelectionMethod;
+        inverseFrequencyExponent: number;
+        fairnessScope: FairnessScope;
+        // Named role lists a spin can assign at once, e.g. retro: facilitator, note-taker, timekeeper
+        roleTemplates: Array<{
+            name: string;
+            roles: string[];
+        }>;
+    };
+    // Persistent state for stateful selection strategies
+    selectionState: {
+        lastSelectedParticipantId?: mongoose.Types.ObjectId;
+        rotationKey?: string;
+        drawnThisCycle: mongoose.Types.ObjectId[];
+        cycle: number;
     };
     statistics: {
         totalSpins: number;
@@ -57,14 +78,6 @@ const MeetingSchema: Schema = new Schema({
         default: true,
         index: true
     },
-    participants: [{
-        name: { type: String, required: true },
-        role: { type: String },
-        email: { type: String },
-        department: { type: String, required: false },
-        lastSelected: { type: Date },
-        selectionCount: { type: Number, default: 0 }
-    }],
     // Enhanced enterprise fields
     teamId: {
         type: Schema.Types.ObjectId,
@@ -77,6 +90,19 @@ const MeetingSchema: Schema = new Schema({
         default: 'active',
         index: true
     },
+    schedule: {
+        startsAt: { type: Date },
+        durationMinutes: {
+            type: Number,
+            min: 1,
+            max: 1440
+        },
+        recurrence: {
+            type: String,
+            trim: true,
+            match: [/^FREQ=(SECONDLY|MINUTELY|HOURLY|DAILY|WEEKLY|MONTHLY|YEARLY)(;[A-Z]+=[^;\s]+)*$/, 'Recurrence must be an iCalendar RRULE value']
+        }
+    },
     settings: {
         spinDuration: {
             type: Number,
@@ -99,8 +125,55 @@ const MeetingSchema: Schema = new Schema({
         },
         selectionMethod: {
             type: String,
-            enum: ['random', 'weighted', 'manual'],
+            enum: SELECTION_METHODS,
             default: 'random'
+        },
+        inverseFrequencyExponent: {
+            type: Number,
+            default: 1,
+            min: 0,
+            max: 10
+        },
+        // Selections counted by fairness: recency exclusion and count-based strategies
+        fairnessScope: {
+            type: String,
+            enum: FAIRNESS_SCOPES,
+            default: 'meeting'
+        },
+        roleTemplates: [{
+            _id: false,
+            name: {
+                type: String,
+                required: true,
+                trim: true,
+                maxlength: 50
+            },
+            roles: {
+                type: [{ type: String, trim: true, maxlength: 50 }],
+                validate: {
+                    validator: (roles: string[]) => roles.length > 0 && roles.length <= MAX_ROLES_PER_SPIN &&
+                        new Set(roles).size === roles.length,
+                    message: `A role template needs 1 to ${MAX_ROLES_PER_SPIN} distinct roles`
+                }
+            }
+        }]
+    },
+    selectionState: {
+        lastSelectedParticipantId: {
+            type: Schema.Types.ObjectId,
+            ref: 'Participant'
+        },
+        // Sort key of the last round-robin pick, so rotation survives roster changes
+        rotationKey: { type: String },
+        // Participants already drawn from the fair-shuffle bag in the current cycle
+        drawnThisCycle: [{
+            type: Schema.Types.ObjectId,
+            ref: 'Participant'
+        }],
+        cycle: {
+            type: Number,
+            default: 1,
+            min: 1
         }
     },
     statistics: {
@@ -132,9 +205,12 @@ MeetingSchema.index({ organizationId: 1, status: 1 });
 MeetingSchema.index({ organizationId: 1, department: 1 });
 MeetingSchema.index({ organizationId: 1, createdAt: -1 });
 
-// Virtual for participant count
-MeetingSchema.virtual('participantCount').get(function (this: IMeeting) {
-    return this.participants.length;
+// Virtual for participant count, when populated
+MeetingSchema.virtual('participantCount', {
+    ref: 'MeetingMembership',
+    localField: '_id',
+    foreignField: 'meetingId',
+    count: true
 });
 
 // Virtual for team reference
@@ -145,4 +221,7 @@ MeetingSchema.virtual('team', {
     justOne: true
 });
 
+// Scope every query and write to the current organization
+MeetingSchema.plugin(tenantScopePlugin);
+
 export default mongoose.model<IMeeting>('Meeting', MeetingSchema);
\ No newline at end of file
@@ -1,6 +1,6 @@
 // models/Participant.ts
-import { strict } from 'assert';
 import mongoose, { Schema, Document } from 'mongoose';
+import { tenantScopePlugin } from './plugins/tenantScope';
 
 export interface IParticipant extends Document {
     organizationId: mongoose.Types.ObjectId;
@@ -11,7 +11,6 @@ export interface IParticipant extends Document {
     lastSelected?: Date;
     selectionCount: number;
     // Enhanced enterprise fields
-    meetingId?: mongoose.Types.ObjectId;
     teamId?: mongoose.Types.ObjectId;
     isActive: boolean;
     avatar?: string;
@@ -61,11 +60,6 @@ const ParticipantSchema: Schema = new Schema({
         index: true
     },
     // Enhanced enterprise fields
-    meetingId: {
-        type: Schema.Types.ObjectId,
-        ref: 'Meeting',
-        index: true
-    },
     teamId: {
         type: Schema.Types.ObjectId,
         ref: 'Team',
@@ -100,18 +94,17 @@ const ParticipantSchema: Schema = new Schema({
 );
 
 // Compound indexes for multi-tenancy and performance
-ParticipantSchema.index({ organizationId: 1, meetingId: 1, department: 1 });
+ParticipantSchema.index({ organizationId: 1, department: 1 });
 ParticipantSchema.index({ organizationId: 1, teamId: 1 });
 ParticipantSchema.index({ organizationId: 1, email: 1 });
 ParticipantSchema.index({ organizationId: 1, isActive: 1 });
 ParticipantSchema.index({ organizationId: 1, selectionCount: -1 });
 
-// Virtual for meeting reference
-ParticipantSchema.virtual('meeting', {
-    ref: 'Meeting',
-    localField: 'meetingId',
-    foreignField: '_id',
-    justOne: true
+// Virtual for meeting memberships
+ParticipantSchema.virtual('memberships', {
+    ref: 'MeetingMembership',
+    localField: '_id',
+    foreignField: 'participantId'
 });
 
 // Virtual for team reference
@@ -122,4 +115,7 @@ ParticipantSchema.virtual('team', {
     justOne: true
 });
 
+// Scope every query and write to the current organization
+ParticipantSchema.plugin(tenantScopePlugin);
+
 export default mongoose.model<IParticipant>('Participant', ParticipantSchema);
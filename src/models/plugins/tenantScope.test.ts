@@ -0,0 +1,239 @@
+import mongoose from 'mongoose';
+import { runUnscoped, runWithTenant, TenantScopeError } from './tenantScope';
+import AttendanceRecord from '../AttendanceRecord';
+import AuditLog from '../AuditLog';
+import DailyStats from '../DailyStats';
+import ExportJob from '../ExportJob';
+import ExportSchedule from '../ExportSchedule';
+import GroupRound from '../GroupRound';
+import ImportJob from '../ImportJob';
+import MeetingMembership from '../MeetingMembership';
+import Meeting from '../meeting';
+import Participant from '../participant';
+import SeedCommitment from '../SeedCommitment';
+import SelectionRecord from '../SelectionRecord';
+import SpinSession from '../SpinSession';
+import Team from '../Team';
+import Unavailability from '../Unavailability';
+
+const SCOPED_MODELS: mongoose.Model<any>[] = [
+    AttendanceRecord,
+    AuditLog,
+    DailyStats,
+    ExportJob,
+    ExportSchedule,
+    GroupRound,
+    ImportJob,
+    MeetingMembership,
+    Meeting,
+    Participant,
+    SeedCommitment,
+    SelectionRecord,
+    SpinSession,
+    Team,
+    Unavailability
+];
+
+const ORG_A = new mongoose.Types.ObjectId().toString();
+const ORG_B = new mongoose.Types.ObjectId().toString();
+
+type StoredDoc = Record<string, any>;
+
+const sameValue = (a: any, b: any) => String(a) === String(b);
+
+// Top-level equality and $in, which is all the plugin and these tests produce
+const matches = (doc: StoredDoc, filter: Record<string, any> = {}) => Object.entries(filter).every(([key, condition]) => {
+    if (condition && typeof condition === 'object' && Array.isArray(condition.$in)) {
+        return condition.$in.some((value: any) => sameValue(doc[key], value));
+    }
+    return sameValue(doc[key], condition);
+});
+
+const applyUpdate = (doc: StoredDoc, update: any) => Object.assign(doc, update?.$set || {});
+
+/**
+ * Replace the driver collection behind a model with an in-memory one, so the
+ * filters the plugin produces are evaluated against documents of both organizations
+ */
+const useMemoryCollection = (model: mongoose.Model<any>) => {
+    const docs: StoredDoc[] = [];
+    const collection = model.collection as any;
+    const toCursor = (results: StoredDoc[]) => ({ toArray: async () => results.map(doc => ({ ...doc })) });
+
+    Object.assign(collection, {
+        find: async (filter: any) => toCursor(docs.filter(doc => matches(doc, filter))),
+        findOne: async (filter: any) => docs.find(doc => matches(doc, filter)) || null,
+        countDocuments: async (filter: any) => docs.filter(doc => matches(doc, filter)).length,
+        distinct: async (field: string, filter: any) => [...new Set(docs.filter(doc => matches(doc, filter)).map(doc => doc[field]))],
+        updateOne: async (filter: any, update: any) => {
+            const doc = docs.find(candidate => matches(candidate, filter));
+            if (doc) applyUpdate(doc, update);
+            return { acknowledged: true, matchedCount: doc ? 1 : 0, modifiedCount: doc ? 1 : 0 };
+        },
+        updateMany: async (filter: any, update: any) => {
+            const matched = docs.filter(doc => matches(doc, filter));
+            matched.forEach(doc => applyUpdate(doc, update));
+            return { acknowledged: true, matchedCount: matched.length, modifiedCount: matched.length };
+        },
+        findOneAndUpdate: async (filter: any, update: any) => {
+            const doc = docs.find(candidate => matches(candidate, filter));
+            return doc ? applyUpdate(doc, update) : null;
+        },
+        deleteOne: async (filter: any) => {
+            const index = docs.findIndex(doc => matches(doc, filter));
+            if (index !== -1) docs.splice(index, 1);
+            return { acknowledged: true, deletedCount: index === -1 ? 0 : 1 };
+        },
+        deleteMany: async (filter: any) => {
+            const remaining = docs.filter(doc => !matches(doc, filter));
+            const deletedCount = docs.length - remaining.length;
+            docs.splice(0, docs.length, ...remaining);
+            return { acknowledged: true, deletedCount };
+        },
+        findOneAndDelete: async (filter: any) => {
+            const index = docs.findIndex(doc => matches(doc, filter));
+            return index === -1 ? null : docs.splice(index, 1)[0];
+        },
+        aggregate: (pipeline: any[]) => toCursor(pipeline
+            .filter(stage => stage.$match)
+            .reduce((results: StoredDoc[], stage) => results.filter(doc => matches(doc, stage.$match)), docs)),
+        insertMany: async (inserted: StoredDoc[]) => {
+            docs.push(...inserted.map(doc => ({ ...doc })));
+            return { acknowledged: true, insertedCount: inserted.length, insertedIds: {} };
+        },
+        bulkWrite: async (ops: any[]) => {
+            for (const op of ops) {
+                if (op.insertOne) docs.push({ ...op.insertOne.document });
+                if (op.updateOne) await collection.updateOne(op.updateOne.filter, op.updateOne.update);
+                if (op.updateMany) await collection.updateMany(op.updateMany.filter, op.updateMany.update);
+                if (op.deleteOne) await collection.deleteOne(op.deleteOne.filter);
+                if (op.deleteMany) await collection.deleteMany(op.deleteMany.filter);
+            }
+            return { isOk: () => true, insertedCount: 0, matchedCount: 0, modifiedCount: 0, deletedCount: 0, upsertedCount: 0, insertedIds: {}, upsertedIds: {} };
+        }
+    });
+    return docs;
+};
+
+describe.each(SCOPED_MODELS.map(model => [model.modelName, model] as const))('tenant scope on %s', (_name, model) => {
+    let docs: StoredDoc[];
+    let docA: StoredDoc;
+    let docB: StoredDoc;
+
+    beforeEach(() => {
+        docs = useMemoryCollection(model);
+        docA = { _id: new mongoose.Types.ObjectId(), organizationId: new mongoose.Types.ObjectId(ORG_A), label: 'a' };
+        docB = { _id: new mongoose.Types.ObjectId(), organizationId: new mongoose.Types.ObjectId(ORG_B), label: 'b' };
+        docs.push(docA, docB);
+    });
+
+    const asA = <T>(fn: () => T) => runWithTenant(ORG_A, fn);
+    const idsOf = (results: any[]) => results.map(result => result._id.toString());
+    const stored = (id: mongoose.Types.ObjectId) => docs.find(doc => sameValue(doc._id, id));
+
+    describe('reads', () => {
+        it('only finds the current organization\'s documents', async () => {
+            expect(idsOf(await asA(() => model.find({}).lean()))).toEqual([docA._id.toString()]);
+        });
+
+        it('does not find another organization\'s document by id', async () => {
+            expect(await asA(() => model.findById(docB._id).lean())).toBeNull();
+            expect(await asA(() => model.findOne({ _id: docB._id }).lean())).toBeNull();
+        });
+
+        it('only counts and lists distinct values of the current organization', async () => {
+            expect(await asA(() => model.countDocuments({}))).toBe(1);
+            expect((await asA(() => model.distinct('_id'))).map(String)).toEqual([docA._id.toString()]);
+        });
+
+        it('rejects a filter naming another organization', async () => {
+            await expect(asA(() => model.find({ organizationId: ORG_B }).lean())).rejects.toThrow(TenantScopeError);
+        });
+
+        it('only aggregates the current organization\'s documents', async () => {
+            const results = await asA(() => model.aggregate([{ $match: {} }]));
+            expect(idsOf(results)).toEqual([docA._id.toString()]);
+        });
+    });
+
+    describe('updates', () => {
+        it('does not update another organization\'s document', async () => {
+            const one = await asA(() => model.updateOne({ _id: docB._id }, { $set: { label: 'changed' } }, { strict: false }));
+            const many = await asA(() => model.updateMany({}, { $set: { label: 'changed' } }, { strict: false }));
+            const found = await asA(() => model.findOneAndUpdate({ _id: docB._id }, { $set: { label: 'changed' } }, { strict: false }).lean());
+
+            expect(one.matchedCount).toBe(0);
+            expect(many.matchedCount).toBe(1);
+            expect(found).toBeNull();
+            expect(stored(docB._id)!.label).toBe('b');
+            expect(stored(docA._id)!.label).toBe('changed');
+        });
+
+        it('rejects moving a document to another organization', async () => {
+            await expect(asA(() => model.updateOne({ _id: docA._id }, { $set: { organizationId: ORG_B } }))).rejects.toThrow(TenantScopeError);
+            expect(sameValue(stored(docA._id)!.organizationId, ORG_A)).toBe(true);
+        });
+    });
+
+    describe('deletes', () => {
+        it('does not delete another organization\'s documents', async () => {
+            await asA(() => model.deleteOne({ _id: docB._id }));
+            await asA(() => model.findOneAndDelete({ _id: docB._id }));
+            await asA(() => model.deleteMany({}));
+
+            expect(idsOf(docs)).toEqual([docB._id.toString()]);
+        });
+    });
+
+    describe('inserts', () => {
+        it('stamps inserted documents with the current organization', async () => {
+            const _id = new mongoose.Types.ObjectId();
+            await asA(() => model.insertMany([{ _id }], { lean: true }));
+
+            expect(sameValue(stored(_id)!.organizationId, ORG_A)).toBe(true);
+        });
+
+        it('rejects inserting into another organization', async () => {
+            await expect(asA(() => model.insertMany([{ organizationId: ORG_B }], { lean: true }))).rejects.toThrow(TenantScopeError);
+            expect(docs).toHaveLength(2);
+        });
+    });
+
+    describe('bulkWrite', () => {
+        it('scopes every operation to the current organization', async () => {
+            await asA(() => model.bulkWrite([
+                { updateOne: { filter: { _id: docB._id }, update: { $set: { label: 'changed' } } } },
+                { deleteOne: { filter: { _id: docB._id } } }
+            ], { strict: false }));
+
+            expect(stored(docB._id)!.label).toBe('b');
+        });
+
+        it('rejects operations naming another organization', async () => {
+            await expect(asA(() => model.bulkWrite([
+                { deleteMany: { filter: { organizationId: ORG_B } } }
+            ]))).rejects.toThrow(TenantScopeError);
+            await expect(asA(() => model.bulkWrite([
+                { insertOne: { document: { organizationId: ORG_B } } }
+            ]))).rejects.toThrow(TenantScopeError);
+            expect(docs).toHaveLength(2);
+        });
+    });
+
+    describe('without an organization context', () => {
+        it('rejects queries, writes and aggregates', async () => {
+            await expect(model.find({}).lean()).rejects.toThrow(TenantScopeError);
+            await expect(model.countDocuments({})).rejects.toThrow(TenantScopeError);
+            await expect(model.updateMany({}, { $set: { label: 'changed' } }, { strict: false })).rejects.toThrow(TenantScopeError);
+            await expect(model.deleteMany({})).rejects.toThrow(TenantScopeError);
+            await expect(model.aggregate([{ $match: {} }]).exec()).rejects.toThrow(TenantScopeError);
+            await expect(model.insertMany([{}], { lean: true })).rejects.toThrow(TenantScopeError);
+            await expect(model.bulkWrite([{ deleteMany: { filter: {} } }])).rejects.toThrow(TenantScopeError);
+            expect(docs).toHaveLength(2);
+        });
+
+        it('allows explicitly unscoped maintenance', async () => {
+            expect(await runUnscoped(() => model.countDocuments({}))).toBe(2);
+        });
+    });
+});
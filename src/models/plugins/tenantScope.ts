@@ -0,0 +1,241 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import mongoose, { Schema } from 'mongoose';
+
+/**
+ * Tenant Scope Plugin
+ *
+ * Every query, aggregate, update, delete and insert on a scoped model is
+ * bound to the organization of the current request. The organization is
+ * carried in an AsyncLocalStorage context opened by `authenticateUser`, so
+ * controllers and services never have to remember to add `organizationId`.
+ *
+ * Operations that run outside any tenant context are rejected, unless they
+ * are explicitly wrapped in `runUnscoped` (migrations, maintenance jobs).
+ */
+
+interface TenantContext {
+    organizationId: string | null;
+    unscoped: boolean;
+}
+
+const tenantStorage = new AsyncLocalStorage<TenantContext>();
+
+export class TenantScopeError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TenantScopeError';
+    }
+}
+
+// Queries and aggregates returned from a context callback, resolved to the promise of their result
+type Executed<T> = T extends mongoose.Query<infer R, any, any, any, any, any>
+    ? Promise<R>
+    : T extends mongoose.Aggregate<infer R>
+        ? Promise<R>
+        : T;
+
+/**
+ * Queries and aggregates are lazy: they only run when awaited, which would be
+ * outside the context they were built in. Execute them inside it instead.
+ */
+const runInContext = <T>(context: TenantContext, fn: () => T): Executed<T> => {
+    return tenantStorage.run(context, () => {
+        const result: any = fn();
+        return result instanceof mongoose.Query || result instanceof mongoose.Aggregate ? result.exec() : result;
+    });
+};
+
+/**
+ * Run a function with every scoped model bound to the given organization
+ */
+export const runWithTenant = <T>(organizationId: string, fn: () => T): Executed<T> => {
+    return runInContext({ organizationId: organizationId.toString(), unscoped: false }, fn);
+};
+
+/**
+ * Run a function without tenant scoping (cross-organization maintenance only)
+ */
+export const runUnscoped = <T>(fn: () => T): Executed<T> => {
+    return runInContext({ organizationId: null, unscoped: true }, fn);
+};
+
+/**
+ * Get the organization ID of the current tenant context, if any
+ */
+export const getCurrentTenantId = (): string | null => {
+    return tenantStorage.getStore()?.organizationId || null;
+};
+
+/**
+ * Resolve the organization to scope an operation to.
+ * Returns null when the operation is explicitly unscoped.
+ */
+const resolveTenant = (operation: string, modelName: string): string | null => {
+    const context = tenantStorage.getStore();
+
+    if (context?.unscoped) {
+        return null;
+    }
+
+    if (!context?.organizationId) {
+        throw new TenantScopeError(`Unscoped ${operation} on ${modelName} rejected: no organization context`);
+    }
+
+    return context.organizationId;
+};
+
+const sameTenant = (value: any, organizationId: string): boolean => {
+    return value === undefined || value === null || value.toString() === organizationId;
+};
+
+/**
+ * Reject explicit attempts to move a document to another organization
+ */
+const assertUpdateStaysInTenant = (update: any, organizationId: string, modelName: string) => {
+    if (!update || Array.isArray(update)) return;
+
+    const candidates = [update.organizationId, update.$set?.organizationId, update.$setOnInsert?.organizationId];
+    if (candidates.some(value => !sameTenant(value, organizationId)) || update.$unset?.organizationId !== undefined) {
+        throw new TenantScopeError(`Changing organizationId on ${modelName} is not allowed`);
+    }
+};
+
+const scopeFilter = (filter: any, organizationId: string, modelName: string) => {
+    if (filter && !sameTenant(filter.organizationId, organizationId)) {
+        throw new TenantScopeError(`Cross-tenant query on ${modelName} rejected`);
+    }
+    return { ...(filter || {}), organizationId };
+};
+
+const QUERY_OPERATIONS: mongoose.MongooseQueryMiddleware[] = [
+    'countDocuments',
+    'deleteMany',
+    'deleteOne',
+    'distinct',
+    'find',
+    'findOne',
+    'findOneAndDelete',
+    'findOneAndReplace',
+    'findOneAndUpdate',
+    'replaceOne',
+    'updateMany',
+    'updateOne'
+];
+
+export function tenantScopePlugin(schema: Schema) {
+    schema.pre(QUERY_OPERATIONS, { document: false, query: true }, function (this: mongoose.Query<any, any>, next: (err?: Error) => void) {
+        try {
+            const modelName = this.model.modelName;
+            const organizationId = resolveTenant((this as any).op || 'query', modelName);
+            if (organizationId === null) return next();
+
+            const filter = this.getFilter();
+            if (!sameTenant(filter.organizationId, organizationId)) {
+                throw new TenantScopeError(`Cross-tenant query on ${modelName} rejected`);
+            }
+
+            this.where({ organizationId });
+            assertUpdateStaysInTenant(this.getUpdate(), organizationId, modelName);
+            next();
+        } catch (error) {
+            next(error as Error);
+        }
+    });
+
+    schema.pre('estimatedDocumentCount', function (this: mongoose.Query<any, any>, next: (err?: Error) => void) {
+        try {
+            // estimatedDocumentCount cannot be filtered, so it is only allowed unscoped
+            if (resolveTenant('estimatedDocumentCount', this.model.modelName) !== null) {
+                throw new TenantScopeError('estimatedDocumentCount is not tenant-aware; use countDocuments');
+            }
+            next();
+        } catch (error) {
+            next(error as Error);
+        }
+    });
+
+    schema.pre('aggregate', function (this: mongoose.Aggregate<any>, next: (err?: Error) => void) {
+        try {
+            const modelName = (this as any)._model?.modelName || 'aggregate';
+            const organizationId = resolveTenant('aggregate', modelName);
+            if (organizationId === null) return next();
+
+            this.pipeline().unshift({
+                $match: { organizationId: new mongoose.Types.ObjectId(organizationId) }
+            });
+            next();
+        } catch (error) {
+            next(error as Error);
+        }
+    });
+
+    // Stamp new documents before validation, since organizationId is a required path
+    schema.pre(['validate', 'save'], { document: true, query: false }, function (this: mongoose.Document & { organizationId?: any }, next: (err?: Error) => void) {
+        try {
+            const modelName = (this.constructor as mongoose.Model<any>).modelName;
+            const organizationId = resolveTenant('save', modelName);
+            if (organizationId === null) return next();
+
+            if (!this.organizationId) {
+                this.organizationId = organizationId;
+            } else if (!sameTenant(this.organizationId, organizationId)) {
+                throw new TenantScopeError(`Cross-tenant save on ${modelName} rejected`);
+            }
+            next();
+        } catch (error) {
+            next(error as Error);
+        }
+    });
+
+    schema.pre('insertMany', function (this: mongoose.Model<any>, next: (err?: Error) => void, docs: any) {
+        try {
+            const organizationId = resolveTenant('insertMany', this.modelName);
+            if (organizationId === null) return next();
+
+            for (const doc of Array.isArray(docs) ? docs : [docs]) {
+                if (!sameTenant(doc.organizationId, organizationId)) {
+                    throw new TenantScopeError(`Cross-tenant insert on ${this.modelName} rejected`);
+                }
+                doc.organizationId = organizationId;
+            }
+            next();
+        } catch (error) {
+            next(error as Error);
+        }
+    });
+
+    schema.pre('bulkWrite', function (this: mongoose.Model<any>, next: (err?: Error) => void, ops: any[]) {
+        try {
+            const organizationId = resolveTenant('bulkWrite', this.modelName);
+            if (organizationId === null) return next();
+
+            for (const op of ops) {
+                if (op.insertOne) {
+                    if (!sameTenant(op.insertOne.document.organizationId, organizationId)) {
+                        throw new TenantScopeError(`Cross-tenant insert on ${this.modelName} rejected`);
+                    }
+                    op.insertOne.document.organizationId = organizationId;
+                    continue;
+                }
+
+                const [name, spec] = Object.entries(op)[0] as [string, any];
+                spec.filter = scopeFilter(spec.filter, organizationId, this.modelName);
+
+                if (name === 'updateOne' || name === 'updateMany') {
+                    assertUpdateStaysInTenant(spec.update, organizationId, this.modelName);
+                }
+                if (name === 'replaceOne') {
+                    if (!sameTenant(spec.replacement.organizationId, organizationId)) {
+                        throw new TenantScopeError(`Changing organizationId on ${this.modelName} is not allowed`);
+                    }
+                    spec.replacement.organizationId = organizationId;
+                }
+            }
+            next();
+        } catch (error) {
+            next(error as Error);
+        }
+    });
+}
+
+export default tenantScopePlugin;
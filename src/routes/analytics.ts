@@ -5,7 +5,8 @@ import {
     getDepartmentPerformance,
     getSelectionFairness,
     getPeakHours,
-    getEngagementScore
+    getEngagementScore,
+    getAttendanceRates
 } from '../controllers/analytics';
 
 const router = Router();
@@ -52,4 +53,11 @@ router.get('/peak-hours', getPeakHours);
  */
 router.get('/engagement-score', getEngagementScore);
 
+/**
+ * @route GET /api/analytics/attendance
+ * @desc Get attendance rates per participant and per team
+ * @access Public
+ */
+router.get('/attendance', getAttendanceRates);
+
 export default router;
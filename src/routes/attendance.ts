@@ -0,0 +1,20 @@
+import { Router } from 'express';
+import { getCheckIn, checkIn } from '../controllers/attendance';
+
+const router = Router();
+
+/**
+ * @route GET /api/attendance/check-in/:token
+ * @desc Get the meeting day and participant a check-in link is for
+ * @access Personal signed check-in token
+ */
+router.get('/check-in/:token', getCheckIn);
+
+/**
+ * @route POST /api/attendance/check-in/:token
+ * @desc Check in to a meeting as the participant the link was created for
+ * @access Personal signed check-in token
+ */
+router.post('/check-in/:token', checkIn);
+
+export default router;
@@ -2,51 +2,119 @@ import { Router } from 'express';
 import {
     createExportJob,
     getExportJobStatus,
-    downloadExportFile
+    downloadExportFile,
+    streamExport,
+    getExportSchedules,
+    createExportSchedule,
+    deleteExportSchedule
 } from '../controllers/export';
+import { resolveOrganization, authenticateUser, requirePermission } from '../middleware/multiTenant';
 
 const router = Router();
 
 /**
  * @route POST /api/export/meeting/:id
  * @desc Create meeting export job
- * @access Public
+ * @access Private
  */
-router.post('/meeting/:id', createExportJob);
+router.post('/meeting/:id', resolveOrganization, authenticateUser, createExportJob);
+
+/**
+ * @route POST /api/export/meetings
+ * @desc Create export job for all meetings matching the filters
+ * @access Private
+ */
+router.post('/meetings', resolveOrganization, authenticateUser, createExportJob);
 
 /**
  * @route POST /api/export/analytics
  * @desc Create analytics export job
- * @access Public
+ * @access Private
  */
-router.post('/analytics', createExportJob);
+router.post('/analytics', resolveOrganization, authenticateUser, createExportJob);
 
 /**
  * @route POST /api/export/participants
  * @desc Create participants export job
- * @access Public
+ * @access Private
  */
-router.post('/participants', createExportJob);
+router.post('/participants', resolveOrganization, authenticateUser, createExportJob);
 
 /**
  * @route POST /api/export/teams
  * @desc Create teams export job
- * @access Public
+ * @access Private
  */
-router.post('/teams', createExportJob);
+router.post('/teams', resolveOrganization, authenticateUser, createExportJob);
 
 /**
  * @route GET /api/export/status/:exportId
  * @desc Get export job status
- * @access Public
+ * @access Private (organization members; creator only for owner-visible exports)
  */
-router.get('/status/:exportId', getExportJobStatus);
+router.get('/status/:exportId', resolveOrganization, authenticateUser, getExportJobStatus);
 
 /**
- * @route GET /api/export/download/:fileName
+ * @route GET /api/export/download/:token
  * @desc Download export file
- * @access Public
+ * @access Signed download token from the export status
+ */
+router.get('/download/:token', downloadExportFile);
+
+/**
+ * @route GET /api/export/stream/meeting/:id
+ * @desc Stream a meeting export directly in the response
+ * @access Private
+ */
+router.get('/stream/meeting/:id', resolveOrganization, authenticateUser, streamExport);
+
+/**
+ * @route GET /api/export/stream/meetings
+ * @desc Stream an export of all meetings matching the filters directly in the response
+ * @access Private
+ */
+router.get('/stream/meetings', resolveOrganization, authenticateUser, streamExport);
+
+/**
+ * @route GET /api/export/stream/analytics
+ * @desc Stream an analytics export directly in the response
+ * @access Private
+ */
+router.get('/stream/analytics', resolveOrganization, authenticateUser, streamExport);
+
+/**
+ * @route GET /api/export/stream/participants
+ * @desc Stream a participants export directly in the response
+ * @access Private
+ */
+router.get('/stream/participants', resolveOrganization, authenticateUser, streamExport);
+
+/**
+ * @route GET /api/export/stream/teams
+ * @desc Stream a teams export directly in the response
+ * @access Private
+ */
+router.get('/stream/teams', resolveOrganization, authenticateUser, streamExport);
+
+/**
+ * @route GET /api/export/schedules
+ * @desc List export schedules
+ * @access Private (canExportData)
+ */
+router.get('/schedules', resolveOrganization, authenticateUser, requirePermission('canExportData'), getExportSchedules);
+
+/**
+ * @route POST /api/export/schedules
+ * @desc Create a recurring export delivered by email, webhook or file drop
+ * @access Private (canExportData)
+ */
+router.post('/schedules', resolveOrganization, authenticateUser, requirePermission('canExportData'), createExportSchedule);
+
+/**
+ * @route DELETE /api/export/schedules/:id
+ * @desc Delete an export schedule
+ * @access Private (canExportData)
  */
-router.get('/download/:fileName', downloadExportFile);
+router.delete('/schedules/:id', resolveOrganization, authenticateUser, requirePermission('canExportData'), deleteExportSchedule);
 
 export default router;
@@ -1,5 +1,5 @@
 import express, { Router } from 'express';
-import { getSelectionHistory, createSelectionRecord, clearSelectionHistory, selectParticipant } from '../controllers/history';
+import { getSelectionHistory, createSelectionRecord, clearSelectionHistory, selectParticipant, createSeedCommitment, verifySelection } from '../controllers/history';
 
 
 const router: Router = express.Router();
@@ -8,6 +8,8 @@ const router: Router = express.Router();
 router.get('/', getSelectionHistory);
 router.post('/', createSelectionRecord);
 router.post('/select', selectParticipant);
+router.post('/commitments', createSeedCommitment);
 router.delete('/clear', clearSelectionHistory);
+router.get('/:id/verify', verifySelection);
 
 export default router;
@@ -1,14 +1,27 @@
 import { Router } from 'express';
-import { getAllMeetings, createMeeting, getMeetingById, updateMeeting, getOneMeetingParticipants, deleteMeeting, addParticipantsToMeeting } from '../controllers/meetings';
+import { getAllMeetings, createMeeting, getMeetingById, updateMeeting, getOneMeetingParticipants, deleteMeeting, addParticipantsToMeeting, addExistingParticipantsToMeeting, removeParticipantFromMeeting } from '../controllers/meetings';
+import { createSpinSession, createSpeakingOrder } from '../controllers/sessions';
+import { markAttendance, getAttendance, createCheckInLinks } from '../controllers/attendance';
+import { createGroups, getGroupRounds } from '../controllers/groups';
 import multer from 'multer';
+import { MAX_FILE_BYTES } from '../services/participantImportService';
 
 const router = Router();
-const upload = multer();
+const upload = multer({ limits: { fileSize: MAX_FILE_BYTES } });
 
 router.get('/', getAllMeetings);
 router.post('/', createMeeting);
 router.post('/:meetingId/add-participants', upload.single("file"), addParticipantsToMeeting);
 router.get('/:meetingId/participants', getOneMeetingParticipants);
+router.post('/:meetingId/participants', addExistingParticipantsToMeeting);
+router.delete('/:meetingId/participants/:participantId', removeParticipantFromMeeting);
+router.post('/:id/sessions', createSpinSession);
+router.post('/:id/speaking-order', createSpeakingOrder);
+router.get('/:id/attendance', getAttendance);
+router.post('/:id/attendance', markAttendance);
+router.post('/:id/attendance/check-in-links', createCheckInLinks);
+router.get('/:id/groups', getGroupRounds);
+router.post('/:id/groups', createGroups);
 router.get('/:id', getMeetingById);
 router.put('/:id', updateMeeting);
 router.delete('/:id', deleteMeeting);
@@ -2,6 +2,7 @@ import { Router } from 'express';
 import multer from 'multer';
 import { uploadFile } from '../controllers/upoadFileController';
 import { createParticipants, deleteParticipant, getParticipantById, getParticipants, updateParticipant } from '../controllers/participants';
+import { createUnavailability, deleteUnavailability, getUnavailability, getUnavailableParticipants, updateUnavailability } from '../controllers/unavailability';
 
 const upload = multer({ storage: multer.memoryStorage() });
 
@@ -11,6 +12,11 @@ const router = Router();
 
 router.get('/', getParticipants);
 router.post('/batch', createParticipants);
+router.get('/unavailable', getUnavailableParticipants);
+router.get('/:id/unavailability', getUnavailability);
+router.post('/:id/unavailability', createUnavailability);
+router.put('/:id/unavailability/:unavailabilityId', updateUnavailability);
+router.delete('/:id/unavailability/:unavailabilityId', deleteUnavailability);
 router.get('/:id', getParticipantById);
 router.put('/:id', updateParticipant);
 router.delete('/:id', deleteParticipant);
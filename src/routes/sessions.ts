@@ -0,0 +1,55 @@
+import { Router } from 'express';
+import {
+    getSpinSession,
+    spinInSession,
+    endSpinSession,
+    nextSpeaker,
+    skipSpeaker,
+    moveSpeakerToEnd
+} from '../controllers/sessions';
+
+const router = Router();
+
+/**
+ * @route GET /api/sessions/:sessionId
+ * @desc Get spin session state
+ * @access Private
+ */
+router.get('/:sessionId', getSpinSession);
+
+/**
+ * @route POST /api/sessions/:sessionId/spin
+ * @desc Select the next participant in a spin session
+ * @access Private
+ */
+router.post('/:sessionId/spin', spinInSession);
+
+/**
+ * @route POST /api/sessions/:sessionId/next
+ * @desc Record the current speaker's turn and move to the next in a speaking order
+ * @access Private
+ */
+router.post('/:sessionId/next', nextSpeaker);
+
+/**
+ * @route POST /api/sessions/:sessionId/skip
+ * @desc Skip the current speaker of a speaking order
+ * @access Private
+ */
+router.post('/:sessionId/skip', skipSpeaker);
+
+/**
+ * @route POST /api/sessions/:sessionId/move-to-end
+ * @desc Move the current speaker of a speaking order behind everyone still waiting
+ * @access Private
+ */
+router.post('/:sessionId/move-to-end', moveSpeakerToEnd);
+
+/**
+ * @route POST /api/sessions/:sessionId/end
+ * @desc End a spin session
+ * @access Private
+ */
+router.post('/:sessionId/end', endSpinSession);
+
+export default router;
@@ -10,6 +10,7 @@ import {
     removeTeamMember,
     getTeamPerformance
 } from '../controllers/teams';
+import { parseAnalyticsFilters } from '../middleware/analyticsFilters';
 
 const router = Router();
 
@@ -71,9 +72,9 @@ router.delete('/:id/members/:memberId', removeTeamMember);
 
 /**
  * @route GET /api/teams/:id/performance
- * @desc Get team performance metrics
+ * @desc Get team performance metrics (accepts the shared analytics filters)
  * @access Public
  */
-router.get('/:id/performance', getTeamPerformance);
+router.get('/:id/performance', parseAnalyticsFilters, getTeamPerformance);
 
 export default router;
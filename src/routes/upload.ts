@@ -1,10 +1,56 @@
+import os from "os";
 import express from "express";
 import multer from "multer";
-import { uploadFile } from "../controllers/upoadFileController";
+import {
+    createImportJob,
+    downloadImportErrors,
+    getImportJobStatus,
+    previewUpload,
+    uploadFile
+} from "../controllers/upoadFileController";
+import { MAX_FILE_BYTES } from "../services/participantImportService";
 
 const router = express.Router();
-const upload = multer();
+const upload = multer({ limits: { fileSize: MAX_FILE_BYTES } });
+// Background imports can be large, so they are written to disk instead of memory
+const jobUpload = multer({
+    dest: os.tmpdir(),
+    limits: { fileSize: MAX_FILE_BYTES }
+});
 
+/**
+ * @route POST /api/upload/preview
+ * @desc Detected columns, suggested mapping, sample rows and validation errors of a file
+ * @access Private
+ */
+router.post("/preview", upload.single("file"), previewUpload);
+
+/**
+ * @route POST /api/upload/jobs
+ * @desc Import participants from a file or JSON records in the background
+ * @access Private
+ */
+router.post("/jobs", jobUpload.single("file"), createImportJob);
+
+/**
+ * @route GET /api/upload/jobs/:id
+ * @desc Get import job status, counts and row errors
+ * @access Private
+ */
+router.get("/jobs/:id", getImportJobStatus);
+
+/**
+ * @route GET /api/upload/jobs/:id/errors
+ * @desc Download the rejected rows of an import as CSV
+ * @access Private
+ */
+router.get("/jobs/:id/errors", downloadImportErrors);
+
+/**
+ * @route POST /api/upload
+ * @desc Import participants from a file or JSON records (dryRun=true only reports the changes)
+ * @access Private
+ */
 router.post("/", upload.single("file"), uploadFile);
 
 export default router;
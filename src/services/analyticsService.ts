@@ -1,57 +1,343 @@
 import mongoose from 'mongoose';
 import Meeting from '../models/meeting';
-import Participant from '../models/participant';
+import MeetingMembership from '../models/MeetingMembership';
+import AttendanceRecord from '../models/AttendanceRecord';
+import Participant, { IParticipant } from '../models/participant';
 import SelectionRecord from '../models/SelectionRecord';
 import Team from '../models/Team';
+import { FairnessStatistics, MIN_EXPECTED_COUNT } from './fairnessStatistics';
+import { SelectionService } from './selectionService';
+import { MeetingMembershipService } from './meetingMembershipService';
+import { DailyStatsService } from './dailyStatsService';
+import { Granularity, TimezoneService } from './timezoneService';
+
+const DEFAULT_SIGNIFICANCE_LEVEL = 0.05;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Query filters accepted by every analytics endpoint. `to` is exclusive.
+ */
+export interface AnalyticsFilters {
+    from?: Date;
+    to?: Date;
+    granularity?: Granularity;
+    teamId?: string;
+    department?: string;
+    meetingId?: string;
+    timezone?: string;
+}
+
+export interface FairnessFilters extends AnalyticsFilters {
+    significanceLevel?: number;
+}
+
+/**
+ * Window an endpoint reports on when no `from` is given: the last N local days,
+ * the current local month, or all time
+ */
+type DefaultWindow = { days: number } | 'month' | 'all';
+
+interface DateRange {
+    from?: Date;
+    to?: Date;
+}
+
+interface ReportingPeriod {
+    from?: Date;
+    to: Date;
+    // No `to` was requested, so the period runs up to now
+    openEnded: boolean;
+    granularity: Granularity;
+    timezone: string;
+    rollupTimezone: string;
+    // Equally long window right before this one, when the period has a start
+    previous: { from: Date; to: Date } | null;
+}
+
+interface SelectionSummary {
+    selections: number;
+    participants: number;
+    averageResponseTime: number;
+}
+
+const roundTo = (value: number, digits: number): number => {
+    const factor = Math.pow(10, digits);
+    return Math.round(value * factor) / factor;
+};
 
 export class AnalyticsService {
 
     /**
-     * Get dashboard statistics
+     * Resolve the reporting period of a request, falling back to the endpoint's default window.
+     * Bucketing happens in the requested timezone, defaulting to the organization's.
+     */
+    private static async resolvePeriod(
+        filters: AnalyticsFilters,
+        defaultWindow: DefaultWindow,
+        defaultGranularity: Granularity = 'day'
+    ): Promise<ReportingPeriod> {
+        const rollupTimezone = await DailyStatsService.getTimezone();
+        const timezone = filters.timezone || rollupTimezone;
+        const to = filters.to || new Date();
+        // Last instant of the period, so a `to` on a day boundary does not pull in the next day
+        const last = new Date(to.getTime() - 1);
+
+        let from = filters.from;
+        if (!from && defaultWindow === 'month') {
+            from = TimezoneService.startOfMonth(last, timezone);
+        } else if (!from && typeof defaultWindow === 'object') {
+            from = TimezoneService.startOfDay(new Date(last.getTime() - (defaultWindow.days - 1) * DAY_MS), timezone);
+        }
+
+        let previous: ReportingPeriod['previous'] = null;
+        if (from) {
+            let previousFrom = new Date(2 * from.getTime() - to.getTime());
+            // Day-aligned periods compare against as many whole local days, counting a partial today as a day
+            if (this.isDayStart(from, timezone) && to.getTime() - from.getTime() >= DAY_MS) {
+                const days = Math.round((TimezoneService.startOfDay(last, timezone).getTime() - from.getTime()) / DAY_MS) + 1;
+                previousFrom = TimezoneService.startOfDay(new Date(from.getTime() - days * DAY_MS + DAY_MS / 2), timezone);
+            }
+            previous = { from: previousFrom, to: from };
+        }
+
+        return {
+            from,
+            to,
+            openEnded: !filters.to,
+            granularity: filters.granularity || defaultGranularity,
+            timezone,
+            rollupTimezone,
+            previous
+        };
+    }
+
+    private static isDayStart(date: Date, timezone: string): boolean {
+        return TimezoneService.startOfDay(date, timezone).getTime() === date.getTime();
+    }
+
+    /**
+     * Whether the daily rollups can answer for a range: they hold whole days in the organization
+     * timezone with a per-department breakdown, but know nothing about teams or meetings
+     */
+    private static canUseRollups(filters: AnalyticsFilters, period: ReportingPeriod, range: DateRange, byDepartment = false): boolean {
+        if (filters.teamId || filters.meetingId || (filters.department && !byDepartment)) {
+            return false;
+        }
+        if (period.timezone !== period.rollupTimezone) {
+            return false;
+        }
+
+        const alignedFrom = !range.from || this.isDayStart(range.from, period.timezone);
+        // A period running up to now includes today's rollup so far
+        const alignedTo = !range.to
+            || (period.openEnded && range.to === period.to)
+            || this.isDayStart(range.to, period.timezone);
+        return alignedFrom && alignedTo;
+    }
+
+    /**
+     * Selection record filter for the team, department, meeting and date range
+     */
+    private static selectionMatch(filters: AnalyticsFilters, range: DateRange) {
+        const match: any = {};
+        if (filters.teamId) {
+            match.teamId = new mongoose.Types.ObjectId(filters.teamId);
+        }
+        if (filters.department) {
+            match.department = filters.department;
+        }
+        if (filters.meetingId) {
+            match.meetingId = new mongoose.Types.ObjectId(filters.meetingId);
+        }
+        if (range.from || range.to) {
+            match.selectedAt = {
+                ...(range.from && { $gte: range.from }),
+                ...(range.to && { $lt: range.to })
+            };
+        }
+        return match;
+    }
+
+    private static meetingMatch(filters: AnalyticsFilters) {
+        const match: any = {};
+        if (filters.teamId) {
+            match.teamId = new mongoose.Types.ObjectId(filters.teamId);
+        }
+        if (filters.department) {
+            match.department = filters.department;
+        }
+        if (filters.meetingId) {
+            match._id = new mongoose.Types.ObjectId(filters.meetingId);
+        }
+        return match;
+    }
+
+    private static async participantMatch(filters: AnalyticsFilters) {
+        const match: any = {};
+        if (filters.teamId) {
+            match.teamId = new mongoose.Types.ObjectId(filters.teamId);
+        }
+        if (filters.department) {
+            match.department = filters.department;
+        }
+        if (filters.meetingId) {
+            match._id = { $in: await MeetingMembershipService.getParticipantIds(filters.meetingId) };
+        }
+        return match;
+    }
+
+    private static createdWithin(range: DateRange) {
+        return range.from || range.to
+            ? { createdAt: { ...(range.from && { $gte: range.from }), ...(range.to && { $lt: range.to }) } }
+            : {};
+    }
+
+    /**
+     * Selections, unique participants and average response time for a range
+     */
+    private static async summarizeSelections(filters: AnalyticsFilters, period: ReportingPeriod, range: DateRange): Promise<SelectionSummary> {
+        if (this.canUseRollups(filters, period, range, true)) {
+            const summary = await DailyStatsService.summarizeRange(range.from, range.to);
+            if (!filters.department) {
+                return {
+                    selections: summary.totalSelections,
+                    participants: summary.participants,
+                    averageResponseTime: summary.averageResponseTime
+                };
+            }
+
+            const department = summary.departments.find(d => d.department === filters.department);
+            return {
+                selections: department?.selections || 0,
+                participants: department?.participants || 0,
+                averageResponseTime: department?.averageResponseTime || 0
+            };
+        }
+
+        const [summary] = await SelectionRecord.aggregate([
+            { $match: this.selectionMatch(filters, range) },
+            {
+                $group: {
+                    _id: null,
+                    selections: { $sum: 1 },
+                    participantIds: { $addToSet: "$participantId" },
+                    averageResponseTime: { $avg: "$selectionDuration" }
+                }
+            },
+            { $project: { selections: 1, participants: { $size: "$participantIds" }, averageResponseTime: 1 } }
+        ]);
+
+        return {
+            selections: summary?.selections || 0,
+            participants: summary?.participants || 0,
+            averageResponseTime: summary?.averageResponseTime || 0
+        };
+    }
+
+    /**
+     * Selections per hour, day, week or month of the period, with empty buckets filled in
+     */
+    private static async getSelectionSeries(filters: AnalyticsFilters, period: ReportingPeriod & { from: Date }) {
+        const { from, to, granularity, timezone } = period;
+
+        const buckets: Date[] = [];
+        for (
+            let start = TimezoneService.startOfBucket(from, granularity, timezone);
+            start < to;
+            start = TimezoneService.nextBucket(start, granularity, timezone)
+        ) {
+            buckets.push(start);
+        }
+
+        const counts = granularity !== 'hour' && this.canUseRollups(filters, period, period)
+            ? await DailyStatsService.getSeries(from, to, granularity)
+            : (await SelectionRecord.aggregate([
+                { $match: this.selectionMatch(filters, period) },
+                {
+                    $group: {
+                        _id: { $dateTrunc: { date: "$selectedAt", unit: granularity, timezone, startOfWeek: "monday" } },
+                        selections: { $sum: 1 }
+                    }
+                }
+            ])).map(bucket => ({ start: bucket._id as Date, selections: bucket.selections as number }));
+
+        const countByStart = new Map(counts.map(bucket => [bucket.start.getTime(), bucket.selections]));
+
+        return buckets.map(start => ({
+            start,
+            date: TimezoneService.dateKey(start, timezone),
+            selections: countByStart.get(start.getTime()) || 0
+        }));
+    }
+
+    /**
+     * Period, filters and period-over-period comparison shared by every analytics response,
+     * along with the selection summary of the period itself
+     */
+    private static async getPeriodContext(filters: AnalyticsFilters, period: ReportingPeriod) {
+        const [current, previous] = await Promise.all([
+            this.summarizeSelections(filters, period, period),
+            period.previous ? this.summarizeSelections(filters, period, period.previous) : null
+        ]);
+
+        return {
+            summary: current,
+            envelope: {
+                period: {
+                    from: period.from || null,
+                    to: period.to,
+                    granularity: period.granularity,
+                    timezone: period.timezone
+                },
+                filters: {
+                    teamId: filters.teamId || null,
+                    department: filters.department || null,
+                    meetingId: filters.meetingId || null
+                },
+                comparison: period.previous && previous
+                    ? {
+                        previousPeriod: period.previous,
+                        current,
+                        previous,
+                        change: {
+                            selections: this.calculateTrend(current.selections, previous.selections),
+                            participants: this.calculateTrend(current.participants, previous.participants),
+                            averageResponseTime: this.calculateTrend(current.averageResponseTime, previous.averageResponseTime)
+                        }
+                    }
+                    : null
+            }
+        };
+    }
+
+    /**
+     * Get dashboard statistics, for the current month by default
      */
-    static async getDashboardStats() {
+    static async getDashboardStats(filters: AnalyticsFilters = {}) {
         try {
-            const now = new Date();
-            const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
-            const startOfWeek = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
+            const period = await this.resolvePeriod(filters, 'month');
 
-            // Use aggregation to get all stats in parallel
             const [
                 totalMeetings,
                 activeParticipants,
-                monthlySpins,
-                averageSelectionTime,
-                weeklyTrends
+                context,
+                trends
             ] = await Promise.all([
-                Meeting.countDocuments({ isActive: true }),
-
-                Participant.aggregate([
-                    { $match: { isActive: true } },
-                    { $group: { _id: null, count: { $sum: 1 } } }
-                ]),
-
-                SelectionRecord.countDocuments({
-                    selectedAt: { $gte: startOfMonth }
-                }),
-
-                SelectionRecord.aggregate([
-                    { $match: { selectionDuration: { $exists: true, $ne: null } } },
-                    { $group: { _id: null, avg: { $avg: '$selectionDuration' } } }
-                ]),
-
-                // Weekly trends
-                this.getWeeklyTrends()
+                Meeting.countDocuments({ ...this.meetingMatch(filters), isActive: true }),
+                Participant.countDocuments({ ...await this.participantMatch(filters), isActive: true }),
+                this.getPeriodContext(filters, period),
+                this.getTrends(filters, period)
             ]);
 
-            const activeParticipantsCount = activeParticipants[0]?.count || 0;
-            const avgTime = averageSelectionTime[0]?.avg || 0;
-
             return {
                 totalMeetings,
-                activeParticipants: activeParticipantsCount,
-                spinsThisMonth: monthlySpins,
-                avgSelectionTime: `${Math.round(avgTime / 1000)}s`,
-                trends: weeklyTrends
+                activeParticipants,
+                spins: context.summary.selections,
+                // Kept for clients written before the period became configurable
+                spinsThisMonth: context.summary.selections,
+                avgSelectionTime: `${Math.round(context.summary.averageResponseTime / 1000)}s`,
+                trends,
+                ...context.envelope
             };
         } catch (error) {
             console.error('Error getting dashboard stats:', error);
@@ -60,30 +346,38 @@ export class AnalyticsService {
     }
 
     /**
-     * Get weekly trends
+     * Get trends of the last 7 days against the 7 days before
+     */
+    static async getWeeklyTrends(filters: AnalyticsFilters = {}) {
+        const week = await this.resolvePeriod({ ...filters, from: undefined, to: undefined }, { days: 7 });
+        return this.getTrends(filters, week);
+    }
+
+    /**
+     * Get trends of a period against the previous period, or week over week for all-time periods
      */
-    static async getWeeklyTrends() {
+    private static async getTrends(filters: AnalyticsFilters, period: ReportingPeriod) {
         try {
-            const now = new Date();
-            const oneWeekAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-            const twoWeeksAgo = new Date(now.getTime() - 14 * 24 * 60 * 60 * 1000);
+            const compared = period.previous
+                ? period
+                : await this.resolvePeriod({ ...filters, from: undefined, to: undefined }, { days: 7 });
 
-            const [thisWeek, lastWeek] = await Promise.all([
-                this.getWeekStats(oneWeekAgo, now),
-                this.getWeekStats(twoWeeksAgo, oneWeekAgo)
+            const [current, previous] = await Promise.all([
+                this.getPeriodStats(filters, compared, compared),
+                this.getPeriodStats(filters, compared, compared.previous!)
             ]);
 
             return {
-                meetings: this.calculateTrend(thisWeek.meetings, lastWeek.meetings),
-                participants: this.calculateTrend(thisWeek.participants, lastWeek.participants),
-                spins: this.calculateTrend(thisWeek.spins, lastWeek.spins),
+                meetings: this.calculateTrend(current.meetings, previous.meetings),
+                participants: this.calculateTrend(current.participants, previous.participants),
+                spins: this.calculateTrend(current.spins, previous.spins),
                 responseTime: this.calculateTrend(
-                    lastWeek.responseTime, // Inverted for response time (lower is better)
-                    thisWeek.responseTime
+                    previous.responseTime, // Inverted for response time (lower is better)
+                    current.responseTime
                 )
             };
         } catch (error) {
-            console.error('Error getting weekly trends:', error);
+            console.error('Error getting trends:', error);
             return {
                 meetings: '+0%',
                 participants: '+0%',
@@ -94,38 +388,20 @@ export class AnalyticsService {
     }
 
     /**
-     * Get stats for a specific week
+     * Get stats for a specific range
      */
-    private static async getWeekStats(startDate: Date, endDate: Date) {
-        const [meetings, participants, spins, responseTime] = await Promise.all([
-            Meeting.countDocuments({
-                createdAt: { $gte: startDate, $lt: endDate }
-            }),
-
-            Participant.countDocuments({
-                createdAt: { $gte: startDate, $lt: endDate }
-            }),
-
-            SelectionRecord.countDocuments({
-                selectedAt: { $gte: startDate, $lt: endDate }
-            }),
-
-            SelectionRecord.aggregate([
-                {
-                    $match: {
-                        selectedAt: { $gte: startDate, $lt: endDate },
-                        selectionDuration: { $exists: true, $ne: null }
-                    }
-                },
-                { $group: { _id: null, avg: { $avg: '$selectionDuration' } } }
-            ])
+    private static async getPeriodStats(filters: AnalyticsFilters, period: ReportingPeriod, range: DateRange) {
+        const [meetings, participants, selectionStats] = await Promise.all([
+            Meeting.countDocuments({ ...this.meetingMatch(filters), ...this.createdWithin(range) }),
+            Participant.countDocuments({ ...await this.participantMatch(filters), ...this.createdWithin(range) }),
+            this.summarizeSelections(filters, period, range)
         ]);
 
         return {
             meetings,
             participants,
-            spins,
-            responseTime: responseTime[0]?.avg || 0
+            spins: selectionStats.selections,
+            responseTime: selectionStats.averageResponseTime
         };
     }
 
@@ -141,26 +417,41 @@ export class AnalyticsService {
     }
 
     /**
-     * Get recent meetings for dashboard
+     * Get recent meetings for dashboard, optionally only those active within the period
      */
-    static async getRecentMeetings(limit: number = 5) {
+    static async getRecentMeetings(limit: number = 5, filters: AnalyticsFilters = {}) {
         try {
-            const meetings = await Meeting.find({ isActive: true })
-                .populate('teamId', 'name')
-                .sort({ 'statistics.lastActivity': -1, createdAt: -1 })
-                .limit(limit)
-                .lean();
-
-            return meetings.map(meeting => ({
-                id: meeting._id,
-                name: meeting.name,
-                department: meeting.department,
-                lastSpin: meeting.statistics.lastActivity
-                    ? meeting.statistics.lastActivity.toISOString()
-                    : meeting.createdAt.toISOString(),
-                participants: meeting.participants.length,
-                status: meeting.status
-            }));
+            const period = await this.resolvePeriod(filters, 'all');
+            const match: any = { ...this.meetingMatch(filters), isActive: true };
+            if (filters.from || filters.to) {
+                match['statistics.lastActivity'] = {
+                    ...(period.from && { $gte: period.from }),
+                    $lt: period.to
+                };
+            }
+
+            const [meetings, context] = await Promise.all([
+                Meeting.find(match)
+                    .populate('teamId', 'name')
+                    .sort({ 'statistics.lastActivity': -1, createdAt: -1 })
+                    .limit(limit)
+                    .lean(),
+                this.getPeriodContext(filters, period)
+            ]);
+
+            return {
+                meetings: await Promise.all(meetings.map(async meeting => ({
+                    id: meeting._id,
+                    name: meeting.name,
+                    department: meeting.department,
+                    lastSpin: meeting.statistics.lastActivity
+                        ? meeting.statistics.lastActivity.toISOString()
+                        : meeting.createdAt.toISOString(),
+                    participants: await MeetingMembership.countDocuments({ meetingId: meeting._id }),
+                    status: meeting.status
+                }))),
+                ...context.envelope
+            };
         } catch (error) {
             console.error('Error getting recent meetings:', error);
             throw error;
@@ -168,48 +459,59 @@ export class AnalyticsService {
     }
 
     /**
-     * Get top participants by selection count
+     * Get the active participants selected most often within the period
      */
-    static async getTopParticipants(limit: number = 10) {
+    static async getTopParticipants(limit: number = 10, filters: AnalyticsFilters = {}) {
         try {
-            const participants = await Participant.aggregate([
-                { $match: { isActive: true } },
-                {
-                    $lookup: {
-                        from: 'selectionrecords',
-                        localField: '_id',
-                        foreignField: 'participantId',
-                        as: 'selections'
-                    }
-                },
-                {
-                    $addFields: {
-                        selectionCount: { $size: '$selections' },
-                        lastActive: {
-                            $max: '$selections.selectedAt'
+            const period = await this.resolvePeriod(filters, 'all');
+
+            const [participants, context] = await Promise.all([
+                SelectionRecord.aggregate([
+                    { $match: this.selectionMatch(filters, period) },
+                    {
+                        $group: {
+                            _id: "$participantId",
+                            selections: { $sum: 1 },
+                            meetingIds: { $addToSet: "$meetingId" },
+                            lastActive: { $max: "$selectedAt" }
+                        }
+                    },
+                    {
+                        $lookup: {
+                            from: 'participants',
+                            localField: '_id',
+                            foreignField: '_id',
+                            as: 'participant'
+                        }
+                    },
+                    { $unwind: "$participant" },
+                    { $match: { 'participant.isActive': true } },
+                    { $sort: { selections: -1, lastActive: -1 } },
+                    { $limit: limit },
+                    {
+                        $project: {
+                            name: "$participant.name",
+                            department: "$participant.department",
+                            selections: 1,
+                            meetings: { $size: "$meetingIds" },
+                            lastActive: 1
                         }
                     }
-                },
-                { $sort: { selectionCount: -1 } },
-                { $limit: limit },
-                {
-                    $project: {
-                        name: 1,
-                        department: 1,
-                        selections: '$selectionCount',
-                        meetings: '$totalMeetings',
-                        lastActive: 1
-                    }
-                }
+                ]),
+                this.getPeriodContext(filters, period)
             ]);
 
-            return participants.map(p => ({
-                name: p.name,
-                department: p.department,
-                selections: p.selections,
-                meetings: p.meetings || 1,
-                lastActive: p.lastActive ? p.lastActive.toISOString() : 'Never'
-            }));
+            return {
+                participants: participants.map(p => ({
+                    id: p._id,
+                    name: p.name,
+                    department: p.department,
+                    selections: p.selections,
+                    meetings: p.meetings,
+                    lastActive: p.lastActive ? p.lastActive.toISOString() : 'Never'
+                })),
+                ...context.envelope
+            };
         } catch (error) {
             console.error('Error getting top participants:', error);
             throw error;
@@ -217,33 +519,31 @@ export class AnalyticsService {
     }
 
     /**
-     * Get analytics overview
+     * Get analytics overview, for all time by default
      */
-    static async getAnalyticsOverview() {
+    static async getAnalyticsOverview(filters: AnalyticsFilters = {}) {
         try {
+            const period = await this.resolvePeriod(filters, 'all');
+
             const [
-                totalSelections,
+                context,
                 activeParticipants,
                 meetingsHeld,
-                avgResponseTime
+                trends
             ] = await Promise.all([
-                SelectionRecord.countDocuments(),
-                Participant.countDocuments({ isActive: true }),
-                Meeting.countDocuments(),
-                SelectionRecord.aggregate([
-                    { $match: { selectionDuration: { $exists: true, $ne: null } } },
-                    { $group: { _id: null, avg: { $avg: '$selectionDuration' } } }
-                ])
+                this.getPeriodContext(filters, period),
+                Participant.countDocuments({ ...await this.participantMatch(filters), isActive: true }),
+                Meeting.countDocuments({ ...this.meetingMatch(filters), ...this.createdWithin(period.from ? period : {}) }),
+                this.getTrends(filters, period)
             ]);
 
-            const trends = await this.getWeeklyTrends();
-
             return {
-                totalSelections,
+                totalSelections: context.summary.selections,
                 activeParticipants,
                 meetingsHeld,
-                avgResponseTime: `${Math.round((avgResponseTime[0]?.avg || 0) / 1000)}s`,
-                trends
+                avgResponseTime: `${Math.round(context.summary.averageResponseTime / 1000)}s`,
+                trends,
+                ...context.envelope
             };
         } catch (error) {
             console.error('Error getting analytics overview:', error);
@@ -252,40 +552,25 @@ export class AnalyticsService {
     }
 
     /**
-     * Get weekly activity data
+     * Get selection activity per bucket, for the last 7 days by day by default
      */
-    static async getWeeklyActivity() {
+    static async getWeeklyActivity(filters: AnalyticsFilters = {}) {
         try {
-            const oneWeekAgo = new Date();
-            oneWeekAgo.setDate(oneWeekAgo.getDate() - 7);
-
-            const activity = await SelectionRecord.aggregate([
-                { $match: { selectedAt: { $gte: oneWeekAgo } } },
-                {
-                    $group: {
-                        _id: { $dateToString: { format: "%Y-%m-%d", date: "$selectedAt" } },
-                        selections: { $sum: 1 }
-                    }
-                },
-                { $sort: { "_id": 1 } }
+            const period = await this.resolvePeriod(filters, { days: 7 });
+            const [series, context] = await Promise.all([
+                this.getSelectionSeries(filters, period as ReportingPeriod & { from: Date }),
+                this.getPeriodContext(filters, period)
             ]);
 
-            // Fill in missing days with 0 selections
-            const result = [];
-            for (let i = 6; i >= 0; i--) {
-                const date = new Date();
-                date.setDate(date.getDate() - i);
-                const dateStr = date.toISOString().split('T')[0];
-
-                const existingData = activity.find(a => a._id === dateStr);
-                result.push({
-                    date: dateStr,
-                    day: date.toLocaleDateString('en-US', { weekday: 'short' }),
-                    selections: existingData ? existingData.selections : 0
-                });
-            }
-
-            return result;
+            return {
+                data: series.map(bucket => ({
+                    start: bucket.start,
+                    date: bucket.date,
+                    day: bucket.start.toLocaleDateString('en-US', { weekday: 'short', timeZone: period.timezone }),
+                    selections: bucket.selections
+                })),
+                ...context.envelope
+            };
         } catch (error) {
             console.error('Error getting weekly activity:', error);
             throw error;
@@ -293,43 +578,72 @@ export class AnalyticsService {
     }
 
     /**
-     * Get department performance
+     * Selections, participants and response time per department for a range
+     */
+    private static async getDepartmentSummaries(filters: AnalyticsFilters, period: ReportingPeriod, range: DateRange) {
+        if (this.canUseRollups(filters, period, range, true)) {
+            const summary = await DailyStatsService.summarizeRange(range.from, range.to);
+            return summary.departments.filter(d => !filters.department || d.department === filters.department);
+        }
+
+        const departments = await SelectionRecord.aggregate([
+            { $match: this.selectionMatch(filters, range) },
+            {
+                $group: {
+                    _id: "$department",
+                    selections: { $sum: 1 },
+                    participantIds: { $addToSet: "$participantId" },
+                    averageResponseTime: { $avg: "$selectionDuration" }
+                }
+            },
+            { $sort: { selections: -1 } }
+        ]);
+
+        return departments.map(d => ({
+            department: d._id as string,
+            selections: d.selections as number,
+            participants: d.participantIds.length as number,
+            averageResponseTime: (d.averageResponseTime || 0) as number
+        }));
+    }
+
+    /**
+     * Get department performance, for the last 30 days by default, with growth against the previous period
      */
-    static async getDepartmentPerformance() {
+    static async getDepartmentPerformance(filters: AnalyticsFilters = {}) {
         try {
-            const departments = await SelectionRecord.aggregate([
-                {
-                    $group: {
-                        _id: "$department",
-                        selections: { $sum: 1 },
-                        participants: { $addToSet: "$participantId" },
-                        avgResponseTime: { $avg: "$selectionDuration" }
-                    }
-                },
-                {
-                    $lookup: {
-                        from: 'meetings',
-                        let: { dept: '$_id' },
-                        pipeline: [
-                            { $match: { $expr: { $eq: ['$department', '$$dept'] } } }
-                        ],
-                        as: 'meetings'
-                    }
-                },
-                {
-                    $project: {
-                        name: "$_id",
-                        selections: 1,
-                        participants: { $size: "$participants" },
-                        meetings: { $size: "$meetings" },
-                        averageResponseTime: { $round: [{ $divide: ["$avgResponseTime", 1000] }, 1] },
-                        growth: "+5%" // This would be calculated based on historical data
-                    }
-                },
-                { $sort: { selections: -1 } }
+            const period = await this.resolvePeriod(filters, { days: 30 });
+
+            const [current, previous, meetingsByDepartment, context] = await Promise.all([
+                this.getDepartmentSummaries(filters, period, period),
+                period.previous ? this.getDepartmentSummaries(filters, period, period.previous) : [],
+                Meeting.aggregate([
+                    { $match: this.meetingMatch(filters) },
+                    { $group: { _id: "$department", meetings: { $sum: 1 } } }
+                ]),
+                this.getPeriodContext(filters, period)
             ]);
 
-            return departments;
+            const meetingCounts = new Map(meetingsByDepartment.map(d => [d._id, d.meetings]));
+            const previousSelections = new Map(previous.map(d => [d.department, d.selections]));
+
+            const departments = current.map(department => ({
+                _id: department.department,
+                name: department.department,
+                selections: department.selections,
+                participants: department.participants,
+                meetings: meetingCounts.get(department.department) || 0,
+                averageResponseTime: Math.round(department.averageResponseTime / 100) / 10,
+                previousSelections: period.previous ? previousSelections.get(department.department) || 0 : null,
+                growth: period.previous
+                    ? this.calculateTrend(department.selections, previousSelections.get(department.department) || 0)
+                    : null
+            }));
+
+            return {
+                departments,
+                ...context.envelope
+            };
         } catch (error) {
             console.error('Error getting department performance:', error);
             throw error;
@@ -337,67 +651,143 @@ export class AnalyticsService {
     }
 
     /**
-     * Get selection fairness analysis
+     * Get selection fairness analysis for the active participants of a meeting, team or
+     * department: Gini coefficient, chi-square goodness-of-fit against a uniform
+     * distribution, max/min ratio and expected-vs-actual counts per participant
      */
-    static async getSelectionFairness(meetingId?: string) {
+    static async getSelectionFairness(filters: FairnessFilters = {}) {
         try {
-            const matchFilter: any = {};
-            if (meetingId) {
-                matchFilter.meetingId = new mongoose.Types.ObjectId(meetingId);
+            const significanceLevel = filters.significanceLevel ?? DEFAULT_SIGNIFICANCE_LEVEL;
+            const period = await this.resolvePeriod(filters, 'all');
+            const participantFilter: any = { isActive: true };
+            const matchFilter = this.selectionMatch({ ...filters, meetingId: undefined }, period);
+            let population: IParticipant[];
+
+            if (filters.teamId) {
+                participantFilter.teamId = matchFilter.teamId;
+            }
+            if (filters.department) {
+                participantFilter.department = filters.department;
             }
 
-            const result = await SelectionRecord.aggregate([
-                { $match: matchFilter },
-                {
-                    $group: {
-                        _id: "$participantId",
-                        selectionCount: { $sum: 1 },
-                        participantName: { $first: "$participantName" }
-                    }
-                },
-                {
-                    $facet: {
-                        distribution: [
-                            {
-                                $project: {
-                                    participantId: "$_id",
-                                    participantName: 1,
-                                    selectionCount: 1
-                                }
-                            }
-                        ],
-                        stats: [
-                            {
-                                $group: {
-                                    _id: null,
-                                    totalParticipants: { $sum: 1 },
-                                    participantsSelected: {
-                                        $sum: { $cond: [{ $gt: ["$selectionCount", 0] }, 1, 0] }
-                                    }
-                                }
+            if (filters.meetingId) {
+                const meeting = await Meeting.findById(filters.meetingId);
+                if (!meeting) {
+                    throw new Error('Meeting not found');
+                }
+
+                // Everyone who could have been picked in this meeting, narrowed by any team filter.
+                // People away today still count, the stored pool snapshots cover their time away.
+                const pool = await SelectionService.getEligibilityPool(meeting, filters.department || meeting.department);
+                population = [...pool.eligible, ...(pool.exclusions.unavailable || [])].filter(p =>
+                    !participantFilter.teamId || p.teamId?.toString() === filters.teamId
+                );
+                matchFilter.meetingId = meeting._id;
+            } else {
+                population = await Participant.find(participantFilter);
+            }
+
+            const [selectionCounts, eligibilityOdds, context] = await Promise.all([
+                SelectionRecord.aggregate([
+                    { $match: matchFilter },
+                    { $group: { _id: "$participantId", selectionCount: { $sum: 1 } } }
+                ]),
+
+                // Odds each participant actually had, from the pool snapshot stored with every spin.
+                // Expected selections assume a uniform pick from the pool at that time.
+                SelectionRecord.aggregate([
+                    { $match: { ...matchFilter, 'metadata.eligibility.eligibleParticipantIds.0': { $exists: true } } },
+                    {
+                        $project: {
+                            participantId: 1,
+                            eligibleParticipantIds: "$metadata.eligibility.eligibleParticipantIds",
+                            poolSize: { $size: "$metadata.eligibility.eligibleParticipantIds" }
+                        }
+                    },
+                    { $unwind: "$eligibleParticipantIds" },
+                    {
+                        $group: {
+                            _id: "$eligibleParticipantIds",
+                            timesEligible: { $sum: 1 },
+                            expectedSelections: { $sum: { $divide: [1, "$poolSize"] } },
+                            timesSelected: {
+                                $sum: { $cond: [{ $eq: ["$participantId", "$eligibleParticipantIds"] }, 1, 0] }
                             }
-                        ]
+                        }
                     }
-                }
+                ]),
+
+                this.getPeriodContext(filters, period)
             ]);
 
-            const stats = result[0]?.stats[0];
-            if (!stats) {
-                return {
-                    fairnessScore: 0,
-                    participantsSelectedAtLeastOnce: 0,
-                    totalParticipants: 0,
-                    selectionDistribution: []
-                };
-            }
+            const countByParticipant = new Map<string, number>(
+                selectionCounts.map(entry => [entry._id.toString(), entry.selectionCount])
+            );
+            const oddsByParticipant = new Map(eligibilityOdds.map(odds => [odds._id.toString(), odds]));
 
-            const fairnessScore = (stats.participantsSelected / stats.totalParticipants) * 100;
+            const observed = population.map(p => countByParticipant.get((p._id as mongoose.Types.ObjectId).toString()) || 0);
+            const totalSelections = observed.reduce((sum, count) => sum + count, 0);
+            const allSelections = selectionCounts.reduce((sum, entry) => sum + entry.selectionCount, 0);
+            const expectedPerParticipant = population.length > 0 ? totalSelections / population.length : 0;
+            const chiSquare = FairnessStatistics.chiSquareGoodnessOfFit(
+                observed,
+                observed.map(() => expectedPerParticipant)
+            );
+            const participantsSelected = observed.filter(count => count > 0).length;
+            const maxMinRatio = FairnessStatistics.maxMinRatio(observed);
+            const testable = totalSelections > 0 && population.length > 1;
 
             return {
-                fairnessScore: Math.round(fairnessScore),
-                participantsSelectedAtLeastOnce: stats.participantsSelected,
-                totalParticipants: stats.totalParticipants,
-                selectionDistribution: result[0].distribution
+                scope: {
+                    meetingId: filters.meetingId || null,
+                    teamId: filters.teamId || null,
+                    department: filters.department || null,
+                    from: period.from || null,
+                    to: filters.to || null
+                },
+                // Share of active participants picked at least once
+                fairnessScore: population.length > 0 ? Math.round((participantsSelected / population.length) * 100) : 0,
+                participantsSelectedAtLeastOnce: participantsSelected,
+                totalParticipants: population.length,
+                totalSelections,
+                // Selections of people who are no longer active or outside the scope
+                selectionsOutsidePopulation: allSelections - totalSelections,
+                metrics: {
+                    giniCoefficient: roundTo(FairnessStatistics.giniCoefficient(observed), 4),
+                    chiSquare: {
+                        statistic: roundTo(chiSquare.statistic, 4),
+                        degreesOfFreedom: chiSquare.degreesOfFreedom,
+                        pValue: roundTo(chiSquare.pValue, 6)
+                    },
+                    maxMinRatio: maxMinRatio === null ? null : roundTo(maxMinRatio, 2),
+                    minSelections: observed.length > 0 ? Math.min(...observed) : 0,
+                    maxSelections: observed.length > 0 ? Math.max(...observed) : 0,
+                    expectedSelectionsPerParticipant: roundTo(expectedPerParticipant, 2)
+                },
+                bias: {
+                    significant: testable && chiSquare.pValue < significanceLevel,
+                    significanceLevel,
+                    // Chi-square is unreliable when each participant is expected fewer than 5 selections
+                    lowSampleSize: expectedPerParticipant < MIN_EXPECTED_COUNT
+                },
+                selectionDistribution: population
+                    .map((participant, i) => {
+                        const participantId = participant._id as mongoose.Types.ObjectId;
+                        const odds = oddsByParticipant.get(participantId.toString());
+                        return {
+                            participantId,
+                            participantName: participant.name,
+                            department: participant.department,
+                            selectionCount: observed[i],
+                            expectedCount: roundTo(expectedPerParticipant, 2),
+                            deviation: roundTo(observed[i] - expectedPerParticipant, 2),
+                            timesEligible: odds?.timesEligible ?? null,
+                            expectedFromEligibility: odds ? roundTo(odds.expectedSelections, 2) : null,
+                            selectionRate: odds ? roundTo(odds.timesSelected / odds.timesEligible, 3) : null
+                        };
+                    })
+                    .sort((a, b) => b.selectionCount - a.selectionCount),
+                ...context.envelope
             };
         } catch (error) {
             console.error('Error getting selection fairness:', error);
@@ -406,31 +796,35 @@ export class AnalyticsService {
     }
 
     /**
-     * Get peak hours analysis
+     * Get peak hours analysis, for all time by default
      */
-    static async getPeakHours() {
+    static async getPeakHours(filters: AnalyticsFilters = {}) {
         try {
-            const hourlyActivity = await SelectionRecord.aggregate([
-                {
-                    $project: {
-                        hour: { $hour: "$selectedAt" },
-                        selections: 1
-                    }
-                },
-                {
-                    $group: {
-                        _id: "$hour",
-                        selections: { $sum: 1 }
-                    }
-                },
-                { $sort: { selections: -1 } }
+            const period = await this.resolvePeriod(filters, 'all');
+            const [hourlyActivity, context]: [Array<{ _id: number; selections: number }>, any] = await Promise.all([
+                this.canUseRollups(filters, period, period)
+                    ? DailyStatsService.summarizeRange(period.from, period.to)
+                        .then(summary => summary.hourlyDistribution.map(h => ({ _id: h.hour, selections: h.selections })))
+                    : SelectionRecord.aggregate([
+                        { $match: this.selectionMatch(filters, period) },
+                        {
+                            $group: {
+                                _id: { $hour: { date: "$selectedAt", timezone: period.timezone } },
+                                selections: { $sum: 1 }
+                            }
+                        },
+                        { $sort: { selections: -1 } }
+                    ]),
+                this.getPeriodContext(filters, period)
             ]);
 
             if (hourlyActivity.length === 0) {
                 return {
                     peakHour: "No data",
+                    timezone: period.timezone,
                     activityPercentage: 0,
-                    hourlyDistribution: []
+                    hourlyDistribution: [],
+                    ...context.envelope
                 };
             }
 
@@ -443,11 +837,13 @@ export class AnalyticsService {
 
             return {
                 peakHour,
+                timezone: period.timezone,
                 activityPercentage: Math.round(activityPercentage),
                 hourlyDistribution: hourlyActivity.map(h => ({
                     hour: h._id,
                     selections: h.selections
-                }))
+                })),
+                ...context.envelope
             };
         } catch (error) {
             console.error('Error getting peak hours:', error);
@@ -456,73 +852,229 @@ export class AnalyticsService {
     }
 
     /**
-     * Get engagement score
+     * Participation, repeat usage and session duration for a range
+     */
+    private static async getEngagementMetrics(filters: AnalyticsFilters, range: DateRange) {
+        const [totalParticipants, activity] = await Promise.all([
+            Participant.countDocuments(await this.participantMatch(filters)),
+
+            SelectionRecord.aggregate([
+                { $match: this.selectionMatch(filters, range) },
+                {
+                    $group: {
+                        _id: "$participantId",
+                        selectionCount: { $sum: 1 },
+                        durationTotal: { $sum: { $ifNull: ["$selectionDuration", 0] } },
+                        durationCount: { $sum: { $cond: [{ $isNumber: "$selectionDuration" }, 1, 0] } }
+                    }
+                },
+                {
+                    $group: {
+                        _id: null,
+                        activeParticipants: { $sum: 1 },
+                        repeatUsers: { $sum: { $cond: [{ $gt: ["$selectionCount", 1] }, 1, 0] } },
+                        durationTotal: { $sum: "$durationTotal" },
+                        durationCount: { $sum: "$durationCount" }
+                    }
+                }
+            ])
+        ]);
+
+        const activeParticipants = activity[0]?.activeParticipants || 0;
+
+        const participationRate = totalParticipants > 0
+            ? (activeParticipants / totalParticipants) * 100
+            : 0;
+
+        const repeatUsageRate = activeParticipants > 0
+            ? ((activity[0]?.repeatUsers || 0) / activeParticipants) * 100
+            : 0;
+
+        const averageSessionDuration = activity[0]?.durationCount
+            ? activity[0].durationTotal / activity[0].durationCount / 1000 // Convert to seconds
+            : 0;
+
+        // Calculate overall score (0-10)
+        const overallScore = Math.min(10, (
+            (participationRate / 100) * 4 +
+            (repeatUsageRate / 100) * 3 +
+            Math.min(1, averageSessionDuration / 60) * 3 // Normalize session duration
+        ));
+
+        return {
+            overallScore: Math.round(overallScore * 10) / 10,
+            participationRate: Math.round(participationRate),
+            averageSessionDuration: Math.round(averageSessionDuration),
+            repeatUsageRate: Math.round(repeatUsageRate)
+        };
+    }
+
+    /**
+     * Get engagement score, for the last 30 days by default
+     */
+    static async getEngagementScore(filters: AnalyticsFilters = {}) {
+        try {
+            const period = await this.resolvePeriod(filters, { days: 30 });
+            const [current, previous, context] = await Promise.all([
+                this.getEngagementMetrics(filters, period),
+                period.previous ? this.getEngagementMetrics(filters, period.previous) : null,
+                this.getPeriodContext(filters, period)
+            ]);
+
+            return {
+                ...current,
+                previous,
+                ...context.envelope
+            };
+        } catch (error) {
+            console.error('Error getting engagement score:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Get attendance rates per participant and per team, for the last 30 days by default.
+     * Late counts as attended; punctuality is the share of attended days on time.
      */
-    static async getEngagementScore() {
+    static async getAttendanceRates(filters: AnalyticsFilters = {}) {
         try {
-            const now = new Date();
-            const thirtyDaysAgo = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
+            const period = await this.resolvePeriod(filters, { days: 30 });
 
-            const [
-                totalParticipants,
-                activeParticipants,
-                repeatUsers,
-                avgSessionData
-            ] = await Promise.all([
-                Participant.countDocuments(),
+            const match: any = {};
+            if (filters.teamId) {
+                match.teamId = new mongoose.Types.ObjectId(filters.teamId);
+            }
+            if (filters.meetingId) {
+                match.meetingId = new mongoose.Types.ObjectId(filters.meetingId);
+            }
+            if (filters.department) {
+                match.participantId = { $in: await Participant.find({ department: filters.department }).distinct('_id') };
+            }
+            if (period.from || period.to) {
+                match.occurrenceDate = {
+                    ...(period.from && { $gte: period.from }),
+                    ...(period.to && { $lt: period.to })
+                };
+            }
+
+            const statusCount = (status: string) => ({ $sum: { $cond: [{ $eq: ['$status', status] }, 1, 0] } });
+            const tally = {
+                days: { $sum: 1 },
+                present: statusCount('present'),
+                late: statusCount('late'),
+                absent: statusCount('absent')
+            };
+
+            const [byParticipant, byTeam, context] = await Promise.all([
+                AttendanceRecord.aggregate([
+                    { $match: match },
+                    { $group: { _id: '$participantId', ...tally } }
+                ]),
+                AttendanceRecord.aggregate([
+                    { $match: { ...match, teamId: match.teamId || { $ne: null } } },
+                    { $group: { _id: '$teamId', ...tally } }
+                ]),
+                this.getPeriodContext(filters, period)
+            ]);
+
+            const [participants, teams] = await Promise.all([
+                Participant.find({ _id: { $in: byParticipant.map(p => p._id) } }).select('name department').lean(),
+                Team.find({ _id: { $in: byTeam.map(t => t._id) } }).select('name').lean()
+            ]);
+            const participantOf = new Map(participants.map(p => [p._id.toString(), p]));
+            const teamOf = new Map(teams.map(t => [t._id.toString(), t]));
+
+            const rates = (counts: { days: number; present: number; late: number; absent: number }) => {
+                const attended = counts.present + counts.late;
+                return {
+                    days: counts.days,
+                    present: counts.present,
+                    late: counts.late,
+                    absent: counts.absent,
+                    attendanceRate: counts.days > 0 ? roundTo(attended / counts.days * 100, 1) : 0,
+                    punctualityRate: attended > 0 ? roundTo(counts.present / attended * 100, 1) : 0
+                };
+            };
+
+            const overall = byParticipant.reduce(
+                (sum, p) => ({ days: sum.days + p.days, present: sum.present + p.present, late: sum.late + p.late, absent: sum.absent + p.absent }),
+                { days: 0, present: 0, late: 0, absent: 0 }
+            );
+
+            return {
+                overall: rates(overall),
+                participants: byParticipant
+                    .map(p => ({
+                        participantId: p._id,
+                        name: participantOf.get(p._id.toString())?.name || 'Unknown',
+                        department: participantOf.get(p._id.toString())?.department,
+                        ...rates(p)
+                    }))
+                    .sort((a, b) => a.attendanceRate - b.attendanceRate || a.name.localeCompare(b.name)),
+                teams: byTeam
+                    .map(t => ({
+                        teamId: t._id,
+                        name: teamOf.get(t._id.toString())?.name || 'Unknown',
+                        ...rates(t)
+                    }))
+                    .sort((a, b) => a.attendanceRate - b.attendanceRate || a.name.localeCompare(b.name)),
+                ...context.envelope
+            };
+        } catch (error) {
+            console.error('Error getting attendance rates:', error);
+            throw error;
+        }
+    }
 
-                Participant.countDocuments({
-                    lastSelected: { $gte: thirtyDaysAgo }
-                }),
+    /**
+     * Get a team's performance: totals and top performers, all-time by default,
+     * and selections per bucket, for the last 7 days by default
+     */
+    static async getTeamPerformance(teamId: string, filters: AnalyticsFilters = {}) {
+        try {
+            const teamFilters = { ...filters, teamId };
+            const period = await this.resolvePeriod(teamFilters, 'all');
+            const activityPeriod = period.from ? period : await this.resolvePeriod(teamFilters, { days: 7 });
 
+            const [topPerformers, series, context] = await Promise.all([
                 SelectionRecord.aggregate([
-                    { $match: { selectedAt: { $gte: thirtyDaysAgo } } },
+                    { $match: this.selectionMatch(teamFilters, period) },
                     {
                         $group: {
-                            _id: "$participantId",
-                            selectionCount: { $sum: 1 }
+                            _id: '$participantId',
+                            selectionCount: { $sum: 1 },
+                            participantName: { $first: '$participantName' },
+                            department: { $first: '$department' }
                         }
                     },
-                    { $match: { selectionCount: { $gt: 1 } } },
-                    { $count: "repeatUsers" }
-                ]),
-
-                SelectionRecord.aggregate([
-                    { $match: { selectionDuration: { $exists: true, $ne: null } } },
+                    { $sort: { selectionCount: -1 } },
+                    { $limit: 5 },
                     {
-                        $group: {
-                            _id: null,
-                            avgDuration: { $avg: "$selectionDuration" }
+                        $project: {
+                            name: '$participantName',
+                            department: 1,
+                            selections: '$selectionCount'
                         }
                     }
-                ])
+                ]),
+                this.getSelectionSeries(teamFilters, activityPeriod as ReportingPeriod & { from: Date }),
+                this.getPeriodContext(teamFilters, period)
             ]);
 
-            const participationRate = totalParticipants > 0
-                ? (activeParticipants / totalParticipants) * 100
-                : 0;
-
-            const repeatUsageRate = activeParticipants > 0
-                ? ((repeatUsers[0]?.repeatUsers || 0) / activeParticipants) * 100
-                : 0;
-
-            const averageSessionDuration = (avgSessionData[0]?.avgDuration || 0) / 1000; // Convert to seconds
-
-            // Calculate overall score (0-10)
-            const overallScore = Math.min(10, (
-                (participationRate / 100) * 4 +
-                (repeatUsageRate / 100) * 3 +
-                Math.min(1, averageSessionDuration / 60) * 3 // Normalize session duration
-            ));
-
             return {
-                overallScore: Math.round(overallScore * 10) / 10,
-                participationRate: Math.round(participationRate),
-                averageSessionDuration: Math.round(averageSessionDuration),
-                repeatUsageRate: Math.round(repeatUsageRate)
+                timezone: period.timezone,
+                totalSelections: context.summary.selections,
+                averageParticipation: context.summary.participants,
+                topPerformers,
+                weeklyActivity: series.map(bucket => ({
+                    _id: bucket.date,
+                    start: bucket.start,
+                    selections: bucket.selections
+                })),
+                ...context.envelope
             };
         } catch (error) {
-            console.error('Error getting engagement score:', error);
+            console.error('Error getting team performance:', error);
             throw error;
         }
     }
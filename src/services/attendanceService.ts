@@ -0,0 +1,332 @@
+import mongoose, { ClientSession } from 'mongoose';
+import jwt from 'jsonwebtoken';
+import AttendanceRecord, { ATTENDANCE_STATUSES, AttendanceStatus, PRESENT_STATUSES } from '../models/AttendanceRecord';
+import Meeting, { IMeeting } from '../models/meeting';
+import Participant from '../models/participant';
+import { runWithTenant } from '../models/plugins/tenantScope';
+import { DailyStatsService } from './dailyStatsService';
+import { MeetingMembershipService } from './meetingMembershipService';
+import { TimezoneService } from './timezoneService';
+
+const CHECK_IN_TOKEN_AUDIENCE = 'attendance-check-in';
+const CHECK_IN_TTL_MINUTES = parseInt(process.env.ATTENDANCE_CHECK_IN_TTL_MINUTES || '120', 10);
+
+// Deliberately no `userId` claim, so a leaked check-in token cannot pass as a login token.
+// Each link is personal: `participantId` is who checks in with it.
+interface CheckInTokenPayload {
+    meetingId: string;
+    organizationId: string;
+    participantId: string;
+    occurrenceDate: string;
+    lateAfter?: string;
+}
+
+export interface AttendanceMark {
+    participantId: string;
+    status: AttendanceStatus;
+}
+
+export interface MarkAttendanceOptions {
+    date?: string;
+    // Status for everyone on the roster not listed in the marks and not marked yet
+    defaultStatus?: AttendanceStatus;
+    markedBy?: string;
+}
+
+export class AttendanceService {
+    /**
+     * Validate attendance marks, returning an error message or null
+     */
+    static validateMarks(marks: any, defaultStatus?: any): string | null {
+        if (defaultStatus !== undefined && !ATTENDANCE_STATUSES.includes(defaultStatus)) {
+            return `defaultStatus must be one of: ${ATTENDANCE_STATUSES.join(', ')}`;
+        }
+        if (!Array.isArray(marks) || (!marks.length && defaultStatus === undefined)) {
+            return 'records must be a non-empty array';
+        }
+        for (const mark of marks) {
+            if (!mark || !mark.participantId || !mongoose.Types.ObjectId.isValid(mark.participantId)) {
+                return 'Invalid participant ID';
+            }
+            if (!ATTENDANCE_STATUSES.includes(mark.status)) {
+                return `status must be one of: ${ATTENDANCE_STATUSES.join(', ')}`;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Start of the meeting day a date falls on, in the organization timezone. Defaults to today.
+     */
+    static async resolveOccurrence(date?: string | Date): Promise<Date> {
+        const timezone = await DailyStatsService.getTimezone();
+        const instant = typeof date === 'string' ? TimezoneService.parseDate(date, timezone) : date || new Date();
+        if (isNaN(instant.getTime())) {
+            throw new Error('Invalid attendance date');
+        }
+        return TimezoneService.startOfDay(instant, timezone);
+    }
+
+    /**
+     * Participants attendance is taken for: the meeting roster, or its department when it has none
+     */
+    private static async rosterFilter(meeting: IMeeting, session?: ClientSession) {
+        const memberIds = await MeetingMembershipService.getParticipantIds(meeting._id as mongoose.Types.ObjectId, session);
+        return memberIds.length > 0 ? { _id: { $in: memberIds } } : { department: meeting.department };
+    }
+
+    /**
+     * Mark attendance for a meeting day, in bulk
+     */
+    static async markAttendance(meeting: IMeeting, marks: AttendanceMark[], options: MarkAttendanceOptions = {}) {
+        const occurrenceDate = await this.resolveOccurrence(options.date);
+        const rosterFilter = await this.rosterFilter(meeting);
+
+        const markedIds = [...new Set(marks.map(mark => mark.participantId.toString()))];
+        const participants = await Participant.find({ $and: [rosterFilter, { _id: { $in: markedIds } }] }).select('_id teamId').lean();
+        if (participants.length !== markedIds.length) {
+            throw new Error('Participant is not on this meeting');
+        }
+        const teamOf = new Map(participants.map(p => [p._id.toString(), p.teamId]));
+
+        const checkedInAt = new Date();
+        const operations: any[] = marks.map(mark => ({
+            updateOne: {
+                filter: { meetingId: meeting._id, occurrenceDate, participantId: new mongoose.Types.ObjectId(mark.participantId) },
+                update: {
+                    $set: {
+                        status: mark.status,
+                        source: 'manual',
+                        markedBy: options.markedBy,
+                        teamId: teamOf.get(mark.participantId.toString()),
+                        checkedInAt
+                    }
+                },
+                upsert: true
+            }
+        }));
+
+        if (options.defaultStatus) {
+            const others = await Participant.find({ $and: [rosterFilter, { isActive: true, _id: { $nin: markedIds } }] })
+                .select('_id teamId')
+                .lean();
+            for (const participant of others) {
+                // Leaves earlier marks and self check-ins alone
+                operations.push({
+                    updateOne: {
+                        filter: { meetingId: meeting._id, occurrenceDate, participantId: participant._id },
+                        update: {
+                            $setOnInsert: {
+                                status: options.defaultStatus,
+                                source: 'manual',
+                                markedBy: options.markedBy,
+                                teamId: participant.teamId,
+                                checkedInAt
+                            }
+                        },
+                        upsert: true
+                    }
+                });
+            }
+        }
+
+        if (operations.length) {
+            await AttendanceRecord.bulkWrite(operations);
+        }
+
+        return this.getAttendance(meeting, occurrenceDate);
+    }
+
+    /**
+     * Attendance list of a meeting day: every active roster participant with their status, if marked
+     */
+    static async getAttendance(meeting: IMeeting, date?: string | Date) {
+        const occurrenceDate = await this.resolveOccurrence(date);
+        const rosterFilter = await this.rosterFilter(meeting);
+
+        const [records, participants] = await Promise.all([
+            AttendanceRecord.find({ meetingId: meeting._id, occurrenceDate }).lean(),
+            Participant.find({ ...rosterFilter, isActive: true }).select('name email department teamId').sort({ name: 1 }).lean()
+        ]);
+
+        const recordOf = new Map(records.map(record => [record.participantId.toString(), record]));
+        const attendance = participants.map(participant => {
+            const record = recordOf.get(participant._id.toString());
+            return {
+                participantId: participant._id,
+                name: participant.name,
+                email: participant.email,
+                department: participant.department,
+                status: record?.status || 'unmarked',
+                source: record?.source,
+                checkedInAt: record?.checkedInAt
+            };
+        });
+
+        const summary = { present: 0, late: 0, absent: 0, unmarked: 0 };
+        for (const entry of attendance) {
+            summary[entry.status as keyof typeof summary]++;
+        }
+
+        return {
+            meetingId: meeting._id,
+            occurrenceDate,
+            // Spins are only restricted once attendance has been taken for the day
+            taken: records.length > 0,
+            summary,
+            attendance
+        };
+    }
+
+    /**
+     * Participants present (or late) at today's occurrence of a meeting, or null when attendance has not been taken
+     */
+    static async getPresentParticipantIds(meetingId: mongoose.Types.ObjectId | string, session?: ClientSession): Promise<Set<string> | null> {
+        const occurrenceDate = await this.resolveOccurrence();
+        const records = await AttendanceRecord.find({ meetingId, occurrenceDate })
+            .select('participantId status')
+            .session(session || null)
+            .lean();
+
+        if (records.length === 0) {
+            return null;
+        }
+        return new Set(records
+            .filter(record => PRESENT_STATUSES.includes(record.status))
+            .map(record => record.participantId.toString()));
+    }
+
+    /**
+     * Sign a personal self check-in link for each active roster participant for a meeting day.
+     * Check-ins after `lateAfter` are marked late.
+     */
+    static async createCheckInLinks(meeting: IMeeting, options: { date?: string; lateAfter?: Date; expiresInMinutes?: number } = {}) {
+        const occurrenceDate = await this.resolveOccurrence(options.date);
+        const expiresInMinutes = options.expiresInMinutes || CHECK_IN_TTL_MINUTES;
+
+        const participants = await Participant.find({ ...await this.rosterFilter(meeting), isActive: true })
+            .select('name email')
+            .sort({ name: 1 })
+            .lean();
+
+        const links = participants.map(participant => {
+            const payload: CheckInTokenPayload = {
+                meetingId: (meeting._id as mongoose.Types.ObjectId).toString(),
+                organizationId: meeting.organizationId.toString(),
+                participantId: participant._id.toString(),
+                occurrenceDate: occurrenceDate.toISOString(),
+                lateAfter: options.lateAfter?.toISOString()
+            };
+            const token = jwt.sign(payload, this.checkInTokenSecret(), {
+                audience: CHECK_IN_TOKEN_AUDIENCE,
+                expiresIn: expiresInMinutes * 60
+            });
+            return {
+                participantId: participant._id,
+                name: participant.name,
+                email: participant.email,
+                token,
+                url: `/api/attendance/check-in/${token}`
+            };
+        });
+
+        return {
+            occurrenceDate,
+            lateAfter: options.lateAfter,
+            expiresAt: new Date(Date.now() + expiresInMinutes * 60 * 1000),
+            links
+        };
+    }
+
+    private static checkInTokenSecret(): string {
+        return process.env.ATTENDANCE_CHECK_IN_SECRET || process.env.JWT_SECRET || 'fallback-secret';
+    }
+
+    private static verifyCheckInToken(token: string): CheckInTokenPayload {
+        let payload: CheckInTokenPayload;
+        try {
+            payload = jwt.verify(token, this.checkInTokenSecret(), { audience: CHECK_IN_TOKEN_AUDIENCE }) as CheckInTokenPayload;
+        } catch {
+            throw new Error('Invalid or expired check-in link');
+        }
+        if (!payload.participantId) {
+            throw new Error('Invalid or expired check-in link');
+        }
+        return payload;
+    }
+
+    /**
+     * Describe the meeting day and participant a check-in link is for
+     */
+    static async getCheckIn(token: string) {
+        const payload = this.verifyCheckInToken(token);
+
+        return runWithTenant(payload.organizationId, async () => {
+            const [meeting, participant] = await Promise.all([
+                Meeting.findById(payload.meetingId).select('name department').lean(),
+                Participant.findById(payload.participantId).select('name').lean()
+            ]);
+            if (!meeting) {
+                throw new Error('Meeting not found');
+            }
+            return {
+                meetingName: meeting.name,
+                department: meeting.department,
+                participantName: participant?.name,
+                occurrenceDate: new Date(payload.occurrenceDate),
+                lateAfter: payload.lateAfter ? new Date(payload.lateAfter) : undefined
+            };
+        });
+    }
+
+    /**
+     * Check in the participant a personal check-in link was created for.
+     * Checking in again keeps the first check-in, and attendance already marked by a manager is not changed.
+     */
+    static async checkIn(token: string) {
+        const payload = this.verifyCheckInToken(token);
+
+        return runWithTenant(payload.organizationId, async () => {
+            const meeting = await Meeting.findById(payload.meetingId);
+            if (!meeting) {
+                throw new Error('Meeting not found');
+            }
+
+            const participant = await Participant.findOne({
+                $and: [await this.rosterFilter(meeting), { _id: payload.participantId, isActive: true }]
+            }).select('_id name teamId');
+            if (!participant) {
+                throw new Error('Participant is not on this meeting');
+            }
+
+            const now = new Date();
+            const occurrenceDate = new Date(payload.occurrenceDate);
+
+            const record = await AttendanceRecord.findOneAndUpdate(
+                { meetingId: meeting._id, occurrenceDate, participantId: participant._id },
+                {
+                    $setOnInsert: {
+                        status: payload.lateAfter && now > new Date(payload.lateAfter) ? 'late' : 'present',
+                        source: 'self',
+                        teamId: participant.teamId,
+                        checkedInAt: now
+                    }
+                },
+                { upsert: true, new: true }
+            ).lean();
+            if (!record || record.source !== 'self') {
+                throw new Error('Attendance has already been marked for this meeting day');
+            }
+
+            return {
+                meetingName: meeting.name,
+                participantName: participant.name,
+                occurrenceDate,
+                status: record.status,
+                checkedInAt: record.checkedInAt
+            };
+        });
+    }
+}
+
+export default AttendanceService;
@@ -0,0 +1,245 @@
+import mongoose, { ClientSession } from 'mongoose';
+import Unavailability, { IRecurrence, IUnavailability, RECURRENCE_FREQUENCIES, UNAVAILABILITY_REASONS, UnavailabilityReason } from '../models/Unavailability';
+import { DailyStatsService } from './dailyStatsService';
+import { TimezoneService } from './timezoneService';
+
+type ObjectIdLike = string | mongoose.Types.ObjectId;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface UnavailabilityInput {
+    reason?: UnavailabilityReason;
+    startDate: string;
+    endDate?: string; // Same day as startDate when missing
+    recurrence?: { frequency: string; interval?: number; until?: string } | null;
+    note?: string;
+}
+
+/**
+ * One occurrence of an unavailability record, from the start of its first day to the end of its last day
+ */
+export interface AwayWindow {
+    start: Date;
+    end: Date;
+}
+
+type UnavailabilityDates = Pick<IUnavailability, 'startDate' | 'endDate' | 'recurrence'>;
+
+export class AvailabilityService {
+    /**
+     * Validate an unavailability record, returning an error message or null
+     */
+    static validate(input: any): string | null {
+        if (!input || typeof input.startDate !== 'string' || isNaN(Date.parse(input.startDate))) {
+            return 'startDate must be a date';
+        }
+        if (input.endDate !== undefined && (typeof input.endDate !== 'string' || isNaN(Date.parse(input.endDate)))) {
+            return 'endDate must be a date';
+        }
+        if (input.endDate !== undefined && Date.parse(input.endDate) < Date.parse(input.startDate)) {
+            return 'endDate must not be before startDate';
+        }
+        if (input.reason !== undefined && !UNAVAILABILITY_REASONS.includes(input.reason)) {
+            return `reason must be one of: ${UNAVAILABILITY_REASONS.join(', ')}`;
+        }
+        if (input.note !== undefined && typeof input.note !== 'string') {
+            return 'note must be a string';
+        }
+
+        const recurrence = input.recurrence;
+        if (recurrence) {
+            if (!RECURRENCE_FREQUENCIES.includes(recurrence.frequency)) {
+                return `recurrence.frequency must be one of: ${RECURRENCE_FREQUENCIES.join(', ')}`;
+            }
+            if (recurrence.interval !== undefined && !(Number.isInteger(recurrence.interval) && recurrence.interval > 0)) {
+                return 'recurrence.interval must be a positive whole number';
+            }
+            if (recurrence.until !== undefined && (typeof recurrence.until !== 'string' || isNaN(Date.parse(recurrence.until)))) {
+                return 'recurrence.until must be a date';
+            }
+            if (recurrence.until !== undefined && Date.parse(recurrence.until) < Date.parse(input.startDate)) {
+                return 'recurrence.until must not be before startDate';
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Turn validated input into stored fields, with dates as local days in the organization timezone
+     */
+    static async toFields(input: UnavailabilityInput) {
+        const timezone = await DailyStatsService.getTimezone();
+        const day = (value: string) => TimezoneService.startOfDay(TimezoneService.parseDate(value, timezone), timezone);
+
+        return {
+            reason: input.reason || 'other',
+            startDate: day(input.startDate),
+            endDate: day(input.endDate || input.startDate),
+            recurrence: input.recurrence
+                ? {
+                    frequency: input.recurrence.frequency,
+                    interval: input.recurrence.interval || 1,
+                    until: input.recurrence.until ? day(input.recurrence.until) : undefined
+                } as IRecurrence
+                : undefined,
+            note: input.note
+        };
+    }
+
+    /**
+     * Unavailability records of a participant, optionally only those with an occurrence overlapping a date range
+     */
+    static async list(participantId: ObjectIdLike, range: { from?: Date; to?: Date } = {}) {
+        const records = await Unavailability.find({ participantId }).sort({ startDate: -1 });
+        if (!range.from && !range.to) {
+            return records;
+        }
+
+        const timezone = await DailyStatsService.getTimezone();
+        const from = range.from || new Date(0);
+        const to = range.to || new Date(8.64e15);
+        return records.filter(record => this.occurrences(record, from, to, timezone, 1).length > 0);
+    }
+
+    /**
+     * Remove every unavailability record of a participant, when the participant is deleted
+     */
+    static async removeParticipant(participantId: ObjectIdLike) {
+        await Unavailability.deleteMany({ participantId });
+    }
+
+    /**
+     * Occurrences of a record overlapping [from, to), in order. Every one is returned, so the range should be
+     * bounded unless `limit` is: checks whether a record applies at all only need the first.
+     */
+    static occurrences(record: UnavailabilityDates, from: Date, to: Date, timezone: string, limit = Infinity): AwayWindow[] {
+        const start = new Date(record.startDate);
+        // Whole days covered by one occurrence
+        const lengthInDays = Math.round(
+            (Date.parse(TimezoneService.dateKey(new Date(record.endDate), timezone)) -
+                Date.parse(TimezoneService.dateKey(start, timezone))) / DAY_MS
+        ) + 1;
+        const windowAt = (occurrenceStart: Date): AwayWindow => ({
+            start: occurrenceStart,
+            end: this.shiftDays(occurrenceStart, lengthInDays, 0, timezone)
+        });
+
+        const recurrence = record.recurrence;
+        if (!recurrence?.frequency) {
+            const window = windowAt(start);
+            return window.start < to && window.end > from ? [window] : [];
+        }
+
+        const interval = recurrence.interval || 1;
+        const step = (k: number) => {
+            switch (recurrence.frequency) {
+                case 'daily': return this.shiftDays(start, k * interval, 0, timezone);
+                case 'weekly': return this.shiftDays(start, k * interval * 7, 0, timezone);
+                default: return this.shiftDays(start, 0, k * interval, timezone);
+            }
+        };
+
+        // Skip occurrences that end before the range, erring towards starting early: a day of margin
+        // covers daylight saving shifts, and months are counted as their longest
+        const periodInDays = recurrence.frequency === 'daily' ? interval : recurrence.frequency === 'weekly' ? interval * 7 : interval * 31;
+        const first = Math.max(0, Math.floor((from.getTime() - start.getTime() - (lengthInDays + 1) * DAY_MS) / (periodInDays * DAY_MS)));
+
+        const windows: AwayWindow[] = [];
+        for (let k = first; windows.length < limit; k++) {
+            const occurrenceStart = step(k);
+            if (occurrenceStart >= to || (recurrence.until && occurrenceStart > new Date(recurrence.until))) {
+                break;
+            }
+            const window = windowAt(occurrenceStart);
+            if (window.end > from) {
+                windows.push(window);
+            }
+        }
+        return windows;
+    }
+
+    /**
+     * Start of the local day a number of days and months after the day starting at `dayStart`.
+     * Month steps stay in the target month, the 31st repeats on the last day of shorter months.
+     */
+    private static shiftDays(dayStart: Date, days: number, months: number, timezone: string): Date {
+        const { year, month, day } = TimezoneService.localTime(dayStart, timezone);
+        const daysInTargetMonth = new Date(Date.UTC(year, month + months, 0)).getUTCDate();
+        const key = new Date(Date.UTC(year, month - 1 + months, Math.min(day, daysInTargetMonth) + days)).toISOString().slice(0, 10);
+        return TimezoneService.parseDate(key, timezone);
+    }
+
+    /**
+     * Records that may have an occurrence between two instants: unfinished ones and recurring ones.
+     * The last stored day starts up to a (25 hour) day before the record ends.
+     */
+    private static async findOpenRecords(participantIds: ObjectIdLike[], after: Date, until: Date, session?: ClientSession) {
+        return Unavailability.find({
+            participantId: { $in: participantIds },
+            startDate: { $lt: until },
+            $or: [
+                { endDate: { $gte: new Date(after.getTime() - DAY_MS * 2) } },
+                { 'recurrence.frequency': { $exists: true } }
+            ]
+        }).session(session || null).lean();
+    }
+
+    /**
+     * Participants unavailable at an instant, now by default
+     */
+    static async getUnavailableParticipantIds(participantIds: ObjectIdLike[], at: Date = new Date(), session?: ClientSession): Promise<Set<string>> {
+        if (participantIds.length === 0) {
+            return new Set();
+        }
+
+        const timezone = await DailyStatsService.getTimezone();
+        const until = new Date(at.getTime() + 1);
+        const records = await this.findOpenRecords(participantIds, at, until, session);
+
+        return new Set(records
+            .filter(record => this.occurrences(record as UnavailabilityDates, at, until, timezone, 1).length > 0)
+            .map(record => record.participantId.toString()));
+    }
+
+    /**
+     * Time each participant was unavailable since the given instant (their last selection) until now,
+     * in milliseconds. Overlapping records are only counted once.
+     */
+    static async getTimeAwaySince(since: Map<string, Date>, now: Date = new Date(), session?: ClientSession): Promise<Map<string, number>> {
+        const timeAway = new Map<string, number>();
+        if (since.size === 0) {
+            return timeAway;
+        }
+
+        const timezone = await DailyStatsService.getTimezone();
+        const earliest = new Date(Math.min(...[...since.values()].map(date => new Date(date).getTime())));
+        const records = await this.findOpenRecords([...since.keys()], earliest, now, session);
+
+        const windowsOf = new Map<string, AwayWindow[]>();
+        for (const record of records) {
+            const participantId = record.participantId.toString();
+            const from = new Date(since.get(participantId)!);
+            const clipped = this.occurrences(record as UnavailabilityDates, from, now, timezone).map(window => ({
+                start: window.start < from ? from : window.start,
+                end: window.end > now ? now : window.end
+            }));
+            windowsOf.set(participantId, [...(windowsOf.get(participantId) || []), ...clipped]);
+        }
+
+        for (const [participantId, windows] of windowsOf) {
+            let total = 0;
+            let coveredUntil = 0;
+            for (const window of windows.sort((a, b) => a.start.getTime() - b.start.getTime())) {
+                const start = Math.max(window.start.getTime(), coveredUntil);
+                if (window.end.getTime() > start) {
+                    total += window.end.getTime() - start;
+                }
+                coveredUntil = Math.max(coveredUntil, window.end.getTime());
+            }
+            timeAway.set(participantId, total);
+        }
+        return timeAway;
+    }
+}
+
+export default AvailabilityService;
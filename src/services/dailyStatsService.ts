@@ -0,0 +1,427 @@
+import mongoose from 'mongoose';
+import DailyStats from '../models/DailyStats';
+import Organization from '../models/Organization';
+import SelectionRecord, { ISelectionRecord } from '../models/SelectionRecord';
+import { getCurrentTenantId } from '../models/plugins/tenantScope';
+import { DEFAULT_TIMEZONE, Granularity, TimezoneService } from './timezoneService';
+
+// Longest local day (a day clocks go back), for finding rollups that overlap a range
+const LONGEST_DAY_MS = 25 * 60 * 60 * 1000;
+
+type RollupSelection = Pick<ISelectionRecord, 'participantId' | 'meetingId' | 'department' | 'selectionDuration' | 'selectedAt'>;
+
+interface DepartmentRollup {
+    department: string;
+    selections: number;
+    participantIds: Set<string>;
+    durationTotal: number;
+    durationCount: number;
+}
+
+interface DayRollup {
+    date: Date;
+    end: Date;
+    timezone: string;
+    totalSelections: number;
+    participantIds: Set<string>;
+    meetingIds: Set<string>;
+    durationTotal: number;
+    durationCount: number;
+    departments: Map<string, DepartmentRollup>;
+    hours: Map<number, number>;
+}
+
+export interface RollupSummary {
+    totalSelections: number;
+    participants: number;
+    averageResponseTime: number;
+    hourlyDistribution: Array<{ hour: number; selections: number }>;
+    departments: Array<{
+        department: string;
+        selections: number;
+        participants: number;
+        averageResponseTime: number;
+    }>;
+}
+
+/**
+ * Aggregation expression adding to the entry of an array keyed by `keyField`,
+ * appending a new entry when the key is not present yet
+ */
+const upsertArrayEntry = (field: string, keyField: string, value: any, update: (entry: string) => any, initial: any) => {
+    const key = { $literal: value };
+    return {
+        $let: {
+            vars: { entries: { $ifNull: [`$${field}`, []] } },
+            in: {
+                $concatArrays: [
+                    {
+                        $map: {
+                            input: '$$entries',
+                            as: 'entry',
+                            in: {
+                                $cond: [
+                                    { $eq: [`$$entry.${keyField}`, key] },
+                                    { $mergeObjects: ['$$entry', update('$$entry')] },
+                                    '$$entry'
+                                ]
+                            }
+                        }
+                    },
+                    { $cond: [{ $in: [key, `$$entries.${keyField}`] }, [], [{ ...initial, [keyField]: key }]] }
+                ]
+            }
+        }
+    };
+};
+
+const addTo = (path: string, amount: number) => ({ $add: [{ $ifNull: [path, 0] }, amount] });
+
+const unionWith = (path: string, id: mongoose.Types.ObjectId) => ({ $setUnion: [{ $ifNull: [path, []] }, [id]] });
+
+const unionAll = (path: string) => ({
+    $reduce: {
+        input: path,
+        initialValue: [],
+        in: { $setUnion: ['$$value', { $ifNull: ['$$this', []] }] }
+    }
+});
+
+export class DailyStatsService {
+
+    /**
+     * Timezone rollups of the current organization are bucketed in
+     */
+    static async getTimezone(): Promise<string> {
+        const organizationId = getCurrentTenantId();
+        if (!organizationId) {
+            return DEFAULT_TIMEZONE;
+        }
+
+        const organization = await Organization.findById(organizationId).select('settings.timezone').lean();
+        return organization?.settings?.timezone || DEFAULT_TIMEZONE;
+    }
+
+    /**
+     * Add one selection to its day's rollup in a single atomic upsert
+     */
+    static async recordSelection(record: RollupSelection) {
+        const timezone = await this.getTimezone();
+        const hour = TimezoneService.hourOf(record.selectedAt, timezone);
+        const duration = record.selectionDuration ?? null;
+        const durationTotal = duration ?? 0;
+        const durationCount = duration === null ? 0 : 1;
+
+        await DailyStats.updateOne(
+            { date: TimezoneService.startOfDay(record.selectedAt, timezone) },
+            [
+                {
+                    $set: {
+                        timezone,
+                        totalSelections: addTo('$totalSelections', 1),
+                        participantIds: unionWith('$participantIds', record.participantId),
+                        meetingIds: unionWith('$meetingIds', record.meetingId),
+                        durationTotal: addTo('$durationTotal', durationTotal),
+                        durationCount: addTo('$durationCount', durationCount),
+                        peakHours: upsertArrayEntry(
+                            'peakHours',
+                            'hour',
+                            hour,
+                            entry => ({ selections: addTo(`${entry}.selections`, 1) }),
+                            { selections: 1 }
+                        ),
+                        departmentBreakdown: upsertArrayEntry(
+                            'departmentBreakdown',
+                            'department',
+                            record.department,
+                            entry => ({
+                                selections: addTo(`${entry}.selections`, 1),
+                                participantIds: unionWith(`${entry}.participantIds`, record.participantId),
+                                durationTotal: addTo(`${entry}.durationTotal`, durationTotal),
+                                durationCount: addTo(`${entry}.durationCount`, durationCount)
+                            }),
+                            {
+                                selections: 1,
+                                participantIds: [record.participantId],
+                                durationTotal,
+                                durationCount
+                            }
+                        )
+                    }
+                },
+                {
+                    $set: {
+                        uniqueParticipants: { $size: '$participantIds' },
+                        uniqueMeetings: { $size: '$meetingIds' },
+                        createdAt: { $ifNull: ['$createdAt', '$$NOW'] },
+                        averageResponseTime: {
+                            $cond: [{ $gt: ['$durationCount', 0] }, { $divide: ['$durationTotal', '$durationCount'] }, 0]
+                        },
+                        departmentBreakdown: {
+                            $map: {
+                                input: '$departmentBreakdown',
+                                as: 'entry',
+                                in: { $mergeObjects: ['$$entry', { participants: { $size: '$$entry.participantIds' } }] }
+                            }
+                        }
+                    }
+                }
+            ],
+            { upsert: true }
+        );
+    }
+
+    /**
+     * Add committed selections to their rollups. Every spin of an organization updates the same day's
+     * rollup, so this runs after the spin's transaction instead of inside it, where concurrent spins
+     * would conflict. A failed update is logged and left to the nightly rebuild.
+     */
+    static async recordSelections(records: RollupSelection[]) {
+        for (const record of records) {
+            try {
+                await this.recordSelection(record);
+            } catch (error) {
+                console.error('Error updating daily stats rollup:', error);
+            }
+        }
+    }
+
+    /**
+     * Recompute the rollups of the current organization for every day touching [from, to)
+     * from its selection records, removing rollups of days that no longer have selections
+     */
+    static async rebuildRange(from: Date, to: Date) {
+        const timezone = await this.getTimezone();
+        const start = TimezoneService.startOfDay(from, timezone);
+        const end = TimezoneService.nextDay(TimezoneService.startOfDay(new Date(to.getTime() - 1), timezone), timezone);
+
+        const cursor = SelectionRecord.find({ selectedAt: { $gte: start, $lt: end } })
+            .select('participantId meetingId department selectionDuration selectedAt')
+            .sort({ selectedAt: 1 })
+            .lean()
+            .cursor();
+
+        const rebuiltDays: Date[] = [];
+        let current: DayRollup | null = null;
+
+        for await (const record of cursor) {
+            // Records are sorted, so a new day starts once we pass the current day's end
+            if (!current || record.selectedAt >= current.end) {
+                if (current) {
+                    await this.saveRollup(current);
+                    rebuiltDays.push(current.date);
+                }
+                current = this.emptyRollup(record.selectedAt, timezone);
+            }
+            this.addToRollup(current, record);
+        }
+
+        if (current) {
+            await this.saveRollup(current);
+            rebuiltDays.push(current.date);
+        }
+
+        await DailyStats.deleteMany({
+            $or: [
+                { date: { $gte: start, $lt: end, $nin: rebuiltDays } },
+                // Rollups bucketed in a previous timezone, including a day that started before `start`
+                { date: { $gt: new Date(start.getTime() - LONGEST_DAY_MS), $lt: end }, timezone: { $ne: timezone } }
+            ]
+        });
+
+        return { days: rebuiltDays.length, from: start, to: end };
+    }
+
+    private static emptyRollup(selectedAt: Date, timezone: string): DayRollup {
+        const date = TimezoneService.startOfDay(selectedAt, timezone);
+        return {
+            date,
+            end: TimezoneService.nextDay(date, timezone),
+            timezone,
+            totalSelections: 0,
+            participantIds: new Set(),
+            meetingIds: new Set(),
+            durationTotal: 0,
+            durationCount: 0,
+            departments: new Map(),
+            hours: new Map()
+        };
+    }
+
+    private static addToRollup(rollup: DayRollup, record: RollupSelection) {
+        const participantId = record.participantId.toString();
+        const hasDuration = record.selectionDuration !== undefined && record.selectionDuration !== null;
+
+        rollup.totalSelections += 1;
+        rollup.participantIds.add(participantId);
+        rollup.meetingIds.add(record.meetingId.toString());
+        if (hasDuration) {
+            rollup.durationTotal += record.selectionDuration!;
+            rollup.durationCount += 1;
+        }
+
+        const hour = TimezoneService.hourOf(record.selectedAt, rollup.timezone);
+        rollup.hours.set(hour, (rollup.hours.get(hour) || 0) + 1);
+
+        let department = rollup.departments.get(record.department);
+        if (!department) {
+            department = {
+                department: record.department,
+                selections: 0,
+                participantIds: new Set(),
+                durationTotal: 0,
+                durationCount: 0
+            };
+            rollup.departments.set(record.department, department);
+        }
+        department.selections += 1;
+        department.participantIds.add(participantId);
+        if (hasDuration) {
+            department.durationTotal += record.selectionDuration!;
+            department.durationCount += 1;
+        }
+    }
+
+    private static async saveRollup(rollup: DayRollup) {
+        const toObjectIds = (ids: Set<string>) => Array.from(ids).map(id => new mongoose.Types.ObjectId(id));
+
+        await DailyStats.updateOne(
+            { date: rollup.date },
+            {
+                $set: {
+                    timezone: rollup.timezone,
+                    totalSelections: rollup.totalSelections,
+                    uniqueParticipants: rollup.participantIds.size,
+                    uniqueMeetings: rollup.meetingIds.size,
+                    averageResponseTime: rollup.durationCount > 0 ? rollup.durationTotal / rollup.durationCount : 0,
+                    participantIds: toObjectIds(rollup.participantIds),
+                    meetingIds: toObjectIds(rollup.meetingIds),
+                    durationTotal: rollup.durationTotal,
+                    durationCount: rollup.durationCount,
+                    departmentBreakdown: Array.from(rollup.departments.values()).map(department => ({
+                        department: department.department,
+                        selections: department.selections,
+                        participants: department.participantIds.size,
+                        participantIds: toObjectIds(department.participantIds),
+                        durationTotal: department.durationTotal,
+                        durationCount: department.durationCount
+                    })),
+                    peakHours: Array.from(rollup.hours.entries())
+                        .sort(([a], [b]) => a - b)
+                        .map(([hour, selections]) => ({ hour, selections }))
+                }
+            },
+            { upsert: true }
+        );
+    }
+
+    /**
+     * Match rollups bucketed in the organization's timezone. After a timezone change, rollups of the
+     * previous timezone overlap the rebuilt ones and are ignored until the rebuild removes them.
+     * Rollups stored before the timezone was recorded were bucketed in the default timezone.
+     */
+    private static timezoneMatch(timezone: string) {
+        return timezone === DEFAULT_TIMEZONE ? { timezone: { $in: [timezone, null] } } : { timezone };
+    }
+
+    /**
+     * Sum the rollups of a date range: totals, unique participants, average response time, hourly and department breakdowns
+     */
+    static async summarizeRange(from?: Date, to?: Date): Promise<RollupSummary> {
+        const timezone = await this.getTimezone();
+        const match: any = this.timezoneMatch(timezone);
+        if (from || to) {
+            match.date = {
+                ...(from && { $gte: TimezoneService.startOfDay(from, timezone) }),
+                ...(to && { $lt: to })
+            };
+        }
+
+        const [summary] = await DailyStats.aggregate([
+            { $match: match },
+            {
+                $facet: {
+                    totals: [
+                        {
+                            $group: {
+                                _id: null,
+                                totalSelections: { $sum: '$totalSelections' },
+                                participantIds: { $push: '$participantIds' },
+                                durationTotal: { $sum: '$durationTotal' },
+                                durationCount: { $sum: '$durationCount' }
+                            }
+                        },
+                        {
+                            $project: {
+                                totalSelections: 1,
+                                durationTotal: 1,
+                                durationCount: 1,
+                                participants: { $size: unionAll('$participantIds') }
+                            }
+                        }
+                    ],
+                    hours: [
+                        { $unwind: '$peakHours' },
+                        { $group: { _id: '$peakHours.hour', selections: { $sum: '$peakHours.selections' } } },
+                        { $sort: { selections: -1 } }
+                    ],
+                    departments: [
+                        { $unwind: '$departmentBreakdown' },
+                        {
+                            $group: {
+                                _id: '$departmentBreakdown.department',
+                                selections: { $sum: '$departmentBreakdown.selections' },
+                                participantIds: { $push: '$departmentBreakdown.participantIds' },
+                                durationTotal: { $sum: '$departmentBreakdown.durationTotal' },
+                                durationCount: { $sum: '$departmentBreakdown.durationCount' }
+                            }
+                        },
+                        {
+                            $project: {
+                                selections: 1,
+                                durationTotal: 1,
+                                durationCount: 1,
+                                participants: { $size: unionAll('$participantIds') }
+                            }
+                        },
+                        { $sort: { selections: -1 } }
+                    ]
+                }
+            }
+        ]);
+
+        const totals = summary?.totals[0];
+        return {
+            totalSelections: totals?.totalSelections || 0,
+            participants: totals?.participants || 0,
+            averageResponseTime: totals?.durationCount ? totals.durationTotal / totals.durationCount : 0,
+            hourlyDistribution: (summary?.hours || []).map((h: any) => ({ hour: h._id, selections: h.selections })),
+            departments: (summary?.departments || []).map((d: any) => ({
+                department: d._id,
+                selections: d.selections,
+                participants: d.participants,
+                averageResponseTime: d.durationCount ? d.durationTotal / d.durationCount : 0
+            }))
+        };
+    }
+
+    /**
+     * Selections per day, week or month for a date range, read from the rollups
+     */
+    static async getSeries(from: Date, to: Date, granularity: Exclude<Granularity, 'hour'>) {
+        const timezone = await this.getTimezone();
+        const buckets = await DailyStats.aggregate([
+            { $match: { ...this.timezoneMatch(timezone), date: { $gte: TimezoneService.startOfDay(from, timezone), $lt: to } } },
+            {
+                $group: {
+                    _id: { $dateTrunc: { date: '$date', unit: granularity, timezone, startOfWeek: 'monday' } },
+                    selections: { $sum: '$totalSelections' }
+                }
+            }
+        ]);
+
+        return buckets.map(bucket => ({ start: bucket._id as Date, selections: bucket.selections as number }));
+    }
+}
+
+export default DailyStatsService;
@@ -0,0 +1,300 @@
+import crypto from 'crypto';
+import dns from 'dns';
+import fs from 'fs';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import nodemailer, { Transporter } from 'nodemailer';
+import { DeliveryTransportName } from '../models/ExportSchedule';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * A finished scheduled export, handed to a transport for delivery
+ */
+export interface ReportDelivery {
+    organizationId: string;
+    scheduleId: string;
+    scheduleName: string;
+    exportJobId: string;
+    type: string;
+    format: string;
+    fileName: string;
+    contentType: string;
+    generatedAt: Date;
+    // Each call opens a new stream of the file
+    openFile(): Promise<{ stream: Readable; size?: number }>;
+}
+
+/**
+ * Recipients a delivery did not reach, with the reason
+ */
+export type DeliveryFailure = { recipient: string; error: string };
+
+/**
+ * How scheduled exports reach their recipients
+ */
+export interface DeliveryTransport {
+    readonly name: DeliveryTransportName;
+    // Recipient is valid for this transport (an email address, a URL...)
+    isValidRecipient(recipient: string): boolean;
+    // Throws when no recipient could be reached, otherwise returns the ones that were not
+    deliver(delivery: ReportDelivery, recipients: string[]): Promise<DeliveryFailure[]>;
+}
+
+/**
+ * Email with the export attached, sent over SMTP
+ */
+export class SmtpTransport implements DeliveryTransport {
+    readonly name = 'smtp';
+    private transporter: Transporter;
+
+    constructor(private from: string, private maxAttachmentBytes: number) {
+        this.transporter = nodemailer.createTransport({
+            host: process.env.SMTP_HOST,
+            port: parseInt(process.env.SMTP_PORT || '587', 10),
+            secure: process.env.SMTP_SECURE === 'true',
+            auth: process.env.SMTP_USER
+                ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+                : undefined
+        });
+    }
+
+    isValidRecipient(recipient: string) {
+        return EMAIL_PATTERN.test(recipient);
+    }
+
+    async deliver(delivery: ReportDelivery, recipients: string[]) {
+        const file = await delivery.openFile();
+        if (file.size !== undefined && file.size > this.maxAttachmentBytes) {
+            file.stream.destroy();
+            throw new Error(`Export is too large to email (${file.size} bytes)`);
+        }
+
+        // Recipients in bcc, so members of an organization don't see each other's addresses
+        await this.transporter.sendMail({
+            from: this.from,
+            to: this.from,
+            bcc: recipients,
+            subject: `${delivery.scheduleName}: ${delivery.type} export`,
+            text: [
+                `Your scheduled ${delivery.type} export "${delivery.scheduleName}" is attached.`,
+                '',
+                `Generated: ${delivery.generatedAt.toISOString()}`,
+                `Format: ${delivery.format}`
+            ].join('\n'),
+            attachments: [{
+                filename: delivery.fileName,
+                content: file.stream,
+                contentType: delivery.contentType
+            }]
+        });
+        return [];
+    }
+}
+
+// Webhooks must not reach the server's own network: loopback, private, link-local (cloud metadata),
+// shared, multicast and reserved ranges
+const blockedAddresses = new net.BlockList();
+[
+    ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+    ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4]
+].forEach(([address, prefix]) => blockedAddresses.addSubnet(address as string, prefix as number, 'ipv4'));
+[
+    ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+].forEach(([address, prefix]) => blockedAddresses.addSubnet(address as string, prefix as number, 'ipv6'));
+
+/**
+ * Whether an IP address belongs to a network webhooks may not reach
+ */
+export const isBlockedAddress = (address: string): boolean => {
+    // IPv4 addresses written as IPv6, e.g. ::ffff:127.0.0.1
+    const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+    if (mapped) {
+        return isBlockedAddress(mapped[1]);
+    }
+
+    const family = net.isIP(address);
+    return family === 0 || blockedAddresses.check(address, family === 6 ? 'ipv6' : 'ipv4');
+};
+
+/**
+ * DNS lookup for webhook requests that refuses blocked addresses. Checking at connection time,
+ * rather than before the request, leaves no window for the name to resolve elsewhere.
+ */
+const publicOnlyLookup: net.LookupFunction = (hostname, options, callback) => {
+    dns.lookup(hostname, { ...options, all: true }, (error, resolved) => {
+        if (error) {
+            return callback(error, '', 0);
+        }
+
+        const blocked = resolved.find(({ address }) => isBlockedAddress(address));
+        if (blocked || resolved.length === 0) {
+            return callback(new Error(`Webhook host ${hostname} resolves to a private or reserved address`), '', 0);
+        }
+        if (options.all) {
+            return callback(null, resolved);
+        }
+        callback(null, resolved[0].address, resolved[0].family);
+    });
+};
+
+/**
+ * HTTP POST of the export file to each recipient URL, signed with EXPORT_WEBHOOK_SECRET
+ */
+export class WebhookTransport implements DeliveryTransport {
+    readonly name = 'webhook';
+
+    constructor(private secret: string | undefined, private timeoutMs: number, private allowInsecure: boolean) {}
+
+    isValidRecipient(recipient: string) {
+        try {
+            const url = new URL(recipient);
+            const host = url.hostname.replace(/^\[|\]$/g, '');
+            if (net.isIP(host) ? isBlockedAddress(host) : host === 'localhost' || host.endsWith('.localhost')) {
+                return false;
+            }
+            return url.protocol === 'https:' || (this.allowInsecure && url.protocol === 'http:');
+        } catch {
+            return false;
+        }
+    }
+
+    async deliver(delivery: ReportDelivery, recipients: string[]) {
+        // The signature covers the whole body, so the file is read once to sign it
+        const signature = this.secret ? await this.sign(delivery) : undefined;
+        const failures: DeliveryFailure[] = [];
+
+        // Each recipient on its own, so one failing endpoint does not hold back the others
+        for (const url of recipients) {
+            try {
+                await this.post(new URL(url), delivery, signature);
+            } catch (error) {
+                failures.push({ recipient: url, error: error instanceof Error ? error.message : 'Unknown error' });
+            }
+        }
+
+        if (failures.length === recipients.length && recipients.length > 0) {
+            throw new Error(failures.map(failure => failure.error).join('; '));
+        }
+        return failures;
+    }
+
+    /**
+     * POST the file to one URL. Redirects are not followed, they could lead to internal hosts.
+     */
+    private async post(url: URL, delivery: ReportDelivery, signature?: string) {
+        if (!this.isValidRecipient(url.toString())) {
+            throw new Error(`Webhook ${url.host} is not an allowed URL`);
+        }
+
+        const file = await delivery.openFile();
+        const status = await new Promise<number>((resolve, reject) => {
+            const request = (url.protocol === 'https:' ? https : http).request(url, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': delivery.contentType,
+                    'Content-Disposition': `attachment; filename="${delivery.fileName}"`,
+                    'X-Export-Schedule-Id': delivery.scheduleId,
+                    'X-Export-Job-Id': delivery.exportJobId,
+                    'X-Export-Type': delivery.type,
+                    'X-Export-Generated-At': delivery.generatedAt.toISOString(),
+                    ...(signature && { 'X-Export-Signature': `sha256=${signature}` })
+                },
+                lookup: publicOnlyLookup,
+                timeout: this.timeoutMs
+            }, response => {
+                // Only the status matters, drain the body so the socket is released
+                response.resume();
+                resolve(response.statusCode || 0);
+            });
+
+            request.on('timeout', () => request.destroy(new Error(`Webhook ${url.host} timed out`)));
+            request.on('error', reject);
+            pipeline(file.stream, request).catch(reject);
+        });
+
+        if (status < 200 || status >= 300) {
+            throw new Error(`Webhook ${url.host} responded ${status}`);
+        }
+    }
+
+    private async sign(delivery: ReportDelivery): Promise<string> {
+        const hmac = crypto.createHmac('sha256', this.secret!);
+        const file = await delivery.openFile();
+        for await (const chunk of file.stream) {
+            hmac.update(chunk);
+        }
+        return hmac.digest('hex');
+    }
+}
+
+/**
+ * Copies the export and a manifest into a local directory, for development and tests
+ */
+export class FileDropTransport implements DeliveryTransport {
+    readonly name = 'file';
+
+    constructor(private root: string) {}
+
+    isValidRecipient() {
+        return true;
+    }
+
+    async deliver(delivery: ReportDelivery, recipients: string[]) {
+        const directory = path.join(this.root, delivery.organizationId, delivery.scheduleId);
+        await fs.promises.mkdir(directory, { recursive: true });
+
+        const file = await delivery.openFile();
+        await pipeline(file.stream, fs.createWriteStream(path.join(directory, delivery.fileName)));
+
+        const { openFile, ...manifest } = delivery;
+        await fs.promises.writeFile(
+            path.join(directory, `${delivery.fileName}.json`),
+            JSON.stringify({ ...manifest, recipients }, null, 2)
+        );
+        return [];
+    }
+}
+
+const transports = new Map<DeliveryTransportName, DeliveryTransport>();
+
+/**
+ * Delivery transport by name. The file drop is only available when EXPORT_FILE_DROP_DIR is set.
+ */
+export const getDeliveryTransport = (name: DeliveryTransportName): DeliveryTransport => {
+    const existing = transports.get(name);
+    if (existing) {
+        return existing;
+    }
+
+    let transport: DeliveryTransport;
+    if (name === 'smtp') {
+        if (!process.env.SMTP_HOST) {
+            throw new Error('Delivery transport "smtp" is not configured');
+        }
+        transport = new SmtpTransport(
+            process.env.REPORT_EMAIL_FROM || 'Name Spinner <reports@localhost>',
+            parseInt(process.env.REPORT_EMAIL_MAX_ATTACHMENT_MB || '10', 10) * 1024 * 1024
+        );
+    } else if (name === 'webhook') {
+        transport = new WebhookTransport(
+            process.env.EXPORT_WEBHOOK_SECRET,
+            parseInt(process.env.EXPORT_WEBHOOK_TIMEOUT_MS || '30000', 10),
+            process.env.NODE_ENV !== 'production'
+        );
+    } else if (name === 'file') {
+        if (!process.env.EXPORT_FILE_DROP_DIR) {
+            throw new Error('Delivery transport "file" is not configured');
+        }
+        transport = new FileDropTransport(path.resolve(process.env.EXPORT_FILE_DROP_DIR));
+    } else {
+        throw new Error(`Unknown delivery transport "${name}"`);
+    }
+
+    transports.set(name, transport);
+    return transport;
+};
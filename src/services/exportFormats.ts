@@ -0,0 +1,591 @@
+import { Readable, Writable } from 'stream';
+import { finished, pipeline } from 'stream/promises';
+import mongoose from 'mongoose';
+import { createObjectCsvStringifier } from 'csv-writer';
+import ExcelJS from 'exceljs';
+import PDFDocument from 'pdfkit';
+import { ExportFormat, IExportJob } from '../models/ExportJob';
+import { DEFAULT_TIMEZONE, TimezoneService } from './timezoneService';
+
+/**
+ * Export Formats
+ *
+ * Each format writes export data to an output stream as it is read. Record lists
+ * come straight from database cursors and can only be read once, so a writer
+ * handles every record as it arrives instead of collecting them first.
+ */
+
+export type ExportType = IExportJob['type'];
+
+export type ExportRecord = Record<string, any>;
+
+// Records read from a cursor one at a time, or a single document such as the analytics report
+export type ExportData = AsyncIterable<ExportRecord> | ExportRecord;
+
+export const isRecordStream = (data: ExportData): data is AsyncIterable<ExportRecord> => {
+    return typeof (data as any)[Symbol.asyncIterator] === 'function';
+};
+
+export interface ExportFormatWriter {
+    name: ExportFormat;
+    description: string;
+    extension: string;
+    contentType: string;
+    // Export types the format can represent, every type when omitted
+    types?: ExportType[];
+    // Filters the format always needs, applied on top of the requested ones
+    requiredFilters?: Record<string, any>;
+    write(data: ExportData, output: Writable, options?: ExportWriteOptions): Promise<void>;
+}
+
+export interface ExportWriteOptions {
+    // Organization timezone, for formats with local times such as calendar events
+    timezone?: string;
+}
+
+const writeText = async (chunks: AsyncIterable<string>, output: Writable) => {
+    await pipeline(Readable.from(chunks), output);
+};
+
+const hasRecordStreams = (value: any): boolean => {
+    return !!value && typeof value === 'object' && Object.values(value).some(field => !!field && isRecordStream(field));
+};
+
+/**
+ * JSON text of a value whose fields may be record streams themselves, such as a meeting's
+ * selection history, writing the streams as arrays while they are read. Gives the same
+ * text as JSON.stringify(value, null, indent) for the collected value, continuation lines
+ * indented by `margin`.
+ */
+async function* jsonChunks(value: any, indent: string, margin = ''): AsyncIterable<string> {
+    const newline = indent ? `\n${margin}${indent}` : '';
+    const close = indent ? `\n${margin}` : '';
+
+    if (value && isRecordStream(value)) {
+        let count = 0;
+        yield '[';
+        for await (const item of value) {
+            yield `${count > 0 ? ',' : ''}${newline}`;
+            yield* jsonChunks(item, indent, margin + indent);
+            count += 1;
+        }
+        yield count > 0 ? `${close}]` : ']';
+        return;
+    }
+
+    if (!hasRecordStreams(value)) {
+        yield (JSON.stringify(value, null, indent) ?? 'null').replace(/\n/g, `\n${margin}`);
+        return;
+    }
+
+    const entries = Object.entries(value).filter(([, field]) => field !== undefined && typeof field !== 'function');
+    yield '{';
+    for (const [index, [key, field]] of entries.entries()) {
+        yield `${index > 0 ? ',' : ''}${newline}${JSON.stringify(key)}:${indent ? ' ' : ''}`;
+        yield* jsonChunks(field, indent, margin + indent);
+    }
+    yield `${close}}`;
+}
+
+/**
+ * Read the record streams held in a record's fields into arrays, for formats that
+ * put a list in a single cell
+ */
+const collectRecordStreams = async (record: ExportRecord): Promise<ExportRecord> => {
+    if (!hasRecordStreams(record)) {
+        return record;
+    }
+
+    const collected: ExportRecord = { ...record };
+    for (const [key, field] of Object.entries(record)) {
+        if (field && isRecordStream(field)) {
+            const items: ExportRecord[] = [];
+            for await (const item of field) {
+                items.push(item);
+            }
+            collected[key] = items;
+        }
+    }
+    return collected;
+};
+
+/**
+ * Flatten object for CSV/Excel export
+ */
+export const flattenObject = (obj: any, prefix: string = ''): any => {
+    const flattened: any = {};
+
+    for (const key in obj) {
+        if (Object.prototype.hasOwnProperty.call(obj, key)) {
+            const newKey = prefix ? `${prefix}.${key}` : key;
+
+            if (obj[key] === null || obj[key] === undefined) {
+                flattened[newKey] = '';
+            } else if (obj[key] instanceof mongoose.Types.ObjectId) {
+                flattened[newKey] = obj[key].toString();
+            } else if (typeof obj[key] === 'object' && !Array.isArray(obj[key]) && !(obj[key] instanceof Date)) {
+                Object.assign(flattened, flattenObject(obj[key], newKey));
+            } else if (Array.isArray(obj[key])) {
+                flattened[newKey] = JSON.stringify(obj[key]);
+            } else {
+                flattened[newKey] = obj[key];
+            }
+        }
+    }
+
+    return flattened;
+};
+
+export const jsonFormat: ExportFormatWriter = {
+    name: 'json',
+    description: 'Pretty-printed JSON, record lists as one array',
+    extension: 'json',
+    contentType: 'application/json',
+    write: (data, output) => writeText((async function* () {
+        if (!isRecordStream(data)) {
+            yield JSON.stringify(data, null, 2);
+            return;
+        }
+
+        let count = 0;
+        yield '[';
+        for await (const record of data) {
+            // Same layout as JSON.stringify(records, null, 2)
+            yield `${count > 0 ? ',' : ''}\n  `;
+            yield* jsonChunks(record, '  ', '  ');
+            count += 1;
+        }
+        yield count > 0 ? '\n]' : ']';
+    })(), output)
+};
+
+export const ndjsonFormat: ExportFormatWriter = {
+    name: 'ndjson',
+    description: 'Newline-delimited JSON, one record per line, for data tools',
+    extension: 'ndjson',
+    contentType: 'application/x-ndjson',
+    write: (data, output) => writeText((async function* () {
+        const records = isRecordStream(data) ? data : [data];
+        for await (const record of records) {
+            yield* jsonChunks(record, '');
+            yield '\n';
+        }
+    })(), output)
+};
+
+export const csvFormat: ExportFormatWriter = {
+    name: 'csv',
+    description: 'CSV with nested fields flattened, headers taken from the first record',
+    extension: 'csv',
+    contentType: 'text/csv',
+    write: (data, output) => writeText((async function* () {
+        const records = isRecordStream(data) ? data : [data];
+        let csvStringifier: ReturnType<typeof createObjectCsvStringifier> | null = null;
+
+        for await (const record of records) {
+            const row = flattenObject(await collectRecordStreams(record));
+            if (!csvStringifier) {
+                csvStringifier = createObjectCsvStringifier({
+                    header: Object.keys(row).map(key => ({ id: key, title: key }))
+                });
+                yield csvStringifier.getHeaderString() || '';
+            }
+            yield csvStringifier.stringifyRecords([row]);
+        }
+
+        if (!csvStringifier) {
+            yield 'No data available';
+        }
+    })(), output)
+};
+
+export const excelFormat: ExportFormatWriter = {
+    name: 'excel',
+    description: 'Excel workbook, complex data with a worksheet per section',
+    extension: 'xlsx',
+    contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    async write(data, output) {
+        const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({
+            stream: output,
+            useStyles: false,
+            useSharedStrings: false
+        });
+
+        // Record lists go in one worksheet, complex data gets a worksheet per section
+        const sheets: Array<[string, AsyncIterable<ExportRecord> | ExportRecord[]]> = isRecordStream(data)
+            ? [['Data', data]]
+            : Object.entries(data).map(([key, value]) => [key, Array.isArray(value) ? value : [value]]);
+
+        for (const [name, records] of sheets) {
+            const worksheet = workbook.addWorksheet(name.slice(0, 31));
+            let hasColumns = false;
+
+            for await (const record of records) {
+                // Nothing reads the rows once the client has gone away
+                if (output.destroyed) {
+                    throw new Error('Export output closed');
+                }
+
+                const row = flattenObject(await collectRecordStreams(record));
+                if (!hasColumns) {
+                    worksheet.columns = Object.keys(row).map(key => ({ header: key, key }));
+                    hasColumns = true;
+                }
+                worksheet.addRow(row).commit();
+            }
+            worksheet.commit();
+        }
+
+        await workbook.commit();
+    }
+};
+
+// Most recent selections listed in a meeting report's timeline
+const PDF_TIMELINE_LIMIT = 200;
+
+const formatDateTime = (value?: Date | string | null): string => {
+    return value ? `${new Date(value).toISOString().slice(0, 16).replace('T', ' ')} UTC` : '—';
+};
+
+const formatPercent = (value: number): string => `${(value * 100).toFixed(1)}%`;
+
+/**
+ * Draw a table with a shaded header row
+ */
+const drawTable = (doc: PDFKit.PDFDocument, header: string[], rows: string[][]) => {
+    doc.fontSize(9).table({
+        rowStyles: (row: number) => (row === 0 ? { backgroundColor: '#eeeeee' } : undefined),
+        data: [header, ...rows]
+    });
+    doc.moveDown();
+};
+
+const drawHeading = (doc: PDFKit.PDFDocument, text: string) => {
+    doc.x = doc.page.margins.left;
+    doc.fontSize(13).font('Helvetica-Bold').text(text).font('Helvetica').moveDown(0.5);
+};
+
+/**
+ * Selection counts per participant and the most recent selections of a meeting, read from its
+ * selection history (newest first) without holding all of it
+ */
+const summarizeSelections = async (history: AsyncIterable<ExportRecord> | ExportRecord[] = []) => {
+    const counts = new Map<string, number>();
+    const timeline: ExportRecord[] = [];
+    let total = 0;
+
+    for await (const selection of history) {
+        const participantId = selection.participantId?.toString();
+        counts.set(participantId, (counts.get(participantId) || 0) + 1);
+        if (timeline.length < PDF_TIMELINE_LIMIT) {
+            timeline.push(selection);
+        }
+        total += 1;
+    }
+    return { counts, timeline, total };
+};
+
+/**
+ * One meeting report: summary, participants, selection timeline and the data behind the fairness chart
+ */
+const drawMeetingReport = async (doc: PDFKit.PDFDocument, meeting: ExportRecord) => {
+    const participants: any[] = meeting.participants || [];
+    const { counts, timeline, total } = await summarizeSelections(meeting.selectionHistory);
+    const selectionsOf = (participant: any) => counts.get(participant._id.toString()) || 0;
+
+    doc.fontSize(18).font('Helvetica-Bold').text(`Meeting report: ${meeting.name}`).font('Helvetica');
+    doc.fontSize(10).fillColor('#555555')
+        .text([meeting.department, meeting.team, meeting.status].filter(Boolean).join(' · '))
+        .text(`Generated ${formatDateTime(new Date())}`)
+        .fillColor('black')
+        .moveDown();
+
+    drawHeading(doc, 'Summary');
+    drawTable(doc, ['Participants', 'Selections', 'Selection method', 'Created'], [[
+        String(participants.length),
+        String(total),
+        meeting.settings?.selectionMethod || 'random',
+        formatDateTime(meeting.createdAt)
+    ]]);
+
+    drawHeading(doc, 'Participants');
+    drawTable(doc, ['Name', 'Role', 'Department', 'Selections', 'Last selected'], participants.map(participant => [
+        participant.name,
+        participant.role || '—',
+        participant.department || '—',
+        String(selectionsOf(participant)),
+        formatDateTime(participant.meetingStats?.lastSelected)
+    ]));
+
+    drawHeading(doc, 'Selection timeline');
+    if (total > PDF_TIMELINE_LIMIT) {
+        doc.fontSize(9).text(`Most recent ${PDF_TIMELINE_LIMIT} of ${total} selections.`).moveDown(0.5);
+    }
+    drawTable(doc, ['Selected at', 'Participant', 'Department', 'Method'], timeline.map(selection => [
+        formatDateTime(selection.selectedAt),
+        selection.participantName,
+        selection.department || '—',
+        selection.selectionMethod || '—'
+    ]));
+
+    // With equal chances everyone would hold the same share of the selections
+    drawHeading(doc, 'Fairness');
+    const expectedShare = participants.length > 0 ? 1 / participants.length : 0;
+    drawTable(doc, ['Participant', 'Selections', 'Share', 'Expected share', 'Difference'], participants.map(participant => {
+        const share = total > 0 ? selectionsOf(participant) / total : 0;
+        const difference = selectionsOf(participant) - expectedShare * total;
+        return [
+            participant.name,
+            String(selectionsOf(participant)),
+            formatPercent(share),
+            formatPercent(expectedShare),
+            `${difference >= 0 ? '+' : ''}${difference.toFixed(1)}`
+        ];
+    }));
+};
+
+export const pdfFormat: ExportFormatWriter = {
+    name: 'pdf',
+    description: 'Formatted meeting report with participants, selection timeline and fairness tables',
+    extension: 'pdf',
+    contentType: 'application/pdf',
+    types: ['meeting'],
+    requiredFilters: { includeHistory: true },
+    async write(data, output) {
+        const doc = new PDFDocument({ size: 'A4', margin: 40 });
+        doc.pipe(output);
+
+        const meetings = isRecordStream(data) ? data : [data];
+        let count = 0;
+        for await (const meeting of meetings) {
+            if (count > 0) {
+                doc.addPage();
+            }
+            await drawMeetingReport(doc, meeting);
+            count += 1;
+        }
+
+        if (count === 0) {
+            doc.fontSize(12).text('No meetings to report.');
+        }
+
+        doc.end();
+        await finished(output);
+    }
+};
+
+const DEFAULT_MEETING_DURATION_MINUTES = 30;
+
+const icsDate = (date: Date): string => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const pad = (value: number, length = 2): string => String(value).padStart(length, '0');
+
+/**
+ * Local date-time form (no "Z"), read in the timezone given by the property's TZID
+ */
+const icsLocalDate = (date: Date, timezone: string): string => {
+    const local = TimezoneService.localTime(date, timezone);
+    return `${local.year}${pad(local.month)}${pad(local.day)}T${pad(local.hour)}${pad(local.minute)}${pad(local.second)}`;
+};
+
+const icsOffset = (offsetMs: number): string => {
+    const minutes = Math.round(Math.abs(offsetMs) / 60000);
+    return `${offsetMs < 0 ? '-' : '+'}${pad(Math.floor(minutes / 60))}${pad(minutes % 60)}`;
+};
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+/**
+ * UTC offset changes of a timezone during a year, found day by day and narrowed to the minute
+ */
+const offsetTransitions = (timezone: string, year: number) => {
+    const DAY_MS = 24 * 60 * 60 * 1000;
+    const transitions: Array<{ at: Date; from: number; to: number }> = [];
+
+    for (let day = Date.UTC(year, 0, 1); day < Date.UTC(year + 1, 0, 1); day += DAY_MS) {
+        const from = TimezoneService.offsetAt(new Date(day), timezone);
+        const to = TimezoneService.offsetAt(new Date(day + DAY_MS), timezone);
+        if (from === to) {
+            continue;
+        }
+
+        let before = day;
+        let after = day + DAY_MS;
+        while (after - before > 60000) {
+            const middle = Math.floor((before + after) / 2);
+            if (TimezoneService.offsetAt(new Date(middle), timezone) === from) {
+                before = middle;
+            } else {
+                after = middle;
+            }
+        }
+        transitions.push({ at: new Date(Math.ceil(before / 60000) * 60000), from, to });
+    }
+    return transitions;
+};
+
+/**
+ * VTIMEZONE of a timezone for calendar clients that do not know IANA names: its current
+ * daylight saving rule as yearly recurrences, or a single offset when it has none
+ */
+const icsTimezone = (timezone: string, now: Date): string[] => {
+    const lines = ['BEGIN:VTIMEZONE', `TZID:${timezone}`];
+    const transitions = offsetTransitions(timezone, TimezoneService.localTime(now, timezone).year);
+
+    if (transitions.length === 0) {
+        const offset = icsOffset(TimezoneService.offsetAt(now, timezone));
+        lines.push('BEGIN:STANDARD', 'DTSTART:19700101T000000', `TZOFFSETFROM:${offset}`, `TZOFFSETTO:${offset}`, 'END:STANDARD');
+    }
+
+    for (const transition of transitions) {
+        // The rule is the weekday of the month the change falls on, e.g. the second or last Sunday
+        const local = new Date(transition.at.getTime() + transition.from);
+        const month = local.getUTCMonth();
+        const daysInMonth = new Date(Date.UTC(local.getUTCFullYear(), month + 1, 0)).getUTCDate();
+        const week = local.getUTCDate() > daysInMonth - 7 ? -1 : Math.ceil(local.getUTCDate() / 7);
+        const weekday = local.getUTCDay();
+
+        // First day in 1970 matching the rule, as the start of the observance
+        const firstOfMonth = new Date(Date.UTC(1970, month, 1)).getUTCDay();
+        let day = 1 + (weekday - firstOfMonth + 7) % 7 + (week - 1) * 7;
+        if (week === -1) {
+            const lastDay = new Date(Date.UTC(1970, month + 1, 0));
+            day = lastDay.getUTCDate() - (lastDay.getUTCDay() - weekday + 7) % 7;
+        }
+
+        const component = transition.to > transition.from ? 'DAYLIGHT' : 'STANDARD';
+        lines.push(
+            `BEGIN:${component}`,
+            `DTSTART:1970${pad(month + 1)}${pad(day)}T${pad(local.getUTCHours())}${pad(local.getUTCMinutes())}00`,
+            `RRULE:FREQ=YEARLY;BYMONTH=${month + 1};BYDAY=${week}${WEEKDAYS[weekday]}`,
+            `TZOFFSETFROM:${icsOffset(transition.from)}`,
+            `TZOFFSETTO:${icsOffset(transition.to)}`,
+            `END:${component}`
+        );
+    }
+
+    lines.push('END:VTIMEZONE');
+    return lines;
+};
+
+const icsText = (value: string): string => {
+    return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+};
+
+/**
+ * Fold a content line at 75 octets, continuation lines starting with a space (RFC 5545 3.1)
+ */
+const icsLine = (line: string): string => {
+    const parts: string[] = [];
+    let current = '';
+    let octets = 0;
+
+    for (const char of line) {
+        const size = Buffer.byteLength(char);
+        if (octets + size > (parts.length > 0 ? 74 : 75)) {
+            parts.push(current);
+            current = '';
+            octets = 0;
+        }
+        current += char;
+        octets += size;
+    }
+    parts.push(current);
+
+    return `${parts.join('\r\n ')}\r\n`;
+};
+
+export const icsFormat: ExportFormatWriter = {
+    name: 'ics',
+    description: 'iCalendar file with an event for every scheduled meeting',
+    extension: 'ics',
+    contentType: 'text/calendar',
+    types: ['meeting'],
+    write: (data, output, options = {}) => writeText((async function* () {
+        const now = new Date();
+        const stamp = icsDate(now);
+        // Recurring events keep their wall-clock time across daylight saving changes only in a named timezone
+        const timezone = options.timezone || DEFAULT_TIMEZONE;
+        const localTimes = timezone !== DEFAULT_TIMEZONE;
+        const eventTime = (name: string, date: Date) => localTimes
+            ? `${name};TZID=${timezone}:${icsLocalDate(date, timezone)}`
+            : `${name}:${icsDate(date)}`;
+
+        yield icsLine('BEGIN:VCALENDAR');
+        yield icsLine('VERSION:2.0');
+        yield icsLine('PRODID:-//Name Spinner//Meeting Export//EN');
+        yield icsLine('CALSCALE:GREGORIAN');
+        yield icsLine('METHOD:PUBLISH');
+        if (localTimes) {
+            for (const line of icsTimezone(timezone, now)) {
+                yield icsLine(line);
+            }
+        }
+
+        const meetings = isRecordStream(data) ? data : [data];
+        for await (const meeting of meetings) {
+            // Only meetings with a start time make calendar events
+            if (!meeting.schedule?.startsAt) {
+                continue;
+            }
+
+            const startsAt = new Date(meeting.schedule.startsAt);
+            const duration = meeting.schedule.durationMinutes || DEFAULT_MEETING_DURATION_MINUTES;
+
+            yield icsLine('BEGIN:VEVENT');
+            yield icsLine(`UID:meeting-${meeting.id}@name-spinner`);
+            yield icsLine(`DTSTAMP:${stamp}`);
+            yield icsLine(eventTime('DTSTART', startsAt));
+            yield icsLine(eventTime('DTEND', new Date(startsAt.getTime() + duration * 60 * 1000)));
+            if (meeting.schedule.recurrence) {
+                yield icsLine(`RRULE:${meeting.schedule.recurrence}`);
+            }
+            yield icsLine(`SUMMARY:${icsText(meeting.name)}`);
+            if (meeting.description) {
+                yield icsLine(`DESCRIPTION:${icsText(meeting.description)}`);
+            }
+            if (meeting.department) {
+                yield icsLine(`CATEGORIES:${icsText(meeting.department)}`);
+            }
+            yield icsLine(`STATUS:${meeting.status === 'archived' ? 'CANCELLED' : 'CONFIRMED'}`);
+            if (meeting.updatedAt) {
+                yield icsLine(`LAST-MODIFIED:${icsDate(new Date(meeting.updatedAt))}`);
+            }
+            yield icsLine('END:VEVENT');
+        }
+
+        yield icsLine('END:VCALENDAR');
+    })(), output)
+};
+
+const registry = new Map<string, ExportFormatWriter>();
+
+/**
+ * Register an export format, replacing any existing one with the same name
+ */
+export const registerExportFormat = (format: ExportFormatWriter) => {
+    registry.set(format.name, format);
+};
+
+/**
+ * Look up a registered export format
+ */
+export const getExportFormat = (name: string): ExportFormatWriter | undefined => {
+    return registry.get(name);
+};
+
+/**
+ * List registered export formats
+ */
+export const listExportFormats = (): ExportFormatWriter[] => {
+    return Array.from(registry.values());
+};
+
+[
+    jsonFormat,
+    ndjsonFormat,
+    csvFormat,
+    excelFormat,
+    pdfFormat,
+    icsFormat
+].forEach(registerExportFormat);
@@ -0,0 +1,275 @@
+import cronParser from 'cron-parser';
+import ExportSchedule, { DeliveryTransportName, IExportSchedule } from '../models/ExportSchedule';
+import ExportJob, { ExportFormat } from '../models/ExportJob';
+import User from '../models/User';
+import { runUnscoped, runWithTenant } from '../models/plugins/tenantScope';
+import { ExportService } from './exportService';
+import { ExportType, getExportFormat } from './exportFormats';
+import { DeliveryFailure, getDeliveryTransport } from './deliveryTransports';
+import { getStorageProvider } from './storageProvider';
+
+const MIN_INTERVAL_MINUTES = parseInt(process.env.EXPORT_SCHEDULE_MIN_INTERVAL_MINUTES || '60', 10);
+// Due schedules started per scheduler tick, the rest wait for the next one
+const MAX_RUNS_PER_TICK = 100;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ExportScheduleInput {
+    name: string;
+    cron: string;
+    timezone: string;
+    type: ExportType;
+    format: ExportFormat;
+    filters?: IExportSchedule['filters'];
+    transport: DeliveryTransportName;
+    recipients?: string[];
+    includeSubscribers?: boolean;
+}
+
+export class ExportScheduleService {
+    /**
+     * First run of a cron expression after `after`, in the schedule's timezone
+     */
+    static nextRunAt(cron: string, timezone: string, after: Date = new Date()): Date {
+        return cronParser.parseExpression(cron, { currentDate: after, tz: timezone }).next().toDate();
+    }
+
+    /**
+     * Check a schedule definition, returning the problem with it or null when it is valid
+     */
+    static validateSchedule(input: ExportScheduleInput): string | null {
+        let runs: Date[];
+        try {
+            const interval = cronParser.parseExpression(input.cron, { tz: input.timezone });
+            runs = [interval.next().toDate(), interval.next().toDate()];
+        } catch {
+            return 'Invalid cron expression';
+        }
+        if (runs[1].getTime() - runs[0].getTime() < MIN_INTERVAL_MINUTES * 60 * 1000) {
+            return `Export schedules may run at most every ${MIN_INTERVAL_MINUTES} minutes`;
+        }
+
+        const writer = getExportFormat(input.format);
+        if (!writer) {
+            return 'Unsupported format';
+        }
+        if (writer.types && !writer.types.includes(input.type)) {
+            return `The ${input.format} format is only available for ${writer.types.join(', ')} exports`;
+        }
+
+        let transport;
+        try {
+            transport = getDeliveryTransport(input.transport);
+        } catch (error) {
+            return error instanceof Error ? error.message : 'Invalid transport';
+        }
+
+        const recipients = input.recipients || [];
+        const invalid = recipients.find(recipient => !transport.isValidRecipient(recipient));
+        if (invalid) {
+            return `Invalid ${input.transport} recipient: ${invalid}`;
+        }
+        if (input.includeSubscribers && input.transport !== 'smtp') {
+            return 'includeSubscribers is only available with the smtp transport';
+        }
+        if (recipients.length === 0 && !input.includeSubscribers && input.transport !== 'file') {
+            return 'At least one recipient is required';
+        }
+
+        return null;
+    }
+
+    /**
+     * Create an export schedule
+     */
+    static async createSchedule(input: ExportScheduleInput, createdBy?: string) {
+        const problem = this.validateSchedule(input);
+        if (problem) {
+            throw new Error(problem);
+        }
+
+        const schedule = new ExportSchedule({
+            ...input,
+            recipients: input.recipients || [],
+            createdBy,
+            nextRunAt: this.nextRunAt(input.cron, input.timezone)
+        });
+        await schedule.save();
+
+        return schedule;
+    }
+
+    /**
+     * List the organization's export schedules, newest first
+     */
+    static async listSchedules() {
+        return ExportSchedule.find().sort({ createdAt: -1 });
+    }
+
+    /**
+     * Delete an export schedule. Runs already started are no longer delivered.
+     */
+    static async deleteSchedule(scheduleId: string) {
+        const schedule = await ExportSchedule.findByIdAndDelete(scheduleId);
+        if (!schedule) {
+            throw new Error('Export schedule not found');
+        }
+        return schedule;
+    }
+
+    /**
+     * Start an export job for every active schedule that is due. Missed runs (e.g. while
+     * no worker was running) are caught up with a single run.
+     */
+    static async runDueSchedules(now: Date = new Date()) {
+        const due = await runUnscoped(() => ExportSchedule.find({
+            isActive: true,
+            nextRunAt: { $lte: now }
+        }).sort({ nextRunAt: 1 }).limit(MAX_RUNS_PER_TICK));
+
+        let started = 0;
+        for (const schedule of due) {
+            try {
+                await runWithTenant(schedule.organizationId.toString(), () => this.runSchedule(schedule, now));
+                started += 1;
+            } catch (error) {
+                console.error(`❌ Export schedule ${schedule._id} failed to start:`, error);
+            }
+        }
+
+        return started;
+    }
+
+    private static async runSchedule(schedule: IExportSchedule, now: Date) {
+        // Moving nextRunAt claims the run, so concurrent schedulers never start it twice
+        const claimed = await ExportSchedule.updateOne(
+            { _id: schedule._id, nextRunAt: schedule.nextRunAt },
+            { $set: { nextRunAt: this.nextRunAt(schedule.cron, schedule.timezone, now), lastRunAt: now } }
+        );
+        if (claimed.modifiedCount === 0) {
+            return;
+        }
+
+        const { lastDays, ...filters } = schedule.toObject().filters || {};
+        const job = await ExportService.createExportJob(
+            schedule.type,
+            schedule.format,
+            {
+                ...filters,
+                ...(lastDays && {
+                    dateRange: { start: new Date(now.getTime() - lastDays * DAY_MS), end: now }
+                })
+            },
+            {
+                organizationId: schedule.organizationId.toString(),
+                userId: schedule.createdBy?.toString(),
+                visibility: 'organization'
+            },
+            String(schedule._id)
+        );
+
+        await ExportSchedule.updateOne({ _id: schedule._id }, { $set: { lastExportJobId: job._id } });
+    }
+
+    /**
+     * Deliver a completed scheduled export through its schedule's transport. Throws so the queue can retry.
+     */
+    static async deliverScheduledExport(exportJobId: string) {
+        const job = await ExportJob.findById(exportJobId);
+        if (!job || job.status !== 'completed' || !job.storageKey || !job.fileName || !job.scheduleId) {
+            throw new Error('Export is not ready for delivery');
+        }
+        if (job.delivery?.status === 'delivered') {
+            return;
+        }
+
+        const schedule = await ExportSchedule.findById(job.scheduleId);
+        if (!schedule) {
+            // Deleted after the run started, nobody left to deliver to
+            await ExportJob.updateOne({ _id: job._id }, { $set: { delivery: { status: 'failed', error: 'Export schedule deleted' } } });
+            return;
+        }
+
+        const recipients = [...schedule.recipients];
+        if (schedule.includeSubscribers) {
+            // Users are not tenant-scoped, so the organization is matched explicitly
+            const subscribers = await User.find({
+                organizationId: job.organizationId,
+                isActive: true,
+                'settings.notifications.weeklyReports': true
+            }).select('email').lean();
+            recipients.push(...subscribers.map(user => user.email));
+        }
+
+        // Recipients reached by an earlier attempt are not sent the export again
+        const allRecipients = Array.from(new Set(recipients));
+        const previous = job.delivery?.recipients || [];
+        const reached = new Set(previous.filter(result => result.status === 'delivered').map(result => result.recipient));
+        const pending = allRecipients.filter(recipient => !reached.has(recipient));
+
+        const storage = getStorageProvider();
+        const storageKey = job.storageKey;
+        let failures: DeliveryFailure[] = [];
+        if (pending.length > 0 || allRecipients.length === 0) {
+            try {
+                failures = await getDeliveryTransport(schedule.transport).deliver({
+                    organizationId: job.organizationId.toString(),
+                    scheduleId: String(schedule._id),
+                    scheduleName: schedule.name,
+                    exportJobId,
+                    type: job.type,
+                    format: job.format,
+                    fileName: job.fileName,
+                    contentType: getExportFormat(job.format)?.contentType || 'application/octet-stream',
+                    generatedAt: job.completedAt || new Date(),
+                    openFile: () => storage.open(storageKey)
+                }, pending);
+            } catch (error) {
+                // Transports without recipients, such as the file drop, fail as a whole
+                if (pending.length === 0) throw error;
+                const message = error instanceof Error ? error.message : 'Unknown error';
+                failures = pending.map(recipient => ({ recipient, error: message }));
+            }
+        }
+
+        const deliveredAt = new Date();
+        const errorOf = new Map(failures.map(failure => [failure.recipient, failure.error]));
+        const results = [
+            ...previous.filter(result => result.status === 'delivered'),
+            ...pending.map(recipient => errorOf.has(recipient)
+                ? { recipient, status: 'failed' as const, error: errorOf.get(recipient) }
+                : { recipient, status: 'delivered' as const, deliveredAt })
+        ];
+
+        if (failures.length > 0) {
+            await ExportJob.updateOne({ _id: job._id }, { $set: { 'delivery.recipients': results } });
+            throw new Error(`Delivery failed for ${failures.length} of ${allRecipients.length} recipient(s): ${Array.from(new Set(errorOf.values())).join('; ')}`);
+        }
+
+        await ExportJob.updateOne({ _id: job._id }, { $set: { delivery: { status: 'delivered', deliveredAt, recipients: results } } });
+        await ExportSchedule.updateOne(
+            { _id: schedule._id },
+            { $set: { lastDelivery: { status: 'delivered', at: deliveredAt } } }
+        );
+    }
+
+    /**
+     * Record a failed delivery attempt, marking the delivery failed once the queue gives up
+     */
+    static async recordDeliveryFailure(exportJobId: string, error: unknown, willRetry: boolean) {
+        console.error(`Error delivering export job ${exportJobId}${willRetry ? ', will retry' : ''}:`, error);
+
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        const job = await ExportJob.findByIdAndUpdate(exportJobId, {
+            $set: { 'delivery.status': willRetry ? 'pending' : 'failed', 'delivery.error': message }
+        });
+
+        if (!willRetry && job?.scheduleId) {
+            await ExportSchedule.updateOne(
+                { _id: job.scheduleId },
+                { $set: { lastDelivery: { status: 'failed', at: new Date(), error: message } } }
+            );
+        }
+    }
+}
+
+export default ExportScheduleService;
@@ -1,53 +1,94 @@
 import fs from 'fs';
+import os from 'os';
 import path from 'path';
-import { createObjectCsvWriter } from 'csv-writer';
-import * as XLSX from 'xlsx';
+import { Writable } from 'stream';
 import { v4 as uuidv4 } from 'uuid';
+import jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
 import Meeting from '../models/meeting';
 import Participant from '../models/participant';
+import MeetingMembership from '../models/MeetingMembership';
 import SelectionRecord from '../models/SelectionRecord';
 import Team from '../models/Team';
-import ExportJob from '../models/ExportJob';
-import { AnalyticsService } from './analyticsService';
+import ExportJob, { ExportFormat, IExportJob } from '../models/ExportJob';
+import AuditLog from '../models/AuditLog';
+import { getCurrentTenantId, runUnscoped, runWithTenant } from '../models/plugins/tenantScope';
+import { getStorageProvider } from './storageProvider';
+import { ExportData, ExportRecord, ExportType, getExportFormat } from './exportFormats';
+import { AnalyticsFilters, AnalyticsService } from './analyticsService';
+import { MeetingMembershipService } from './meetingMembershipService';
+import { DailyStatsService } from './dailyStatsService';
+import { enqueueExport } from '../jobs/exportQueue';
+
+// Progress saved on the export job at each milestone, in percent
+const PROGRESS = {
+    started: 5,
+    fileGenerated: 85
+} as const;
+
+// Smallest progress increase worth saving while collecting data
+const PROGRESS_STEP = 5;
+
+type ItemTracker = (total: number) => () => Promise<void>;
+
+// Records whose related documents are looked up together, bounding queries in flight
+const BATCH_SIZE = 100;
+
+// Recent selections listed with each participant in participant exports
+const RECENT_SELECTIONS_PER_PARTICIPANT = 5;
+
+// Largest export served synchronously by the stream endpoint, bigger ones go through the queue
+const STREAM_MAX_RECORDS = parseInt(process.env.EXPORT_STREAM_MAX_RECORDS || '50000', 10);
+
+
+const DOWNLOAD_TOKEN_AUDIENCE = 'export-download';
+const DOWNLOAD_TOKEN_TTL_SECONDS = parseInt(process.env.EXPORT_DOWNLOAD_TOKEN_TTL_SECONDS || '300', 10);
+
+// Deliberately no `userId` claim, so a leaked download token cannot pass as a login token
+interface DownloadTokenPayload {
+    jobId: string;
+    organizationId: string;
+    requestedBy?: string;
+}
+
+export interface ExportOwner {
+    organizationId?: string;
+    userId?: string;
+    visibility?: 'organization' | 'owner';
+}
 
 export class ExportService {
-    private static EXPORT_DIR = path.join(process.cwd(), 'exports');
     private static EXPORT_EXPIRY_HOURS = 24;
 
     /**
-     * Initialize export directory
-     */
-    static initializeExportDirectory() {
-        if (!fs.existsSync(this.EXPORT_DIR)) {
-            fs.mkdirSync(this.EXPORT_DIR, { recursive: true });
-        }
-    }
-
-    /**
-     * Create export job
+     * Create export job, optionally on behalf of an export schedule that delivers it once completed
      */
     static async createExportJob(
-        type: 'meeting' | 'analytics' | 'participants' | 'teams',
-        format: 'json' | 'csv' | 'excel',
+        type: ExportType,
+        format: ExportFormat,
         filters: any = {},
-        userId?: string
+        owner: ExportOwner = {},
+        scheduleId?: string
     ) {
         try {
-            this.initializeExportDirectory();
+            const writer = this.getFormatFor(type, format);
 
             const exportJob = new ExportJob({
-                userId,
+                organizationId: owner.organizationId,
+                userId: owner.userId,
+                visibility: owner.visibility || 'organization',
                 type,
                 format,
-                filters,
+                filters: { ...filters, ...writer.requiredFilters },
+                scheduleId,
                 status: 'pending',
                 expiresAt: new Date(Date.now() + this.EXPORT_EXPIRY_HOURS * 60 * 60 * 1000)
             });
 
             await exportJob.save();
 
-            // Process export in background
-            this.processExportJob((exportJob._id as any).toString());
+            // Processed by the export worker, see src/jobs/exportWorker.ts
+            await enqueueExport(String(exportJob._id), exportJob.organizationId.toString());
 
             return exportJob;
         } catch (error) {
@@ -57,67 +98,227 @@ export class ExportService {
     }
 
     /**
-     * Process export job
+     * Claim a queued export for a queue job. Claims beyond the organization's concurrency
+     * limit are released again, the earliest started exports keeping their slots.
      */
-    static async processExportJob(jobId: string) {
+    static async claimExportJob(
+        jobId: string,
+        queueJobId: string,
+        maxConcurrent: number,
+        staleAfterMs: number
+    ): Promise<'claimed' | 'busy' | 'unavailable'> {
+        const job = await ExportJob.findOneAndUpdate(
+            {
+                _id: jobId,
+                // A queue job re-run after its worker stalled takes its export back
+                $or: [{ status: 'pending' }, { status: 'processing', queueJobId }]
+            },
+            {
+                $set: { status: 'processing', queueJobId, startedAt: new Date(), progress: 0 },
+                $unset: { error: 1 },
+                $inc: { attempts: 1 }
+            },
+            { new: true }
+        );
+        if (!job) {
+            return 'unavailable';
+        }
+
+        const runningAhead = await ExportJob.countDocuments({
+            _id: { $ne: job._id },
+            status: 'processing',
+            updatedAt: { $gte: new Date(Date.now() - staleAfterMs) },
+            $or: [
+                { startedAt: { $lt: job.startedAt } },
+                { startedAt: job.startedAt, _id: { $lt: job._id } }
+            ]
+        });
+
+        if (runningAhead >= maxConcurrent) {
+            await ExportJob.updateOne(
+                { _id: job._id, queueJobId },
+                { $set: { status: 'pending' }, $unset: { queueJobId: 1, startedAt: 1 }, $inc: { attempts: -1 } }
+            );
+            return 'busy';
+        }
+
+        return 'claimed';
+    }
+
+    /**
+     * Process a claimed export job, reporting progress as it goes. Throws so the queue can retry.
+     * Returns the completed job.
+     */
+    static async processExportJob(jobId: string, onProgress?: (percent: number) => Promise<void>) {
+        const job = await ExportJob.findById(jobId);
+        if (!job) {
+            throw new Error('Export job not found');
+        }
+
+        const reportProgress = async (percent: number) => {
+            await ExportJob.updateOne({ _id: job._id }, { $set: { progress: percent } });
+            await onProgress?.(percent);
+        };
+
+        await reportProgress(PROGRESS.started);
+        const trackItems = (total: number) => this.itemProgress(total, reportProgress);
+
+        // Records are read from cursors while the file is written
+        const data = await this.getExportData(job.type, job.filters, trackItems);
+
+        // Generate the file in a scratch directory, then stream it to storage
+        const writer = this.getFormatFor(job.type, job.format);
+        const fileName = `${job.type}-export-${uuidv4()}.${writer.extension}`;
+        const storageKey = `${job.organizationId}/${fileName}`;
+        const scratchPath = path.join(os.tmpdir(), fileName);
+
         try {
-            const job = await ExportJob.findById(jobId);
-            if (!job) {
-                throw new Error('Export job not found');
-            }
+            await this.generateFile(data, job.format, fs.createWriteStream(scratchPath));
+            await reportProgress(PROGRESS.fileGenerated);
+            await getStorageProvider().upload(storageKey, fs.createReadStream(scratchPath), writer.contentType);
+        } finally {
+            await fs.promises.rm(scratchPath, { force: true });
+        }
+
+        job.status = 'completed';
+        job.progress = 100;
+        job.completedAt = new Date();
+        job.fileName = fileName;
+        job.storageKey = storageKey;
+        if (job.scheduleId) {
+            job.delivery = { status: 'pending' };
+        }
+        await job.save();
+        await onProgress?.(100);
+
+        return job;
+    }
 
-            // Update status to processing
-            job.status = 'processing';
-            await job.save();
-
-            let data: any;
-
-            // Get data based on type
-            switch (job.type) {
-                case 'meeting':
-                    data = await this.getMeetingExportData(job.filters);
-                    break;
-                case 'analytics':
-                    data = await this.getAnalyticsExportData(job.filters);
-                    break;
-                case 'participants':
-                    data = await this.getParticipantsExportData(job.filters);
-                    break;
-                case 'teams':
-                    data = await this.getTeamsExportData(job.filters);
-                    break;
-                default:
-                    throw new Error('Invalid export type');
+    /**
+     * Record a failed attempt: the export goes back to pending while the queue will retry it
+     */
+    static async recordExportFailure(jobId: string, error: unknown, willRetry: boolean) {
+        console.error(`Error processing export job ${jobId}${willRetry ? ', will retry' : ''}:`, error);
+
+        await ExportJob.updateOne(
+            { _id: jobId },
+            {
+                $set: {
+                    status: willRetry ? 'pending' : 'failed',
+                    error: error instanceof Error ? error.message : 'Unknown error'
+                },
+                $unset: { queueJobId: 1 }
             }
+        );
+    }
 
-            // Generate file
-            const fileName = `${job.type}-export-${uuidv4()}.${job.format}`;
-            const filePath = path.join(this.EXPORT_DIR, fileName);
+    /**
+     * Prepare an export streamed straight into a response instead of going through the queue,
+     * for exports up to EXPORT_STREAM_MAX_RECORDS records. Records it in the audit log.
+     */
+    static async createExportStream(
+        type: ExportType,
+        format: ExportFormat,
+        filters: any = {},
+        context: { userId?: string; ipAddress?: string; userAgent?: string } = {}
+    ) {
+        const writer = this.getFormatFor(type, format);
+        const exportFilters = { ...filters, ...writer.requiredFilters };
 
-            await this.generateFile(data, job.format, filePath);
+        const total = await this.countExportRecords(type, exportFilters);
+        if (total > STREAM_MAX_RECORDS) {
+            throw new Error('Export too large to stream');
+        }
 
-            // Update job with download URL
-            job.status = 'completed';
-            job.downloadUrl = `/api/export/download/${fileName}`;
-            await job.save();
+        const fileName = `${type}-export-${new Date().toISOString().slice(0, 10)}.${writer.extension}`;
 
-        } catch (error) {
-            console.error('Error processing export job:', error);
-
-            // Update job with error
-            const job = await ExportJob.findById(jobId);
-            if (job) {
-                job.status = 'failed';
-                job.error = error instanceof Error ? error.message : 'Unknown error';
-                await job.save();
+        await AuditLog.create({
+            userId: context.userId,
+            action: 'export.stream',
+            resourceType: 'Organization',
+            resourceId: getCurrentTenantId(),
+            ipAddress: context.ipAddress,
+            userAgent: context.userAgent,
+            metadata: { type, format, filters: exportFilters, records: total }
+        });
+
+        return {
+            fileName,
+            contentType: writer.contentType,
+            records: total,
+            write: async (output: Writable) => {
+                const data = await this.getExportData(type, exportFilters);
+                await this.generateFile(data, format, output);
             }
+        };
+    }
+
+    /**
+     * Progress callback for exporting `total` items, spread between the started and
+     * file generated milestones and saved every few percent
+     */
+    private static itemProgress(total: number, reportProgress: (percent: number) => Promise<void>) {
+        let done = 0;
+        let reported: number = PROGRESS.started;
+
+        return async () => {
+            done += 1;
+            const percent = Math.floor(PROGRESS.started + (PROGRESS.fileGenerated - PROGRESS.started) * done / total);
+            if (percent - reported >= PROGRESS_STEP) {
+                reported = percent;
+                await reportProgress(percent);
+            }
+        };
+    }
+
+    /**
+     * Export data of a given type: a record stream for lists, a single document for analytics
+     */
+    private static async getExportData(type: ExportType, filters: any, trackItems?: ItemTracker): Promise<ExportData> {
+        switch (type) {
+            case 'meeting':
+                return this.getMeetingExportData(filters, trackItems);
+            case 'analytics':
+                return this.getAnalyticsExportData(filters);
+            case 'participants':
+                return this.getParticipantsExportData(filters, trackItems);
+            case 'teams':
+                return this.getTeamsExportData();
+            default:
+                throw new Error('Invalid export type');
         }
     }
 
     /**
-     * Get meeting export data
+     * Number of records an export would write, counting the rosters and selection history nested in meetings
      */
-    private static async getMeetingExportData(filters: any) {
+    private static async countExportRecords(type: ExportType, filters: any): Promise<number> {
+        switch (type) {
+            case 'meeting': {
+                const matchFilter = this.meetingExportMatch(filters);
+                const meetings = await Meeting.countDocuments(matchFilter);
+                if (!filters.includeHistory || meetings > STREAM_MAX_RECORDS) {
+                    return meetings;
+                }
+                const meetingIds = await Meeting.find(matchFilter).distinct('_id');
+                const [members, selections] = await Promise.all([
+                    MeetingMembership.countDocuments({ meetingId: { $in: meetingIds } }),
+                    SelectionRecord.countDocuments({ meetingId: { $in: meetingIds } })
+                ]);
+                return meetings + members + selections;
+            }
+            case 'analytics':
+                return 1;
+            case 'participants':
+                return Participant.countDocuments(this.participantExportMatch(filters));
+            case 'teams':
+                return Team.countDocuments();
+            default:
+                throw new Error('Invalid export type');
+        }
+    }
+
+    private static meetingExportMatch(filters: any) {
         const matchFilter: any = {};
 
         if (filters.meetingId) {
@@ -133,51 +334,114 @@ export class ExportService {
             };
         }
 
-        const meetings = await Meeting.find(matchFilter)
-            .populate('teamId', 'name')
-            .lean();
+        return matchFilter;
+    }
 
-        const exportData = [];
+    private static participantExportMatch(filters: any) {
+        const matchFilter: any = {};
 
-        for (const meeting of meetings) {
-            // Get participants for this meeting
-            const participants = await Participant.find({ meetingId: meeting._id }).lean();
+        if (filters.department) {
+            matchFilter.department = filters.department;
+        }
+        if (filters.teamId) {
+            matchFilter.teamId = filters.teamId;
+        }
+        if (filters.dateRange) {
+            matchFilter.createdAt = {
+                $gte: new Date(filters.dateRange.start),
+                $lte: new Date(filters.dateRange.end)
+            };
+        }
+
+        return matchFilter;
+    }
+
+    /**
+     * Group the items of a cursor into arrays of `size`
+     */
+    private static async *inBatches<T>(items: AsyncIterable<T>, size: number): AsyncIterable<T[]> {
+        let batch: T[] = [];
+        for await (const item of items) {
+            batch.push(item);
+            if (batch.length >= size) {
+                yield batch;
+                batch = [];
+            }
+        }
+        if (batch.length > 0) {
+            yield batch;
+        }
+    }
+
+    /**
+     * Selection records of a meeting, newest first. The query only runs once the writer reads them.
+     */
+    private static async *streamSelectionHistory(meetingId: mongoose.Types.ObjectId): AsyncIterable<ExportRecord> {
+        yield* SelectionRecord.find({ meetingId })
+            .sort({ selectedAt: -1 })
+            .lean()
+            .cursor({ batchSize: BATCH_SIZE });
+    }
+
+    /**
+     * Get meeting export data, one meeting at a time
+     */
+    private static async *getMeetingExportData(filters: any, trackItems?: ItemTracker): AsyncIterable<ExportRecord> {
+        const matchFilter = this.meetingExportMatch(filters);
+        const itemDone = trackItems?.(await Meeting.countDocuments(matchFilter));
+
+        const meetings = Meeting.find(matchFilter)
+            .populate('teamId', 'name')
+            .lean()
+            .cursor();
+
+        for await (const meeting of meetings) {
+            // Participants and selection history are only loaded when they are exported
+            let participants: any[] = [];
+            let participantCount: number;
 
-            // Get selection history if requested
-            let selectionHistory: string | any[] = [];
             if (filters.includeHistory) {
-                selectionHistory = await SelectionRecord.find({ meetingId: meeting._id })
-                    .sort({ selectedAt: -1 })
-                    .lean();
+                participants = await MeetingMembershipService.getRoster(meeting._id as mongoose.Types.ObjectId);
+                participantCount = participants.length;
+            } else {
+                participantCount = await MeetingMembership.countDocuments({ meetingId: meeting._id });
             }
 
-            exportData.push({
+            yield {
                 id: meeting._id,
                 name: meeting.name,
                 department: meeting.department,
                 description: meeting.description,
                 status: meeting.status,
                 team: meeting.teamId ? (meeting.teamId as any).name : null,
-                participantCount: participants.length,
-                totalSelections: selectionHistory.length,
+                participantCount,
+                totalSelections: await SelectionRecord.countDocuments({ meetingId: meeting._id }),
+                schedule: meeting.schedule,
                 settings: meeting.settings,
                 statistics: meeting.statistics,
                 createdAt: meeting.createdAt,
                 updatedAt: meeting.updatedAt,
                 ...(filters.includeHistory && {
                     participants,
-                    selectionHistory
+                    // Years of history do not fit in memory: the writer reads it from a cursor, newest first
+                    selectionHistory: this.streamSelectionHistory(meeting._id as mongoose.Types.ObjectId)
                 })
-            });
+            };
+            await itemDone?.();
         }
-
-        return exportData;
     }
 
     /**
      * Get analytics export data
      */
     private static async getAnalyticsExportData(filters: any) {
+        const analyticsFilters: AnalyticsFilters = {
+            teamId: filters.teamId,
+            department: filters.department,
+            from: filters.dateRange ? new Date(filters.dateRange.start) : undefined,
+            to: filters.dateRange ? new Date(filters.dateRange.end) : undefined
+        };
+
         const [
             overview,
             weeklyActivity,
@@ -186,12 +450,12 @@ export class ExportService {
             peakHours,
             engagement
         ] = await Promise.all([
-            AnalyticsService.getAnalyticsOverview(),
-            AnalyticsService.getWeeklyActivity(),
-            AnalyticsService.getDepartmentPerformance(),
-            AnalyticsService.getSelectionFairness(),
-            AnalyticsService.getPeakHours(),
-            AnalyticsService.getEngagementScore()
+            AnalyticsService.getAnalyticsOverview(analyticsFilters),
+            AnalyticsService.getWeeklyActivity(analyticsFilters),
+            AnalyticsService.getDepartmentPerformance(analyticsFilters),
+            AnalyticsService.getSelectionFairness(analyticsFilters),
+            AnalyticsService.getPeakHours(analyticsFilters),
+            AnalyticsService.getEngagementScore(analyticsFilters)
         ]);
 
         return {
@@ -207,42 +471,48 @@ export class ExportService {
     }
 
     /**
-     * Get participants export data
+     * Selection count and most recent selections of each participant of a batch, in one aggregate
      */
-    private static async getParticipantsExportData(filters: any) {
-        const matchFilter: any = {};
+    private static async getSelectionSummaries(participantIds: mongoose.Types.ObjectId[]) {
+        const summaries = await SelectionRecord.aggregate([
+            { $match: { participantId: { $in: participantIds } } },
+            {
+                $group: {
+                    _id: '$participantId',
+                    selectionCount: { $sum: 1 },
+                    recentSelections: {
+                        $topN: { n: RECENT_SELECTIONS_PER_PARTICIPANT, sortBy: { selectedAt: -1 }, output: '$$ROOT' }
+                    }
+                }
+            }
+        ]);
 
-        if (filters.department) {
-            matchFilter.department = filters.department;
-        }
-        if (filters.teamId) {
-            matchFilter.teamId = filters.teamId;
-        }
-        if (filters.dateRange) {
-            matchFilter.createdAt = {
-                $gte: new Date(filters.dateRange.start),
-                $lte: new Date(filters.dateRange.end)
-            };
-        }
+        return new Map<string, { selectionCount: number; recentSelections: any[] }>(
+            summaries.map(summary => [summary._id.toString(), summary])
+        );
+    }
+
+    /**
+     * Get participants export data, looking up selections a batch of participants at a time
+     */
+    private static async *getParticipantsExportData(filters: any, trackItems?: ItemTracker): AsyncIterable<ExportRecord> {
+        const matchFilter = this.participantExportMatch(filters);
+        const itemDone = trackItems?.(await Participant.countDocuments(matchFilter));
 
-        const participants = await Participant.find(matchFilter)
+        const participants = Participant.find(matchFilter)
             .populate('teamId', 'name')
-            .populate('meetingId', 'name department')
-            .lean();
-
-        // Get selection counts for each participant
-        const participantData = await Promise.all(
-            participants.map(async (participant) => {
-                const selectionCount = await SelectionRecord.countDocuments({
-                    participantId: participant._id
-                });
-
-                const recentSelections = await SelectionRecord.find({
-                    participantId: participant._id
-                })
-                    .sort({ selectedAt: -1 })
-                    .limit(5)
-                    .lean();
+            .lean()
+            .cursor({ batchSize: BATCH_SIZE });
+
+        for await (const batch of this.inBatches(participants, BATCH_SIZE)) {
+            const participantIds = batch.map(participant => participant._id as mongoose.Types.ObjectId);
+            const [meetingsOf, selectionsOf] = await Promise.all([
+                MeetingMembershipService.getMeetingsOf(participantIds),
+                this.getSelectionSummaries(participantIds)
+            ]);
+
+            const participantData = batch.map(participant => {
+                const { selectionCount, recentSelections } = selectionsOf.get(participant._id.toString()) || { selectionCount: 0, recentSelections: [] };
 
                 return {
                     id: participant._id,
@@ -251,7 +521,7 @@ export class ExportService {
                     role: participant.role,
                     department: participant.department,
                     team: participant.teamId ? (participant.teamId as any).name : null,
-                    meeting: participant.meetingId ? (participant.meetingId as any).name : null,
+                    meetings: (meetingsOf.get(participant._id.toString()) || []).map(meeting => meeting.name),
                     selectionCount,
                     totalMeetings: participant.totalMeetings,
                     lastSelected: participant.lastSelected,
@@ -260,221 +530,230 @@ export class ExportService {
                     createdAt: participant.createdAt,
                     updatedAt: participant.updatedAt
                 };
-            })
-        );
+            });
 
-        return participantData;
+            for (const record of participantData) {
+                yield record;
+                await itemDone?.();
+            }
+        }
     }
 
     /**
      * Get teams export data
      */
-    private static async getTeamsExportData(filters: any) {
-        const teams = await Team.find()
+    private static async *getTeamsExportData(): AsyncIterable<ExportRecord> {
+        const teams = Team.find()
             .populate('leadId', 'name email')
             .populate('members.participantId', 'name email department')
-            .lean();
-
-        const teamsData = await Promise.all(
-            teams.map(async (team) => {
-                // Get team statistics
-                const teamMeetings = await Meeting.countDocuments({ teamId: team._id });
-                const teamSelections = await SelectionRecord.countDocuments({ teamId: team._id });
-
-                return {
-                    id: team._id,
-                    name: team.name,
-                    description: team.description,
-                    color: team.color,
-                    lead: team.leadId ? {
-                        name: (team.leadId as any).name,
-                        email: (team.leadId as any).email
-                    } : null,
-                    memberCount: team.members.length,
-                    members: team.members.map(member => ({
-                        name: (member.participantId as any).name,
-                        email: (member.participantId as any).email,
-                        department: (member.participantId as any).department,
-                        role: member.role,
-                        joinedAt: member.joinedAt
-                    })),
-                    totalMeetings: teamMeetings,
-                    totalSelections: teamSelections,
-                    createdAt: team.createdAt,
-                    updatedAt: team.updatedAt
-                };
-            })
-        );
-
-        return teamsData;
-    }
-
-    /**
-     * Generate file in specified format
-     */
-    private static async generateFile(data: any, format: string, filePath: string) {
-        switch (format) {
-            case 'json':
-                await fs.promises.writeFile(filePath, JSON.stringify(data, null, 2));
-                break;
-
-            case 'csv':
-                await this.generateCSV(data, filePath);
-                break;
-
-            case 'excel':
-                await this.generateExcel(data, filePath);
-                break;
+            .lean()
+            .cursor({ batchSize: BATCH_SIZE });
+
+        for await (const batch of this.inBatches(teams, BATCH_SIZE)) {
+            const teamsData = await Promise.all(
+                batch.map(async (team) => {
+                    // Get team statistics
+                    const teamMeetings = await Meeting.countDocuments({ teamId: team._id });
+                    const teamSelections = await SelectionRecord.countDocuments({ teamId: team._id });
+
+                    return {
+                        id: team._id,
+                        name: team.name,
+                        description: team.description,
+                        color: team.color,
+                        lead: team.leadId ? {
+                            name: (team.leadId as any).name,
+                            email: (team.leadId as any).email
+                        } : null,
+                        memberCount: team.members.length,
+                        members: team.members.map(member => ({
+                            name: (member.participantId as any).name,
+                            email: (member.participantId as any).email,
+                            department: (member.participantId as any).department,
+                            role: member.role,
+                            joinedAt: member.joinedAt
+                        })),
+                        totalMeetings: teamMeetings,
+                        totalSelections: teamSelections,
+                        createdAt: team.createdAt,
+                        updatedAt: team.updatedAt
+                    };
+                })
+            );
 
-            default:
-                throw new Error('Unsupported format');
+            yield* teamsData;
         }
     }
 
     /**
-     * Generate CSV file
+     * Write export data to `output` with the registered writer of the format
      */
-    private static async generateCSV(data: any, filePath: string) {
-        // Flatten data for CSV format
-        const flatData = Array.isArray(data) ? data : [data];
-
-        if (flatData.length === 0) {
-            await fs.promises.writeFile(filePath, 'No data available');
-            return;
+    private static async generateFile(data: ExportData, format: ExportFormat, output: Writable) {
+        const writer = getExportFormat(format);
+        if (!writer) {
+            throw new Error('Unsupported format');
         }
 
-        // Get headers from first object
-        const headers = this.getCSVHeaders(flatData[0]);
-
-        const csvWriter = createObjectCsvWriter({
-            path: filePath,
-            header: headers
-        });
-
-        const records = flatData.map(item => this.flattenObject(item));
-        await csvWriter.writeRecords(records);
+        await writer.write(data, output, { timezone: await DailyStatsService.getTimezone() });
     }
 
     /**
-     * Generate Excel file
+     * Look up the writer of a format, checking it can represent the export type
      */
-    private static async generateExcel(data: any, filePath: string) {
-        const workbook = XLSX.utils.book_new();
-
-        if (Array.isArray(data)) {
-            // Create worksheet from array
-            const worksheet = XLSX.utils.json_to_sheet(data.map(item => this.flattenObject(item)));
-            XLSX.utils.book_append_sheet(workbook, worksheet, 'Data');
-        } else {
-            // Create multiple worksheets for complex data
-            for (const [key, value] of Object.entries(data)) {
-                if (Array.isArray(value)) {
-                    const worksheet = XLSX.utils.json_to_sheet(
-                        value.map(item => this.flattenObject(item))
-                    );
-                    XLSX.utils.book_append_sheet(workbook, worksheet, key);
-                } else {
-                    const worksheet = XLSX.utils.json_to_sheet([this.flattenObject(value)]);
-                    XLSX.utils.book_append_sheet(workbook, worksheet, key);
-                }
-            }
+    private static getFormatFor(type: ExportType, format: ExportFormat) {
+        const writer = getExportFormat(format);
+        if (!writer) {
+            throw new Error('Unsupported format');
         }
-
-        XLSX.writeFile(workbook, filePath);
-    }
-
-    /**
-     * Get CSV headers from object
-     */
-    private static getCSVHeaders(obj: any): Array<{ id: string, title: string }> {
-        const flattened = this.flattenObject(obj);
-        return Object.keys(flattened).map(key => ({ id: key, title: key }));
+        if (writer.types && !writer.types.includes(type)) {
+            throw new Error(`The ${format} format is not available for ${type} exports`);
+        }
+        return writer;
     }
 
     /**
-     * Flatten object for CSV/Excel export
+     * Whether a user may see and download an export job
      */
-    private static flattenObject(obj: any, prefix: string = ''): any {
-        const flattened: any = {};
-
-        for (const key in obj) {
-            if (obj.hasOwnProperty(key)) {
-                const newKey = prefix ? `${prefix}.${key}` : key;
-
-                if (obj[key] === null || obj[key] === undefined) {
-                    flattened[newKey] = '';
-                } else if (typeof obj[key] === 'object' && !Array.isArray(obj[key]) && !(obj[key] instanceof Date)) {
-                    Object.assign(flattened, this.flattenObject(obj[key], newKey));
-                } else if (Array.isArray(obj[key])) {
-                    flattened[newKey] = JSON.stringify(obj[key]);
-                } else {
-                    flattened[newKey] = obj[key];
-                }
-            }
-        }
-
-        return flattened;
+    static canAccessExportJob(job: IExportJob, userId?: string): boolean {
+        return job.visibility !== 'owner' || (!!userId && job.userId?.toString() === userId);
     }
 
     /**
-     * Get export job status
+     * Get export job status, with a short-lived download URL once it has completed
      */
-    static async getExportJobStatus(jobId: string) {
+    static async getExportJobStatus(jobId: string, userId?: string) {
         const job = await ExportJob.findById(jobId);
-        if (!job) {
+        if (!job || !this.canAccessExportJob(job, userId)) {
             throw new Error('Export job not found');
         }
 
+        const download = job.status === 'completed' && job.storageKey
+            ? this.createDownloadToken(job, userId)
+            : null;
+
         return {
             id: job._id,
             type: job.type,
             format: job.format,
+            visibility: job.visibility,
             status: job.status,
-            downloadUrl: job.downloadUrl,
+            progress: job.progress,
+            attempts: job.attempts,
+            downloadUrl: download ? `/api/export/download/${download.token}` : undefined,
+            downloadUrlExpiresAt: download?.expiresAt,
             error: job.error,
             createdAt: job.createdAt,
+            startedAt: job.startedAt,
+            completedAt: job.completedAt,
             expiresAt: job.expiresAt
         };
     }
 
     /**
-     * Get file for download
+     * Sign a download token binding an export job to its organization and the requesting user
      */
-    static getDownloadFilePath(fileName: string): string {
-        const filePath = path.join(this.EXPORT_DIR, fileName);
+    private static createDownloadToken(job: IExportJob, userId?: string) {
+        const token = jwt.sign(
+            {
+                jobId: String(job._id),
+                organizationId: job.organizationId.toString(),
+                requestedBy: userId
+            },
+            this.downloadTokenSecret(),
+            { audience: DOWNLOAD_TOKEN_AUDIENCE, expiresIn: DOWNLOAD_TOKEN_TTL_SECONDS }
+        );
 
-        if (!fs.existsSync(filePath)) {
-            throw new Error('File not found or expired');
-        }
+        return { token, expiresAt: new Date(Date.now() + DOWNLOAD_TOKEN_TTL_SECONDS * 1000) };
+    }
 
-        return filePath;
+    private static downloadTokenSecret(): string {
+        return process.env.EXPORT_DOWNLOAD_SECRET || process.env.JWT_SECRET || 'fallback-secret';
     }
 
     /**
-     * Clean up expired exports
+     * Resolve a download token to its export file, recording the download in the audit log.
+     * Returns a URL to redirect to when the storage provider serves files itself, or a stream.
      */
-    static async cleanupExpiredExports() {
+    static async getDownload(token: string, context: { ipAddress?: string; userAgent?: string } = {}) {
+        let payload: DownloadTokenPayload;
         try {
-            // Delete expired jobs from database
-            await ExportJob.deleteMany({
-                expiresAt: { $lt: new Date() }
+            payload = jwt.verify(token, this.downloadTokenSecret(), { audience: DOWNLOAD_TOKEN_AUDIENCE }) as DownloadTokenPayload;
+        } catch {
+            throw new Error('Invalid or expired download token');
+        }
+
+        return runWithTenant(payload.organizationId, async () => {
+            const job = await ExportJob.findById(payload.jobId);
+            if (!job || !this.canAccessExportJob(job, payload.requestedBy)) {
+                throw new Error('Export job not found');
+            }
+            if (job.status !== 'completed' || !job.storageKey || !job.fileName) {
+                throw new Error('Export is not ready for download');
+            }
+
+            const storage = getStorageProvider();
+            const contentType = getExportFormat(job.format)?.contentType || 'application/octet-stream';
+            const redirectUrl = await storage.getDownloadUrl(job.storageKey, {
+                fileName: job.fileName,
+                contentType,
+                expiresInSeconds: DOWNLOAD_TOKEN_TTL_SECONDS
+            });
+            const file = redirectUrl ? null : await storage.open(job.storageKey);
+
+            await AuditLog.create({
+                userId: payload.requestedBy,
+                action: 'export.download',
+                resourceType: 'ExportJob',
+                resourceId: job._id,
+                ipAddress: context.ipAddress,
+                userAgent: context.userAgent,
+                metadata: { type: job.type, format: job.format, fileName: job.fileName, storage: storage.driver }
             });
 
-            // Clean up files older than expiry time
-            const files = await fs.promises.readdir(this.EXPORT_DIR);
+            return {
+                fileName: job.fileName,
+                contentType,
+                redirectUrl,
+                stream: file?.stream,
+                size: file?.size
+            };
+        });
+    }
+
+    /**
+     * Clean up expired exports: delete expired jobs with their files, then any stored file
+     * older than the expiry time (e.g. left behind by jobs removed by the TTL index)
+     */
+    static async cleanupExpiredExports() {
+        try {
+            const storage = getStorageProvider();
             const now = Date.now();
-            const expiryTime = this.EXPORT_EXPIRY_HOURS * 60 * 60 * 1000;
+            let deletedFiles = 0;
+
+            const expiredJobs = await runUnscoped(() => ExportJob.find({
+                expiresAt: { $lt: new Date(now) }
+            }).select('_id storageKey').lean());
+
+            for (const job of expiredJobs) {
+                if (job.storageKey) {
+                    await storage.delete(job.storageKey);
+                    deletedFiles += 1;
+                }
+            }
 
-            for (const file of files) {
-                const filePath = path.join(this.EXPORT_DIR, file);
-                const stats = await fs.promises.stat(filePath);
+            await runUnscoped(() => ExportJob.deleteMany({
+                _id: { $in: expiredJobs.map(job => job._id) }
+            }));
 
-                if (now - stats.mtime.getTime() > expiryTime) {
-                    await fs.promises.unlink(filePath);
+            const expiryTime = this.EXPORT_EXPIRY_HOURS * 60 * 60 * 1000;
+            for await (const object of storage.list()) {
+                if (now - object.lastModified.getTime() > expiryTime) {
+                    await storage.delete(object.key);
+                    deletedFiles += 1;
                 }
             }
 
-            console.log('Cleaned up expired exports');
+            console.log(`Cleaned up ${expiredJobs.length} expired export job(s) and ${deletedFiles} file(s)`);
         } catch (error) {
             console.error('Error cleaning up expired exports:', error);
         }
@@ -0,0 +1,138 @@
+// Iteration limits and precision for the incomplete gamma function
+const GAMMA_MAX_ITERATIONS = 200;
+const GAMMA_EPSILON = 1e-12;
+const GAMMA_FPMIN = 1e-300;
+
+// Pearson's test is unreliable when expected cell counts drop below this
+export const MIN_EXPECTED_COUNT = 5;
+
+export interface ChiSquareResult {
+    statistic: number;
+    degreesOfFreedom: number;
+    pValue: number;
+}
+
+export class FairnessStatistics {
+
+    /**
+     * Gini coefficient of a distribution: 0 is perfectly even, 1 is one person picked every time
+     */
+    static giniCoefficient(counts: number[]): number {
+        const total = counts.reduce((sum, c) => sum + c, 0);
+        if (counts.length === 0 || total === 0) {
+            return 0;
+        }
+
+        const sorted = [...counts].sort((a, b) => a - b);
+        const weightedSum = sorted.reduce((sum, c, i) => sum + (i + 1) * c, 0);
+        const n = sorted.length;
+
+        return (2 * weightedSum) / (n * total) - (n + 1) / n;
+    }
+
+    /**
+     * Pearson chi-square goodness-of-fit of observed counts against expected counts
+     */
+    static chiSquareGoodnessOfFit(observed: number[], expected: number[]): ChiSquareResult {
+        const statistic = observed.reduce((sum, o, i) => {
+            const e = expected[i];
+            return e > 0 ? sum + Math.pow(o - e, 2) / e : sum;
+        }, 0);
+        const degreesOfFreedom = Math.max(0, observed.length - 1);
+
+        return {
+            statistic,
+            degreesOfFreedom,
+            pValue: degreesOfFreedom > 0 ? this.chiSquarePValue(statistic, degreesOfFreedom) : 1
+        };
+    }
+
+    /**
+     * Upper-tail probability of the chi-square distribution
+     */
+    static chiSquarePValue(statistic: number, degreesOfFreedom: number): number {
+        if (statistic <= 0) {
+            return 1;
+        }
+        return this.regularizedGammaQ(degreesOfFreedom / 2, statistic / 2);
+    }
+
+    /**
+     * Ratio of the most to the least selected count; null when someone was never selected
+     */
+    static maxMinRatio(counts: number[]): number | null {
+        if (counts.length === 0) {
+            return null;
+        }
+        const min = Math.min(...counts);
+        return min > 0 ? Math.max(...counts) / min : null;
+    }
+
+    /**
+     * Regularized upper incomplete gamma Q(a, x), by series below a + 1 and continued fraction above
+     */
+    private static regularizedGammaQ(a: number, x: number): number {
+        if (x < a + 1) {
+            return 1 - this.gammaSeries(a, x);
+        }
+        return this.gammaContinuedFraction(a, x);
+    }
+
+    private static gammaSeries(a: number, x: number): number {
+        let ap = a;
+        let sum = 1 / a;
+        let term = sum;
+
+        for (let i = 0; i < GAMMA_MAX_ITERATIONS; i++) {
+            ap += 1;
+            term *= x / ap;
+            sum += term;
+            if (Math.abs(term) < Math.abs(sum) * GAMMA_EPSILON) break;
+        }
+
+        return sum * Math.exp(-x + a * Math.log(x) - this.logGamma(a));
+    }
+
+    private static gammaContinuedFraction(a: number, x: number): number {
+        let b = x + 1 - a;
+        let c = 1 / GAMMA_FPMIN;
+        let d = 1 / b;
+        let h = d;
+
+        for (let i = 1; i <= GAMMA_MAX_ITERATIONS; i++) {
+            const an = -i * (i - a);
+            b += 2;
+            d = an * d + b;
+            if (Math.abs(d) < GAMMA_FPMIN) d = GAMMA_FPMIN;
+            c = b + an / c;
+            if (Math.abs(c) < GAMMA_FPMIN) c = GAMMA_FPMIN;
+            d = 1 / d;
+            const delta = d * c;
+            h *= delta;
+            if (Math.abs(delta - 1) < GAMMA_EPSILON) break;
+        }
+
+        return Math.exp(-x + a * Math.log(x) - this.logGamma(a)) * h;
+    }
+
+    /**
+     * Lanczos approximation of ln(Γ(x))
+     */
+    private static logGamma(x: number): number {
+        const coefficients = [
+            76.18009172947146, -86.50532032941678, 24.01409824083091,
+            -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5
+        ];
+
+        let y = x;
+        const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+        let series = 1.000000000190015;
+        for (const coefficient of coefficients) {
+            series += coefficient / ++y;
+        }
+
+        return -tmp + Math.log((2.5066282746310007 * series) / x);
+    }
+}
+
+export default FairnessStatistics;
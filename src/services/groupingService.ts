@@ -0,0 +1,429 @@
+import mongoose from 'mongoose';
+import GroupRound, { GROUP_BALANCE_FIELDS, GROUPING_MODES, GroupBalanceField, GroupingMode, IGroupRound } from '../models/GroupRound';
+import { IMeeting } from '../models/meeting';
+import { IParticipant } from '../models/participant';
+import { RandomnessService } from './randomness';
+import { SelectionService } from './selectionService';
+
+const MAX_GROUPS = 100;
+const MAX_AVOID_REPEAT_ROUNDS = 50;
+
+// Pairing rotation looks this many rounds back unless told otherwise
+const DEFAULT_PAIR_HISTORY_ROUNDS = 20;
+
+// Independent attempts at a partition, the cheapest wins
+const RESTARTS = 8;
+const MAX_IMPROVEMENT_PASSES = 20;
+
+// Partitioning runs on the event loop: the roster size is capped, and the search stops improving once out of time
+const MAX_PARTICIPANTS = parseInt(process.env.GROUPING_MAX_PARTICIPANTS || '500', 10);
+const TIME_BUDGET_MS = parseInt(process.env.GROUPING_TIME_BUDGET_MS || '250', 10);
+
+// Cost of each way a partition can fall short, from hard to soft
+const APART_COST = 10000;
+const SIZE_COST = 100;
+const REPEAT_PAIR_COST = 10;
+const BALANCE_COST = 4;
+
+export interface GroupRequest {
+    mode?: GroupingMode;
+    groupCount?: number;
+    groupSize?: number;
+    department?: string;
+    balanceBy?: GroupBalanceField;
+    avoidRepeatRounds?: number;
+    together?: string[][];
+    apart?: string[][];
+    dryRun?: boolean;
+}
+
+/**
+ * A participant as far as grouping is concerned
+ */
+export interface GroupMember {
+    id: string;
+    department?: string;
+    teamId?: string;
+}
+
+export interface PartitionOptions {
+    groupCount: number;
+    balanceBy?: GroupBalanceField;
+    together: string[][];
+    apart: string[][];
+    // How much each pair that already shared a group should be avoided, keyed by pairKey
+    pastPairs: Map<string, number>;
+}
+
+export interface Partition {
+    groups: string[][];
+    repeatedPairs: number;
+    unmetConstraints: string[];
+}
+
+const pairKey = (a: string, b: string) => (a < b ? `${a}:${b}` : `${b}:${a}`);
+
+export class GroupingService {
+    /**
+     * Validate a grouping request, returning an error message or null
+     */
+    static validate(request: any): string | null {
+        if (!request || typeof request !== 'object') {
+            return 'Invalid grouping request';
+        }
+        if (request.mode !== undefined && !GROUPING_MODES.includes(request.mode)) {
+            return `mode must be one of: ${GROUPING_MODES.join(', ')}`;
+        }
+        if (request.mode === 'pairs') {
+            if (request.groupCount !== undefined || request.groupSize !== undefined) {
+                return 'Pairs mode does not take groupCount or groupSize';
+            }
+        } else if ((request.groupCount === undefined) === (request.groupSize === undefined)) {
+            return 'Exactly one of groupCount or groupSize is required';
+        }
+        if (request.groupCount !== undefined &&
+            !(Number.isInteger(request.groupCount) && request.groupCount >= 1 && request.groupCount <= MAX_GROUPS)) {
+            return `groupCount must be a whole number from 1 to ${MAX_GROUPS}`;
+        }
+        if (request.groupSize !== undefined && !(Number.isInteger(request.groupSize) && request.groupSize >= 2)) {
+            return 'groupSize must be a whole number of at least 2';
+        }
+        if (request.balanceBy !== undefined && !GROUP_BALANCE_FIELDS.includes(request.balanceBy)) {
+            return `balanceBy must be one of: ${GROUP_BALANCE_FIELDS.join(', ')}`;
+        }
+        if (request.avoidRepeatRounds !== undefined &&
+            !(Number.isInteger(request.avoidRepeatRounds) && request.avoidRepeatRounds >= 0 && request.avoidRepeatRounds <= MAX_AVOID_REPEAT_ROUNDS)) {
+            return `avoidRepeatRounds must be a whole number from 0 to ${MAX_AVOID_REPEAT_ROUNDS}`;
+        }
+        for (const field of ['together', 'apart']) {
+            const sets = request[field];
+            if (sets === undefined) continue;
+            if (!Array.isArray(sets) || sets.some(set =>
+                !Array.isArray(set) || set.length < 2 || set.some(id => typeof id !== 'string' || !mongoose.Types.ObjectId.isValid(id)))) {
+                return `${field} must be a list of participant ID lists, each with at least two IDs`;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Number of groups for a roster size: N groups, groups of about K, or pairs (a trio when the count is odd)
+     */
+    static resolveGroupCount(memberCount: number, request: GroupRequest): number {
+        if (request.mode === 'pairs') {
+            return Math.max(1, Math.floor(memberCount / 2));
+        }
+        if (request.groupCount) {
+            return Math.max(1, Math.min(request.groupCount, memberCount));
+        }
+        return Math.max(1, Math.floor(memberCount / request.groupSize!));
+    }
+
+    /**
+     * Pairs from past rounds, the most recent weighing the most. Returns an empty map for no rounds.
+     */
+    static pastPairWeights(rounds: Array<Pick<IGroupRound, 'groups'>>): Map<string, number> {
+        const weights = new Map<string, number>();
+        rounds.forEach((round, age) => {
+            const weight = rounds.length - age;
+            for (const group of round.groups) {
+                const ids = group.participantIds.map(id => id.toString());
+                for (let i = 0; i < ids.length; i++) {
+                    for (let j = i + 1; j < ids.length; j++) {
+                        const key = pairKey(ids[i], ids[j]);
+                        weights.set(key, (weights.get(key) || 0) + weight);
+                    }
+                }
+            }
+        });
+        return weights;
+    }
+
+    /**
+     * Split members into groups of even size. Keep-together sets are never split; keep-apart sets,
+     * repeat pairs and department or team balance are met as far as possible, in that order.
+     * Once the time budget is spent, the best partition found so far is returned.
+     */
+    static partition(members: GroupMember[], options: PartitionOptions, random: () => number = RandomnessService.secureRandom): Partition {
+        if (members.length > MAX_PARTICIPANTS) {
+            throw new Error('Too many participants to group');
+        }
+        const deadline = Date.now() + TIME_BUDGET_MS;
+        const outOfTime = () => Date.now() > deadline;
+
+        const memberIds = new Set(members.map(m => m.id));
+        const byId = new Map(members.map(m => [m.id, m]));
+        const groupCount = Math.max(1, Math.min(options.groupCount, members.length));
+        const capacity = Math.ceil(members.length / groupCount);
+        const idealSize = members.length / groupCount;
+
+        // Units: members that must share a group, merged across overlapping keep-together sets
+        const unitOf = new Map<string, string[]>(members.map(m => [m.id, [m.id]]));
+        for (const set of options.together) {
+            const present = set.filter(id => memberIds.has(id));
+            for (const id of present.slice(1)) {
+                const target = unitOf.get(present[0])!;
+                const source = unitOf.get(id)!;
+                if (target === source) continue;
+                target.push(...source);
+                for (const moved of source) {
+                    unitOf.set(moved, target);
+                }
+            }
+        }
+        const units = [...new Set(unitOf.values())];
+        if (units.some(unit => unit.length > capacity)) {
+            throw new Error('A keep-together set is larger than the groups');
+        }
+
+        const apartPairs = new Set<string>();
+        for (const set of options.apart) {
+            const present = set.filter(id => memberIds.has(id));
+            for (let i = 0; i < present.length; i++) {
+                for (let j = i + 1; j < present.length; j++) {
+                    if (unitOf.get(present[i]) === unitOf.get(present[j])) {
+                        throw new Error('Participants cannot be kept both together and apart');
+                    }
+                    apartPairs.add(pairKey(present[i], present[j]));
+                }
+            }
+        }
+
+        const valueOf = (id: string) => {
+            const member = byId.get(id)!;
+            return options.balanceBy === 'team' ? member.teamId || '' : member.department || '';
+        };
+        const shares = new Map<string, number>();
+        if (options.balanceBy) {
+            for (const member of members) {
+                const value = valueOf(member.id);
+                shares.set(value, (shares.get(value) || 0) + 1 / members.length);
+            }
+        }
+
+        const groupCost = (group: string[]): number => {
+            let cost = SIZE_COST * Math.pow(group.length - idealSize, 2);
+            for (let i = 0; i < group.length; i++) {
+                for (let j = i + 1; j < group.length; j++) {
+                    const key = pairKey(group[i], group[j]);
+                    if (apartPairs.has(key)) cost += APART_COST;
+                    cost += REPEAT_PAIR_COST * (options.pastPairs.get(key) || 0);
+                }
+            }
+            if (options.balanceBy) {
+                const counts = new Map<string, number>();
+                for (const id of group) {
+                    counts.set(valueOf(id), (counts.get(valueOf(id)) || 0) + 1);
+                }
+                for (const [value, share] of shares) {
+                    cost += BALANCE_COST * Math.pow((counts.get(value) || 0) - group.length * share, 2);
+                }
+            }
+            return cost;
+        };
+
+        const attempt = (): { groups: string[][][]; cost: number } => {
+            // Largest units first, in random order within a size
+            const order = units
+                .map(unit => ({ unit, key: random() }))
+                .sort((a, b) => b.unit.length - a.unit.length || a.key - b.key)
+                .map(entry => entry.unit);
+
+            const groups: string[][][] = Array.from({ length: groupCount }, () => []);
+            const sizeOf = (group: string[][]) => group.reduce((sum, unit) => sum + unit.length, 0);
+            const flat = (group: string[][]) => group.flat();
+
+            for (const unit of order) {
+                let best = -1;
+                let bestDelta = Infinity;
+                // Out of time, units just fill the emptiest group below
+                groups.forEach((group, index) => {
+                    if (outOfTime() || sizeOf(group) + unit.length > capacity) return;
+                    const delta = groupCost([...flat(group), ...unit]) - groupCost(flat(group));
+                    if (delta < bestDelta) {
+                        best = index;
+                        bestDelta = delta;
+                    }
+                });
+                // Every group is full for this unit: the emptiest one takes it
+                if (best === -1) {
+                    best = groups.reduce((emptiest, group, index) => (sizeOf(group) < sizeOf(groups[emptiest]) ? index : emptiest), 0);
+                }
+                groups[best].push(unit);
+            }
+
+            // Swap or move units between groups while that lowers the cost
+            const costs = groups.map(group => groupCost(flat(group)));
+            for (let pass = 0; pass < MAX_IMPROVEMENT_PASSES && !outOfTime(); pass++) {
+                let improved = false;
+                for (let a = 0; a < groups.length; a++) {
+                    for (let b = a + 1; b < groups.length; b++) {
+                        for (let i = 0; i < groups[a].length && !outOfTime(); i++) {
+                            for (let j = -1; j < groups[b].length; j++) {
+                                // j === -1 moves unit i from a to b, otherwise units i and j swap
+                                const nextA = groups[a].filter((_, index) => index !== i);
+                                const nextB = j === -1 ? [...groups[b]] : groups[b].filter((_, index) => index !== j);
+                                nextB.push(groups[a][i]);
+                                if (j !== -1) nextA.push(groups[b][j]);
+                                if (sizeOf(nextA) > capacity || sizeOf(nextB) > capacity) continue;
+
+                                const costA = groupCost(flat(nextA));
+                                const costB = groupCost(flat(nextB));
+                                if (costA + costB < costs[a] + costs[b] - 1e-9) {
+                                    groups[a] = nextA;
+                                    groups[b] = nextB;
+                                    costs[a] = costA;
+                                    costs[b] = costB;
+                                    improved = true;
+                                    break;
+                                }
+                            }
+                        }
+                    }
+                }
+                if (!improved) break;
+            }
+
+            return { groups, cost: costs.reduce((sum, cost) => sum + cost, 0) };
+        };
+
+        let best = attempt();
+        for (let restart = 1; restart < RESTARTS && !outOfTime(); restart++) {
+            const candidate = attempt();
+            if (candidate.cost < best.cost) {
+                best = candidate;
+            }
+        }
+
+        const groups = best.groups.map(group => group.flat()).filter(group => group.length > 0);
+        let repeatedPairs = 0;
+        let apartViolations = 0;
+        for (const group of groups) {
+            for (let i = 0; i < group.length; i++) {
+                for (let j = i + 1; j < group.length; j++) {
+                    const key = pairKey(group[i], group[j]);
+                    if (options.pastPairs.has(key)) repeatedPairs++;
+                    if (apartPairs.has(key)) apartViolations++;
+                }
+            }
+        }
+
+        const unmetConstraints: string[] = [];
+        if (apartViolations > 0) {
+            unmetConstraints.push(`${apartViolations} keep-apart pair(s) had to share a group`);
+        }
+        if (repeatedPairs > 0 && options.pastPairs.size > 0) {
+            unmetConstraints.push(`${repeatedPairs} pair(s) were already together in recent rounds`);
+        }
+        return { groups, repeatedPairs, unmetConstraints };
+    }
+
+    /**
+     * Split the participants eligible for a meeting spin (present, active, not away) into groups,
+     * and remember the round unless it is a dry run
+     */
+    static async createGroups(meeting: IMeeting, request: GroupRequest, createdBy?: string) {
+        const mode = request.mode || 'groups';
+        const pool = await SelectionService.excludeAbsent(
+            await SelectionService.getEligibilityPool(meeting, request.department || meeting.department),
+            meeting
+        );
+        if (pool.eligible.length === 0) {
+            throw new Error('No eligible participants found');
+        }
+
+        const avoidRepeatRounds = request.avoidRepeatRounds ?? (mode === 'pairs' ? DEFAULT_PAIR_HISTORY_ROUNDS : 0);
+        const pastRounds = avoidRepeatRounds > 0
+            ? await GroupRound.find({ meetingId: meeting._id, mode }).sort({ createdAt: -1 }).limit(avoidRepeatRounds).lean()
+            : [];
+
+        const participants = new Map(pool.eligible.map(p => [(p._id as mongoose.Types.ObjectId).toString(), p]));
+        const partition = this.partition(
+            pool.eligible.map(p => ({
+                id: (p._id as mongoose.Types.ObjectId).toString(),
+                department: p.department,
+                teamId: p.teamId?.toString()
+            })),
+            {
+                groupCount: this.resolveGroupCount(pool.eligible.length, { ...request, mode }),
+                balanceBy: request.balanceBy,
+                together: request.together || [],
+                apart: request.apart || [],
+                pastPairs: this.pastPairWeights(pastRounds)
+            }
+        );
+
+        const groups = partition.groups.map((ids, index) => ({
+            name: mode === 'pairs' ? `Pair ${index + 1}` : `Group ${index + 1}`,
+            participantIds: ids.map(id => new mongoose.Types.ObjectId(id))
+        }));
+
+        let round: IGroupRound | undefined;
+        if (!request.dryRun) {
+            round = await GroupRound.create({
+                meetingId: meeting._id,
+                mode,
+                groups,
+                settings: {
+                    groupCount: request.groupCount,
+                    groupSize: request.groupSize,
+                    balanceBy: request.balanceBy,
+                    avoidRepeatRounds,
+                    together: request.together || [],
+                    apart: request.apart || []
+                },
+                repeatedPairs: partition.repeatedPairs,
+                createdBy
+            });
+        }
+
+        return {
+            id: round?._id,
+            meetingId: meeting._id,
+            mode,
+            dryRun: !!request.dryRun,
+            groups: groups.map(group => ({
+                name: group.name,
+                participants: group.participantIds.map(id => this.formatMember(participants.get(id.toString())!))
+            })),
+            repeatedPairs: partition.repeatedPairs,
+            roundsConsidered: pastRounds.length,
+            unmetConstraints: partition.unmetConstraints,
+            createdAt: round?.createdAt
+        };
+    }
+
+    /**
+     * Recent group rounds of a meeting, newest first
+     */
+    static async listRounds(meetingId: mongoose.Types.ObjectId | string, options: { mode?: GroupingMode; limit?: number } = {}) {
+        const rounds = await GroupRound.find({ meetingId, ...(options.mode && { mode: options.mode }) })
+            .sort({ createdAt: -1 })
+            .limit(options.limit || 20)
+            .populate('groups.participantIds', 'name department teamId')
+            .lean();
+
+        return rounds.map(round => ({
+            id: round._id,
+            mode: round.mode,
+            groups: round.groups.map(group => ({
+                name: group.name,
+                participants: (group.participantIds as any[]).filter(Boolean).map(p => this.formatMember(p))
+            })),
+            settings: round.settings,
+            repeatedPairs: round.repeatedPairs,
+            createdAt: round.createdAt
+        }));
+    }
+
+    private static formatMember(participant: Pick<IParticipant, '_id' | 'name' | 'department' | 'teamId'>) {
+        return {
+            id: participant._id,
+            name: participant.name,
+            department: participant.department,
+            teamId: participant.teamId
+        };
+    }
+}
+
+export default GroupingService;
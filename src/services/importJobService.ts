@@ -0,0 +1,243 @@
+import { Readable } from 'stream';
+import mongoose from 'mongoose';
+import { createObjectCsvStringifier } from 'csv-writer';
+import ImportJob from '../models/ImportJob';
+import { getCurrentTenantId } from '../models/plugins/tenantScope';
+import { getStorageProvider } from './storageProvider';
+import { ImportOptions, ImportValidationError, ParticipantImportService } from './participantImportService';
+import { enqueueImport } from '../jobs/importQueue';
+
+// Progress saved on the import job at each milestone, in percent
+const PROGRESS = {
+    started: 5,
+    parsed: 10
+} as const;
+
+// Smallest progress increase worth saving while importing
+const PROGRESS_STEP = 5;
+
+const MAX_STORED_ERRORS = parseInt(process.env.IMPORT_MAX_STORED_ERRORS || '1000', 10);
+
+export interface ImportUpload {
+    fileName: string;
+    stream: Readable;
+}
+
+export class ImportJobService {
+    // Uploaded files and error reports are removed with the export files, see ExportService.cleanupExpiredExports
+    private static IMPORT_EXPIRY_HOURS = 24;
+
+    /**
+     * Store an uploaded file and queue its import into the current organization
+     */
+    static async createImportJob(upload: ImportUpload, options: ImportOptions, userId?: string) {
+        const organizationId = getCurrentTenantId();
+        if (!organizationId) {
+            throw new Error('Participant imports require an organization context');
+        }
+
+        const format = ParticipantImportService.formatOf(upload.fileName);
+        if (!format) {
+            upload.stream.destroy();
+            throw new ImportValidationError('Unsupported file format');
+        }
+
+        const jobId = new mongoose.Types.ObjectId();
+        const storageKey = `imports/${organizationId}/${jobId}/source.${format}`;
+        await getStorageProvider().upload(storageKey, upload.stream, 'application/octet-stream');
+
+        const job = new ImportJob({
+            _id: jobId,
+            organizationId,
+            userId,
+            fileName: upload.fileName,
+            storageKey,
+            options: {
+                mapping: options.mapping,
+                department: options.department,
+                dryRun: Boolean(options.dryRun)
+            },
+            status: 'pending',
+            expiresAt: new Date(Date.now() + this.IMPORT_EXPIRY_HOURS * 60 * 60 * 1000)
+        });
+
+        await job.save();
+
+        // Processed by the import worker, see src/jobs/importWorker.ts
+        await enqueueImport(jobId.toString(), organizationId);
+
+        return job;
+    }
+
+    /**
+     * Claim a queued import for a queue job, or return false when it is finished or held by another
+     */
+    static async claimImportJob(jobId: string, queueJobId: string): Promise<boolean> {
+        const job = await ImportJob.findOneAndUpdate(
+            {
+                _id: jobId,
+                // A queue job re-run after its worker stalled takes its import back
+                $or: [{ status: 'pending' }, { status: 'processing', queueJobId }]
+            },
+            {
+                $set: { status: 'processing', queueJobId, startedAt: new Date(), progress: 0 },
+                $unset: { error: 1 },
+                $inc: { attempts: 1 }
+            }
+        );
+        return Boolean(job);
+    }
+
+    /**
+     * Run a claimed import, reporting progress as it goes. Throws so the queue can retry.
+     * A retried import matches the participants written by the failed attempt, so they count as skips or updates.
+     */
+    static async processImportJob(jobId: string, onProgress?: (percent: number) => Promise<void>) {
+        const job = await ImportJob.findById(jobId);
+        if (!job) {
+            throw new Error('Import job not found');
+        }
+
+        let saved = 0;
+        const reportProgress = async (percent: number) => {
+            if (percent < saved + PROGRESS_STEP) return;
+            saved = percent;
+            await ImportJob.updateOne({ _id: job._id }, { $set: { progress: percent } });
+            await onProgress?.(percent);
+        };
+
+        await reportProgress(PROGRESS.started);
+        const storage = getStorageProvider();
+        const source = await storage.open(job.storageKey);
+        const chunks: Buffer[] = [];
+        for await (const chunk of source.stream) {
+            chunks.push(Buffer.from(chunk));
+        }
+
+        let file;
+        let report;
+        try {
+            file = await ParticipantImportService.parse({ fileName: job.fileName, buffer: Buffer.concat(chunks) });
+            await reportProgress(PROGRESS.parsed);
+            report = await ParticipantImportService.importParsed(file, {
+                mapping: job.options.mapping,
+                department: job.options.department,
+                dryRun: job.options.dryRun
+            }, reportProgress);
+        } catch (error) {
+            // Nothing to retry when the file itself cannot be imported
+            if (error instanceof ImportValidationError) {
+                await ImportJob.updateOne(
+                    { _id: job._id },
+                    { $set: { status: 'failed', error: error.message }, $unset: { queueJobId: 1 } }
+                );
+                return job;
+            }
+            throw error;
+        }
+
+        const rejected = report.rows.filter(row => row.action === 'error');
+        const rowErrors = rejected.flatMap(row => row.errors || []);
+
+        if (rejected.length) {
+            // The rejected rows as uploaded, with what was wrong with each
+            const valuesByRow = new Map(file.rows.map(row => [row.row, row.values]));
+            const csvStringifier = createObjectCsvStringifier({
+                header: [
+                    { id: '__row', title: 'Row' },
+                    { id: '__errors', title: 'Errors' },
+                    ...file.columns.map(column => ({ id: column, title: column }))
+                ]
+            });
+            const records = rejected.map(row => ({
+                ...valuesByRow.get(row.row),
+                __row: row.row,
+                __errors: (row.errors || []).map(error => error.message).join('; ')
+            }));
+
+            job.errorReportKey = `imports/${job.organizationId}/${jobId}/errors.csv`;
+            await storage.upload(
+                job.errorReportKey,
+                Readable.from([csvStringifier.getHeaderString() || '', csvStringifier.stringifyRecords(records)]),
+                'text/csv'
+            );
+        }
+
+        job.status = 'completed';
+        job.progress = 100;
+        job.completedAt = new Date();
+        job.counts = { total: report.totalRows, ...report.summary };
+        job.rowErrors = rowErrors.slice(0, MAX_STORED_ERRORS);
+        await job.save();
+        await onProgress?.(100);
+
+        return job;
+    }
+
+    /**
+     * Record a failed attempt: the import goes back to pending while the queue will retry it
+     */
+    static async recordImportFailure(jobId: string, error: unknown, willRetry: boolean) {
+        console.error(`Error processing import job ${jobId}${willRetry ? ', will retry' : ''}:`, error);
+
+        await ImportJob.updateOne(
+            { _id: jobId },
+            {
+                $set: {
+                    status: willRetry ? 'pending' : 'failed',
+                    error: error instanceof Error ? error.message : 'Unknown error'
+                },
+                $unset: { queueJobId: 1 }
+            }
+        );
+    }
+
+    /**
+     * Get import job status, with the counts and row errors once it has completed
+     */
+    static async getImportJobStatus(jobId: string) {
+        const job = await ImportJob.findById(jobId);
+        if (!job) {
+            throw new Error('Import job not found');
+        }
+
+        return {
+            id: job._id,
+            fileName: job.fileName,
+            dryRun: job.options.dryRun,
+            status: job.status,
+            progress: job.progress,
+            attempts: job.attempts,
+            counts: job.counts,
+            rowErrors: job.rowErrors,
+            errorReportUrl: job.errorReportKey ? `/api/upload/jobs/${job._id}/errors` : undefined,
+            error: job.error,
+            createdAt: job.createdAt,
+            startedAt: job.startedAt,
+            completedAt: job.completedAt,
+            expiresAt: job.expiresAt
+        };
+    }
+
+    /**
+     * Open the CSV of an import's rejected rows
+     */
+    static async openErrorReport(jobId: string) {
+        const job = await ImportJob.findById(jobId);
+        if (!job) {
+            throw new Error('Import job not found');
+        }
+        if (!job.errorReportKey) {
+            throw new Error('Import has no rejected rows');
+        }
+
+        const file = await getStorageProvider().open(job.errorReportKey);
+        return {
+            fileName: `${job.fileName.replace(/\.[^.]+$/, '')}-errors.csv`,
+            stream: file.stream,
+            size: file.size
+        };
+    }
+}
+
+export default ImportJobService;
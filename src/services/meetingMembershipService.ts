@@ -0,0 +1,160 @@
+import mongoose, { ClientSession } from 'mongoose';
+import MeetingMembership from '../models/MeetingMembership';
+import Participant, { IParticipant } from '../models/participant';
+
+type ObjectIdLike = string | mongoose.Types.ObjectId;
+
+/**
+ * A meeting member: the participant plus their selection statistics within the meeting
+ */
+export type RosterEntry = Record<string, any> & {
+    meetingStats: {
+        selectionCount: number;
+        lastSelected?: Date;
+        addedAt: Date;
+    };
+};
+
+const toObjectId = (id: ObjectIdLike) => new mongoose.Types.ObjectId(id.toString());
+
+export class MeetingMembershipService {
+    /**
+     * Add participants to a meeting, keeping the statistics of those already on it
+     */
+    static async addParticipants(meetingId: ObjectIdLike, participantIds: ObjectIdLike[], session?: ClientSession) {
+        const uniqueIds = [...new Set(participantIds.map(id => id.toString()))];
+        if (uniqueIds.length === 0) {
+            return { added: 0, alreadyMembers: 0 };
+        }
+
+        const result = await MeetingMembership.bulkWrite(
+            uniqueIds.map(participantId => ({
+                updateOne: {
+                    filter: { meetingId: toObjectId(meetingId), participantId: toObjectId(participantId) },
+                    update: { $setOnInsert: { selectionCount: 0, addedAt: new Date() } },
+                    upsert: true
+                }
+            })),
+            { session }
+        );
+
+        return {
+            added: result.upsertedCount,
+            alreadyMembers: uniqueIds.length - result.upsertedCount
+        };
+    }
+
+    /**
+     * Remove a participant from a meeting, returning false when they were not on it
+     */
+    static async removeParticipant(meetingId: ObjectIdLike, participantId: ObjectIdLike, session?: ClientSession): Promise<boolean> {
+        const result = await MeetingMembership.deleteOne({ meetingId, participantId }).session(session || null);
+        return result.deletedCount > 0;
+    }
+
+    /**
+     * Remove every membership of a meeting, when the meeting is deleted
+     */
+    static async removeMeeting(meetingId: ObjectIdLike, session?: ClientSession) {
+        await MeetingMembership.deleteMany({ meetingId }).session(session || null);
+    }
+
+    /**
+     * Remove a participant from every meeting, when the participant is deleted
+     */
+    static async removeParticipantEverywhere(participantId: ObjectIdLike, session?: ClientSession) {
+        await MeetingMembership.deleteMany({ participantId }).session(session || null);
+    }
+
+    /**
+     * IDs of the participants on a meeting's roster
+     */
+    static async getParticipantIds(meetingId: ObjectIdLike, session?: ClientSession): Promise<mongoose.Types.ObjectId[]> {
+        return MeetingMembership.find({ meetingId }).session(session || null).distinct('participantId');
+    }
+
+    /**
+     * A meeting's roster, sorted by name, with each member's statistics in the meeting
+     */
+    static async getRoster(meetingId: ObjectIdLike, session?: ClientSession): Promise<RosterEntry[]> {
+        const memberships = await MeetingMembership.find({ meetingId }).session(session || null).lean();
+        const participants = await Participant.find({ _id: { $in: memberships.map(m => m.participantId) } })
+            .session(session || null)
+            .sort({ name: 1 })
+            .lean();
+
+        const byParticipant = new Map(memberships.map(m => [m.participantId.toString(), m]));
+        return participants.map(participant => {
+            const membership = byParticipant.get(participant._id.toString())!;
+            return {
+                ...participant,
+                meetingStats: {
+                    selectionCount: membership.selectionCount,
+                    lastSelected: membership.lastSelected,
+                    addedAt: membership.addedAt
+                }
+            };
+        });
+    }
+
+    /**
+     * Number of active participants on a meeting's roster
+     */
+    static async countActiveMembers(meetingId: ObjectIdLike): Promise<number> {
+        const participantIds = await this.getParticipantIds(meetingId);
+        return Participant.countDocuments({ _id: { $in: participantIds }, isActive: true });
+    }
+
+    /**
+     * Meetings each of the given participants belongs to
+     */
+    static async getMeetingsOf(participantIds: ObjectIdLike[]): Promise<Map<string, Array<{ id: mongoose.Types.ObjectId; name: string }>>> {
+        const memberships = await MeetingMembership.find({ participantId: { $in: participantIds } })
+            .populate('meetingId', 'name')
+            .lean();
+
+        const meetings = new Map<string, Array<{ id: mongoose.Types.ObjectId; name: string }>>();
+        for (const membership of memberships) {
+            const meeting = membership.meetingId as any;
+            if (!meeting) continue;
+
+            const key = membership.participantId.toString();
+            meetings.set(key, [...(meetings.get(key) || []), { id: meeting._id, name: meeting.name }]);
+        }
+        return meetings;
+    }
+
+    /**
+     * Count a selection against the selected participant's membership, when they are on the roster
+     */
+    static async recordSelection(meetingId: ObjectIdLike, participant: IParticipant, selectedAt: Date, session?: ClientSession) {
+        await MeetingMembership.updateOne(
+            { meetingId, participantId: participant._id },
+            {
+                $inc: { selectionCount: 1 },
+                $set: { lastSelected: selectedAt }
+            },
+            { session }
+        );
+    }
+
+    /**
+     * Reset per-meeting selection statistics, optionally for one meeting or some participants only
+     */
+    static async resetStatistics(filter: { meetingId?: ObjectIdLike; participantIds?: ObjectIdLike[] }, session?: ClientSession) {
+        const membershipFilter: any = {};
+        if (filter.meetingId) {
+            membershipFilter.meetingId = filter.meetingId;
+        }
+        if (filter.participantIds) {
+            membershipFilter.participantId = { $in: filter.participantIds };
+        }
+
+        await MeetingMembership.updateMany(
+            membershipFilter,
+            { $set: { selectionCount: 0 }, $unset: { lastSelected: 1 } }
+        ).session(session || null);
+    }
+}
+
+export default MeetingMembershipService;
@@ -0,0 +1,656 @@
+import { Readable } from 'stream';
+import csv from 'csv-parser';
+import * as XLSX from 'xlsx';
+import mongoose from 'mongoose';
+import Participant from '../models/participant';
+import Team from '../models/Team';
+import { getCurrentTenantId } from '../models/plugins/tenantScope';
+import { flattenObject } from './exportFormats';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+// Map keys cannot contain dots, and keys starting with $ are operators
+const METADATA_KEY_PATTERN = /^[A-Za-z0-9_][A-Za-z0-9_ -]{0,63}$/;
+const SAMPLE_ROWS = 10;
+const PREVIEW_MAX_ERRORS = 100;
+// Case and accent insensitive, matching normalizeName
+const NAME_COLLATION = { locale: 'en', strength: 1 };
+// Largest import run inside the request, bigger ones go through import jobs
+const SYNC_MAX_ROWS = parseInt(process.env.IMPORT_SYNC_MAX_ROWS || '5000', 10);
+
+// Largest file accepted by any upload. Files are parsed whole in memory, in the API or the import worker.
+export const MAX_FILE_BYTES = parseInt(process.env.IMPORT_MAX_FILE_MB || '50', 10) * 1024 * 1024;
+// Participant writes sent to the database at once
+const COMMIT_BATCH_SIZE = 1000;
+
+// Progress reported at each milestone of an import, in percent
+const PROGRESS = {
+    validated: 20,
+    planned: 40,
+    committed: 95
+} as const;
+
+export const IMPORT_FIELDS = ['name', 'email', 'role', 'department', 'team'] as const;
+
+export type ImportField = typeof IMPORT_FIELDS[number];
+
+export const IMPORT_FORMATS = ['csv', 'tsv', 'xlsx', 'xls', 'ods', 'json'] as const;
+
+export type ImportFormat = typeof IMPORT_FORMATS[number];
+
+// Header spellings recognised when suggesting a mapping, compared lowercased without separators
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+    name: ['name', 'fullname', 'participant', 'participantname', 'displayname'],
+    email: ['email', 'emailaddress', 'mail', 'workemail'],
+    role: ['role', 'title', 'jobtitle', 'position'],
+    department: ['department', 'dept', 'division'],
+    team: ['team', 'teamname', 'squad']
+};
+
+/**
+ * Which file column feeds each participant field. Custom metadata maps a metadata key to a column.
+ */
+export type ColumnMapping = Partial<Record<ImportField, string>> & {
+    metadata?: Record<string, string>;
+};
+
+/**
+ * An uploaded file, or records sent as a JSON request body
+ */
+export type ImportSource =
+    | { fileName: string; buffer: Buffer }
+    | { records: unknown };
+
+export interface ParsedImportFile {
+    format: ImportFormat;
+    columns: string[];
+    // Row numbers as the user sees them: spreadsheet rows, or positions in a JSON array
+    rows: Array<{ row: number; values: Record<string, string> }>;
+}
+
+export interface ImportOptions {
+    mapping?: ColumnMapping;
+    // Used for rows without a department column or with a blank one
+    department?: string;
+    dryRun?: boolean;
+}
+
+export interface ImportRowError {
+    row: number;
+    field?: ImportField;
+    message: string;
+}
+
+export type ImportAction = 'create' | 'update' | 'skip' | 'error';
+
+export interface ImportRowResult {
+    row: number;
+    action: ImportAction;
+    name?: string;
+    email?: string;
+    participantId?: string;
+    // How the row was matched to an existing participant
+    matchedBy?: 'email' | 'name';
+    // Fields an update changes
+    changes?: string[];
+    errors?: ImportRowError[];
+}
+
+export interface ImportReport {
+    dryRun: boolean;
+    totalRows: number;
+    summary: { creates: number; updates: number; skips: number; errors: number };
+    rows: ImportRowResult[];
+}
+
+interface ParticipantFields {
+    name: string;
+    email?: string;
+    role?: string;
+    department: string;
+    // Department came from the file rather than the default
+    departmentFromFile: boolean;
+    teamId?: mongoose.Types.ObjectId;
+    metadata: Record<string, string>;
+}
+
+interface ValidatedRow {
+    row: number;
+    fields?: ParticipantFields;
+    errors: ImportRowError[];
+}
+
+interface PlannedRow extends ImportRowResult {
+    fields?: ParticipantFields;
+    existing?: any;
+}
+
+/**
+ * A file or mapping that cannot be imported at all, as opposed to individual rows that fail
+ */
+export class ImportValidationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ImportValidationError';
+    }
+}
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Name used to match participants: accents removed, lowercased, whitespace collapsed
+ */
+export const normalizeName = (name: string) => name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const cell = (value: unknown): string => (value === undefined || value === null ? '' : String(value).trim());
+
+const readDelimited = async (buffer: Buffer, separator: string) => {
+    let columns: string[] = [];
+    const records: Record<string, string>[] = [];
+    await new Promise((resolve, reject) => {
+        Readable.from(buffer)
+            .pipe(csv({ separator, mapHeaders: ({ header }) => header.replace(/^\uFEFF/, '').trim() }))
+            .on('headers', (headers: string[]) => { columns = headers; })
+            .on('data', (data) => records.push(data))
+            .on('end', resolve)
+            .on('error', reject);
+    });
+
+    return {
+        columns: columns.filter(Boolean),
+        // The header is row 1
+        rows: records.map((values, index) => ({ row: index + 2, values }))
+    };
+};
+
+const readSpreadsheet = (buffer: Buffer) => {
+    const workbook = XLSX.read(buffer);
+    const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+    // Rows as arrays, with blank rows kept so row numbers match the sheet
+    const [header = [], ...data] = XLSX.utils.sheet_to_json<unknown[]>(worksheet, {
+        header: 1,
+        defval: '',
+        raw: false,
+        blankrows: true
+    });
+
+    const columns = header.map(cell);
+    const rows: ParsedImportFile['rows'] = [];
+    data.forEach((values, index) => {
+        if (values.every(value => cell(value) === '')) return;
+        const record: Record<string, string> = {};
+        columns.forEach((column, columnIndex) => {
+            if (column) record[column] = cell(values[columnIndex]);
+        });
+        rows.push({ row: index + 2, values: record });
+    });
+
+    return { columns: columns.filter(Boolean), rows };
+};
+
+const readRecords = (payload: unknown) => {
+    // A bare array, or the array under `participants` or `rows`
+    const records = Array.isArray(payload)
+        ? payload
+        : (payload as any)?.participants ?? (payload as any)?.rows;
+    if (!Array.isArray(records) || records.some(record => !record || typeof record !== 'object' || Array.isArray(record))) {
+        throw new ImportValidationError('JSON imports must be an array of objects');
+    }
+
+    // Nested objects become dotted columns, e.g. metadata.employeeId
+    const columns = new Set<string>();
+    const rows = records.map((record, index) => {
+        const values: Record<string, string> = {};
+        for (const [column, value] of Object.entries(flattenObject(record))) {
+            columns.add(column);
+            values[column] = cell(value);
+        }
+        return { row: index + 1, values };
+    });
+
+    return { columns: Array.from(columns), rows };
+};
+
+export class ParticipantImportService {
+    /**
+     * The import source of a request: the uploaded file, or a JSON body with the records
+     */
+    static sourceFromRequest(file: Express.Multer.File | undefined, body: any): ImportSource | null {
+        if (file) {
+            return { fileName: file.originalname, buffer: file.buffer };
+        }
+        if (body && (Array.isArray(body.participants) || Array.isArray(body.rows))) {
+            return { records: body };
+        }
+        return null;
+    }
+
+    /**
+     * Read the import options sent alongside a source. Multipart fields arrive as strings,
+     * so the mapping is sent as JSON there.
+     */
+    static parseOptions(fields: Record<string, any>): ImportOptions {
+        let mapping = fields.mapping;
+        if (typeof mapping === 'string') {
+            try {
+                mapping = JSON.parse(mapping);
+            } catch {
+                throw new ImportValidationError('Invalid mapping');
+            }
+        }
+        if (mapping !== undefined && (!mapping || typeof mapping !== 'object' || Array.isArray(mapping))) {
+            throw new ImportValidationError('Invalid mapping');
+        }
+
+        return {
+            mapping,
+            department: typeof fields.department === 'string' ? fields.department : undefined,
+            dryRun: fields.dryRun === true || fields.dryRun === 'true'
+        };
+    }
+
+    /**
+     * Import format of a file name, or null when the format is not supported
+     */
+    static formatOf(fileName: string): ImportFormat | null {
+        const extension = fileName.toLowerCase().split('.').pop() as ImportFormat;
+        return IMPORT_FORMATS.includes(extension) ? extension : null;
+    }
+
+    /**
+     * Read the rows of a source, keyed by their column
+     */
+    static async parse(source: ImportSource): Promise<ParsedImportFile> {
+        if ('records' in source) {
+            return { format: 'json', ...readRecords(source.records) };
+        }
+
+        const format = this.formatOf(source.fileName);
+        switch (format) {
+            case 'csv':
+                return { format, ...await readDelimited(source.buffer, ',') };
+            case 'tsv':
+                return { format, ...await readDelimited(source.buffer, '\t') };
+            case 'xlsx':
+            case 'xls':
+            case 'ods':
+                return { format, ...readSpreadsheet(source.buffer) };
+            case 'json': {
+                let payload: unknown;
+                try {
+                    payload = JSON.parse(source.buffer.toString('utf8').replace(/^\uFEFF/, ''));
+                } catch {
+                    throw new ImportValidationError('Invalid JSON file');
+                }
+                return { format, ...readRecords(payload) };
+            }
+            default:
+                throw new ImportValidationError('Unsupported file format');
+        }
+    }
+
+    /**
+     * Guess the mapping from the file's headers. `metadata.<key>` columns, as in JSON records,
+     * map to custom metadata. Unrecognised columns are left out.
+     */
+    static suggestMapping(columns: string[]): ColumnMapping {
+        const mapping: ColumnMapping = {};
+        for (const field of IMPORT_FIELDS) {
+            const column = columns.find(candidate => FIELD_ALIASES[field].includes(normalizeHeader(candidate)));
+            if (column) {
+                mapping[field] = column;
+            }
+        }
+
+        const metadataColumns = columns.filter(column => column.startsWith('metadata.')
+            && METADATA_KEY_PATTERN.test(column.slice('metadata.'.length)));
+        if (metadataColumns.length) {
+            mapping.metadata = Object.fromEntries(metadataColumns.map(column => [column.slice('metadata.'.length), column]));
+        }
+        return mapping;
+    }
+
+    /**
+     * Check a mapping against the file's columns, returning the problem with it or null when it is valid
+     */
+    static validateMapping(mapping: ColumnMapping, columns: string[], options: ImportOptions = {}): string | null {
+        for (const field of Object.keys(mapping)) {
+            if (field !== 'metadata' && !IMPORT_FIELDS.includes(field as ImportField)) {
+                return `Unknown field "${field}", expected one of ${IMPORT_FIELDS.join(', ')} or metadata`;
+            }
+        }
+
+        const mapped = [
+            ...IMPORT_FIELDS.map(field => mapping[field]),
+            ...Object.values(mapping.metadata || {})
+        ].filter((column): column is string => column !== undefined);
+        const missing = mapped.find(column => !columns.includes(column));
+        if (missing !== undefined) {
+            return `Column "${missing}" is not in the file`;
+        }
+
+        if (!mapping.name) {
+            return 'A column must be mapped to name';
+        }
+        if (!mapping.department && !options.department?.trim()) {
+            return 'Map a column to department or provide a default department';
+        }
+
+        const invalidKey = Object.keys(mapping.metadata || {}).find(key => !METADATA_KEY_PATTERN.test(key));
+        if (invalidKey !== undefined) {
+            return `Invalid metadata field "${invalidKey}"`;
+        }
+
+        return null;
+    }
+
+    /**
+     * Columns, a sample of the rows and the validation errors of a source, without touching any participant
+     */
+    static async preview(source: ImportSource, options: ImportOptions = {}) {
+        const file = await this.parse(source);
+        const suggestedMapping = this.suggestMapping(file.columns);
+        const mapping = options.mapping || suggestedMapping;
+
+        const problem = this.validateMapping(mapping, file.columns, options);
+        const validated = problem ? [] : await this.validateRows(file, mapping, options);
+        const errors = validated.flatMap(row => row.errors);
+
+        return {
+            fileName: 'fileName' in source ? source.fileName : undefined,
+            format: file.format,
+            columns: file.columns,
+            suggestedMapping,
+            mapping,
+            mappingError: problem,
+            totalRows: file.rows.length,
+            sampleRows: file.rows.slice(0, SAMPLE_ROWS),
+            validRows: problem ? 0 : validated.filter(row => row.errors.length === 0).length,
+            invalidRows: problem ? 0 : validated.filter(row => row.errors.length > 0).length,
+            errors: errors.slice(0, PREVIEW_MAX_ERRORS),
+            errorCount: errors.length
+        };
+    }
+
+    /**
+     * Import the valid rows of a source into the current organization, or with `dryRun` only
+     * report what importing would do. Rows that fail validation are reported and never written.
+     *
+     * Rows are matched to existing participants by email first, then by normalized name.
+     * Sources over IMPORT_SYNC_MAX_ROWS rows are refused, they go through import jobs.
+     */
+    static async importParticipants(source: ImportSource, options: ImportOptions = {}): Promise<ImportReport> {
+        const file = await this.parse(source);
+        if (file.rows.length > SYNC_MAX_ROWS) {
+            throw new Error('Import too large to run in the request');
+        }
+        return this.importParsed(file, options);
+    }
+
+    /**
+     * Import an already parsed source, reporting progress as it goes
+     */
+    static async importParsed(
+        file: ParsedImportFile,
+        options: ImportOptions = {},
+        onProgress?: (percent: number) => Promise<void>
+    ): Promise<ImportReport> {
+        if (!getCurrentTenantId()) {
+            throw new Error('Participant imports require an organization context');
+        }
+        if (file.rows.length === 0) {
+            throw new ImportValidationError('No participant data found in file');
+        }
+
+        const mapping = options.mapping || this.suggestMapping(file.columns);
+        const problem = this.validateMapping(mapping, file.columns, options);
+        if (problem) {
+            throw new ImportValidationError(problem);
+        }
+
+        const validated = await this.validateRows(file, mapping, options);
+        await onProgress?.(PROGRESS.validated);
+        const planned = await this.plan(validated);
+        await onProgress?.(PROGRESS.planned);
+        if (!options.dryRun) {
+            await this.commit(planned, async (done, total) => {
+                await onProgress?.(PROGRESS.planned + Math.floor((PROGRESS.committed - PROGRESS.planned) * done / total));
+            });
+        }
+
+        const count = (action: ImportAction) => planned.filter(row => row.action === action).length;
+        return {
+            dryRun: Boolean(options.dryRun),
+            totalRows: file.rows.length,
+            summary: {
+                creates: count('create'),
+                updates: count('update'),
+                skips: count('skip'),
+                errors: count('error')
+            },
+            rows: planned.map(({ fields, existing, ...result }) => result)
+        };
+    }
+
+    private static async validateRows(file: ParsedImportFile, mapping: ColumnMapping, options: ImportOptions): Promise<ValidatedRow[]> {
+        // Teams are referenced by name, matched case-insensitively
+        const teams = mapping.team ? await Team.find().select('name').lean() : [];
+        const teamsByName = new Map(teams.map(team => [team.name.trim().toLowerCase(), team._id as mongoose.Types.ObjectId]));
+
+        // Identity of each row within the file, to catch the same person listed twice
+        const seen = new Map<string, number>();
+        return file.rows.map(({ row, values }) => {
+            const errors: ImportRowError[] = [];
+            const value = (field: ImportField) => (mapping[field] ? cell(values[mapping[field]!]) : '');
+
+            const name = value('name');
+            if (!name) {
+                errors.push({ row, field: 'name', message: 'Name is required' });
+            } else if (name.length > 100) {
+                errors.push({ row, field: 'name', message: 'Name must be at most 100 characters' });
+            }
+
+            const email = value('email').toLowerCase();
+            if (email && !EMAIL_PATTERN.test(email)) {
+                errors.push({ row, field: 'email', message: `Invalid email "${email}"` });
+            }
+
+            const departmentFromFile = value('department');
+            const department = departmentFromFile || options.department?.trim() || '';
+            if (!department) {
+                errors.push({ row, field: 'department', message: 'Department is required' });
+            }
+
+            const teamName = value('team');
+            const teamId = teamName ? teamsByName.get(teamName.toLowerCase()) : undefined;
+            if (teamName && !teamId) {
+                errors.push({ row, field: 'team', message: `Unknown team "${teamName}"` });
+            }
+
+            const metadata: Record<string, string> = {};
+            for (const [key, column] of Object.entries(mapping.metadata || {})) {
+                const metadataValue = cell(values[column]);
+                if (metadataValue) metadata[key] = metadataValue;
+            }
+
+            if (errors.length === 0) {
+                const identity = email ? `email:${email}` : `name:${normalizeName(name)}`;
+                const firstRow = seen.get(identity);
+                if (firstRow !== undefined) {
+                    errors.push({ row, message: `Duplicate of row ${firstRow}` });
+                } else {
+                    seen.set(identity, row);
+                }
+            }
+
+            return {
+                row,
+                errors,
+                fields: errors.length ? undefined : {
+                    name,
+                    department,
+                    departmentFromFile: Boolean(departmentFromFile),
+                    metadata,
+                    ...(email && { email }),
+                    ...(value('role') && { role: value('role') }),
+                    ...(teamId && { teamId })
+                }
+            };
+        });
+    }
+
+    // Match rows to existing participants and work out what each would change
+    private static async plan(rows: ValidatedRow[]): Promise<PlannedRow[]> {
+        const valid = rows.filter(row => row.fields).map(row => row.fields!);
+
+        const emails = Array.from(new Set(valid.filter(fields => fields.email).map(fields => fields.email!)));
+        const byEmail = new Map<string, any>();
+        if (emails.length) {
+            const matches = await Participant.find({ email: { $in: emails } }).lean();
+            for (const participant of matches) {
+                if (!byEmail.has(participant.email!)) byEmail.set(participant.email!, participant);
+            }
+        }
+
+        // Names are only looked up for rows without an email match
+        const names = Array.from(new Set(valid
+            .filter(fields => !fields.email || !byEmail.has(fields.email))
+            .flatMap(fields => [fields.name, normalizeName(fields.name)])));
+        const byName = new Map<string, any[]>();
+        if (names.length) {
+            const matches = await Participant.find({ name: { $in: names } }).collation(NAME_COLLATION).lean();
+            for (const participant of matches) {
+                const key = normalizeName(participant.name);
+                byName.set(key, [...(byName.get(key) || []), participant]);
+            }
+        }
+
+        const claimed = new Map<string, number>();
+        return rows.map(({ row, fields, errors }): PlannedRow => {
+            if (!fields) {
+                return { row, action: 'error', errors };
+            }
+
+            const base = { row, fields, name: fields.name, email: fields.email };
+            let match = fields.email ? byEmail.get(fields.email) : undefined;
+            let matchedBy: 'email' | 'name' = 'email';
+
+            if (!match) {
+                // A participant with a different email is someone else with the same name
+                let candidates = (byName.get(normalizeName(fields.name)) || [])
+                    .filter(participant => !fields.email || !participant.email || participant.email === fields.email);
+                if (candidates.length > 1) {
+                    candidates = candidates.filter(participant => participant.department === fields.department);
+                }
+                if (candidates.length > 1) {
+                    return {
+                        row,
+                        action: 'error',
+                        errors: [{ row, field: 'name', message: `Matches ${candidates.length} participants named "${fields.name}", add an email to tell them apart` }]
+                    };
+                }
+                match = candidates[0];
+                matchedBy = 'name';
+            }
+
+            if (!match) {
+                return { ...base, action: 'create' };
+            }
+
+            const participantId = (match._id as any).toString();
+            const claimedBy = claimed.get(participantId);
+            if (claimedBy !== undefined) {
+                return { row, action: 'error', errors: [{ row, message: `Matches the same participant as row ${claimedBy}` }] };
+            }
+            claimed.set(participantId, row);
+
+            // Blank cells leave the existing value alone, and the default department never moves anyone
+            const changes: string[] = [];
+            if (fields.name !== match.name) changes.push('name');
+            if (fields.email && fields.email !== match.email) changes.push('email');
+            if (fields.role && fields.role !== match.role) changes.push('role');
+            if (fields.departmentFromFile && fields.department !== match.department) changes.push('department');
+            if (fields.teamId && !fields.teamId.equals(match.teamId)) changes.push('team');
+            const currentMetadata: Record<string, unknown> = match.metadata || {};
+            for (const [key, metadataValue] of Object.entries(fields.metadata)) {
+                if (String(currentMetadata[key] ?? '') !== metadataValue) changes.push(`metadata.${key}`);
+            }
+
+            return {
+                ...base,
+                action: changes.length ? 'update' : 'skip',
+                participantId,
+                matchedBy,
+                existing: match,
+                ...(changes.length && { changes })
+            };
+        });
+    }
+
+    private static async commit(rows: PlannedRow[], onBatch?: (done: number, total: number) => Promise<void>) {
+        const operations: any[] = [];
+        for (const row of rows) {
+            if (row.action === 'create') {
+                const { departmentFromFile, ...fields } = row.fields!;
+                row.participantId = new mongoose.Types.ObjectId().toString();
+                operations.push({
+                    insertOne: {
+                        document: { _id: row.participantId, ...fields, selectionCount: 0 }
+                    }
+                });
+            } else if (row.action === 'update') {
+                const fields = row.fields!;
+                const set: Record<string, unknown> = {};
+                for (const change of row.changes!) {
+                    if (change === 'team') {
+                        set.teamId = fields.teamId;
+                    } else if (change.startsWith('metadata.')) {
+                        set[change] = fields.metadata[change.slice('metadata.'.length)];
+                    } else {
+                        set[change] = fields[change as 'name' | 'email' | 'role' | 'department'];
+                    }
+                }
+                operations.push({ updateOne: { filter: { _id: row.participantId }, update: { $set: set } } });
+            }
+        }
+
+        for (let start = 0; start < operations.length; start += COMMIT_BATCH_SIZE) {
+            await Participant.bulkWrite(operations.slice(start, start + COMMIT_BATCH_SIZE), { ordered: false });
+            await onBatch?.(Math.min(start + COMMIT_BATCH_SIZE, operations.length), operations.length);
+        }
+
+        // Keep team rosters in step with the participants' new teams
+        const teamOperations: any[] = [];
+        for (const row of rows) {
+            const joined = (row.action === 'create' && row.fields!.teamId)
+                || (row.action === 'update' && row.changes!.includes('team'));
+            if (!joined) continue;
+
+            const participantId = new mongoose.Types.ObjectId(row.participantId);
+            if (row.existing?.teamId) {
+                teamOperations.push({
+                    updateOne: {
+                        filter: { _id: row.existing.teamId },
+                        update: { $pull: { members: { participantId } } }
+                    }
+                });
+            }
+            teamOperations.push({
+                updateOne: {
+                    filter: { _id: row.fields!.teamId, 'members.participantId': { $ne: participantId } },
+                    update: { $push: { members: { participantId, role: 'member', joinedAt: new Date() } } }
+                }
+            });
+        }
+
+        if (teamOperations.length) {
+            await Team.bulkWrite(teamOperations);
+        }
+    }
+}
+
+export default ParticipantImportService;
@@ -0,0 +1,49 @@
+import crypto from 'crypto';
+
+// 48 bits is the most a double can hold exactly via readUIntBE
+const RANDOM_BYTES = 6;
+const FLOAT_DIVISOR = 2 ** 48;
+
+export class RandomnessService {
+
+    /**
+     * Cryptographically secure float in [0, 1)
+     */
+    static secureRandom(): number {
+        return crypto.randomBytes(RANDOM_BYTES).readUIntBE(0, RANDOM_BYTES) / FLOAT_DIVISOR;
+    }
+
+    /**
+     * Generate a fresh 256-bit seed
+     */
+    static generateSeed(): string {
+        return crypto.randomBytes(32).toString('hex');
+    }
+
+    /**
+     * SHA-256 commitment for a seed
+     */
+    static hashSeed(seed: string): string {
+        return crypto.createHash('sha256').update(seed).digest('hex');
+    }
+
+    /**
+     * Mix optional client entropy into a committed server seed
+     */
+    static combineSeeds(serverSeed: string, clientSeed?: string): string {
+        return clientSeed ? `${serverSeed}:${clientSeed}` : serverSeed;
+    }
+
+    /**
+     * Deterministic float stream in [0, 1) derived from a seed (HMAC-SHA256 in counter mode)
+     */
+    static createSeededRandom(seed: string): () => number {
+        let counter = 0;
+        return () => {
+            const digest = crypto.createHmac('sha256', seed).update(String(counter++)).digest();
+            return digest.readUIntBE(0, RANDOM_BYTES) / FLOAT_DIVISOR;
+        };
+    }
+}
+
+export default RandomnessService;
@@ -0,0 +1,611 @@
+import mongoose, { ClientSession } from 'mongoose';
+import Meeting, { IMeeting } from '../models/meeting';
+import Participant, { IParticipant } from '../models/participant';
+import SelectionRecord, { ExclusionRule, FairnessScope, ISelectionAudit, ISelectionEligibility, ISelectionRecord, MAX_ROLES_PER_SPIN } from '../models/SelectionRecord';
+import SeedCommitment from '../models/SeedCommitment';
+import { SelectionResult, SelectionState, getSelectionStrategy } from './selectionStrategies';
+import { RandomnessService } from './randomness';
+import { MeetingMembershipService } from './meetingMembershipService';
+import { AttendanceService } from './attendanceService';
+import { AvailabilityService } from './availabilityService';
+
+export interface RecordSelectionOptions {
+    meetingId: string | mongoose.Types.ObjectId;
+    participant: IParticipant;
+    selectionMethod: string;
+    sessionId: string;
+    selectionRound: number;
+    spinDuration?: number;
+    excludedRecentlySelected: boolean;
+    totalEligible: number;
+    selectionState?: SelectionState;
+    audit?: Partial<ISelectionAudit>;
+    eligibility?: EligibilityPool;
+    assignedRole?: string;
+}
+
+/**
+ * Selection count and recency of a participant within a fairness scope
+ */
+export interface ParticipantStatistics {
+    selectionCount: number;
+    lastSelected?: Date;
+}
+
+/**
+ * Participants eligible for a spin, plus who each exclusion rule removed
+ */
+export interface EligibilityPool {
+    candidateCount: number;
+    eligible: IParticipant[];
+    exclusions: Partial<Record<ExclusionRule, IParticipant[]>>;
+    // Statistics fairness uses, keyed by participant ID
+    fairnessScope: FairnessScope;
+    statistics: Map<string, ParticipantStatistics>;
+    // Milliseconds each participant was unavailable since their last selection in the fairness scope
+    timeAway: Map<string, number>;
+}
+
+export interface PickOptions {
+    inverseFrequencyExponent?: number;
+    random?: () => number;
+    statistics?: Map<string, ParticipantStatistics>;
+    // Strategy state to pick from instead of the meeting's persisted state
+    state?: SelectionState;
+}
+
+/**
+ * What a multi-pick spin assigns: role names, a role template of the meeting, or a number of unnamed picks
+ */
+export interface RoleRequest {
+    roles?: unknown;
+    roleTemplate?: unknown;
+    count?: unknown;
+}
+
+/**
+ * One pick of a multi-pick spin, with the pool and audit to record it with
+ */
+export interface RolePick {
+    role?: string;
+    participant: IParticipant;
+    state: SelectionState;
+    pool: EligibilityPool;
+    audit: Partial<ISelectionAudit>;
+}
+
+export interface RandomnessSetup {
+    random: () => number;
+    audit: Partial<ISelectionAudit>;
+}
+
+export class SelectionService {
+
+    /**
+     * Build the eligibility pool for a meeting spin: the meeting roster (or the whole department when
+     * the meeting has no roster), minus inactive, out-of-department and currently unavailable people
+     */
+    static async getEligibilityPool(meeting: IMeeting, department: string, session?: ClientSession): Promise<EligibilityPool> {
+        const memberIds = await MeetingMembershipService.getParticipantIds(meeting._id as mongoose.Types.ObjectId, session);
+        const query = memberIds.length > 0 ? { _id: { $in: memberIds } } : { department };
+
+        const candidates: IParticipant[] = await Participant.find(query).session(session || null);
+        const fairnessScope = meeting.settings?.fairnessScope || 'meeting';
+        const statistics = await this.getScopedStatistics(meeting, candidates, fairnessScope, session);
+
+        const idOf = (p: IParticipant) => (p._id as mongoose.Types.ObjectId).toString();
+        const inDepartment = candidates.filter(p => p.isActive && p.department === department);
+        const unavailable = await AvailabilityService.getUnavailableParticipantIds(inDepartment.map(p => idOf(p)), new Date(), session);
+        const eligible = inDepartment.filter(p => !unavailable.has(idOf(p)));
+
+        const lastSelected = new Map<string, Date>();
+        for (const participant of eligible) {
+            const selectedAt = this.statisticsOf(participant, statistics).lastSelected;
+            if (selectedAt) {
+                lastSelected.set(idOf(participant), selectedAt);
+            }
+        }
+
+        return {
+            candidateCount: candidates.length,
+            eligible,
+            exclusions: {
+                inactive: candidates.filter(p => !p.isActive),
+                outOfDepartment: candidates.filter(p => p.isActive && p.department !== department),
+                unavailable: inDepartment.filter(p => unavailable.has(idOf(p)))
+            },
+            fairnessScope,
+            statistics,
+            timeAway: await AvailabilityService.getTimeAwaySince(lastSelected, new Date(), session)
+        };
+    }
+
+    /**
+     * Selection counts and recency of participants within a fairness scope. Meeting and team scopes
+     * count selection records, so they also cover meetings that draw from their whole department.
+     */
+    static async getScopedStatistics(
+        meeting: IMeeting,
+        participants: IParticipant[],
+        scope: FairnessScope,
+        session?: ClientSession
+    ): Promise<Map<string, ParticipantStatistics>> {
+        if (scope === 'global') {
+            return new Map(participants.map(p => [
+                (p._id as mongoose.Types.ObjectId).toString(),
+                { selectionCount: p.selectionCount, lastSelected: p.lastSelected }
+            ]));
+        }
+
+        // A meeting without a team falls back to its own selections
+        const meetingIds = scope === 'team' && meeting.teamId
+            ? await Meeting.find({ teamId: meeting.teamId }).session(session || null).distinct('_id')
+            : [meeting._id];
+
+        const counts = await SelectionRecord.aggregate([
+            {
+                $match: {
+                    meetingId: { $in: meetingIds },
+                    participantId: { $in: participants.map(p => p._id) }
+                }
+            },
+            { $group: { _id: '$participantId', selectionCount: { $sum: 1 }, lastSelected: { $max: '$selectedAt' } } }
+        ]).session(session || null);
+
+        const byParticipant = new Map<string, ParticipantStatistics>(counts.map(c => [
+            c._id.toString(),
+            { selectionCount: c.selectionCount, lastSelected: c.lastSelected }
+        ]));
+        return new Map(participants.map(p => {
+            const id = (p._id as mongoose.Types.ObjectId).toString();
+            return [id, byParticipant.get(id) || { selectionCount: 0 }];
+        }));
+    }
+
+    /**
+     * Statistics of a participant in the pool's fairness scope, or their global counters when not in it
+     */
+    static statisticsOf(participant: IParticipant, statistics?: Map<string, ParticipantStatistics>): ParticipantStatistics {
+        return statistics?.get((participant._id as mongoose.Types.ObjectId).toString()) ||
+            { selectionCount: participant.selectionCount, lastSelected: participant.lastSelected };
+    }
+
+    /**
+     * Narrow the pool to the given participants, recording everyone else under an exclusion rule
+     */
+    static narrowPool(pool: EligibilityPool, rule: ExclusionRule, keep: IParticipant[]): EligibilityPool {
+        const kept = new Set(keep);
+        const removed = pool.eligible.filter(p => !kept.has(p));
+
+        return {
+            ...pool,
+            eligible: pool.eligible.filter(p => kept.has(p)),
+            exclusions: {
+                ...pool.exclusions,
+                [rule]: [...(pool.exclusions[rule] || []), ...removed]
+            }
+        };
+    }
+
+    /**
+     * Narrow the pool to participants present at today's meeting, once attendance has been taken
+     */
+    static async excludeAbsent(pool: EligibilityPool, meeting: IMeeting, session?: ClientSession): Promise<EligibilityPool> {
+        const present = await AttendanceService.getPresentParticipantIds(meeting._id as mongoose.Types.ObjectId, session);
+        if (!present) {
+            return pool;
+        }
+        return this.narrowPool(pool, 'notPresent', pool.eligible.filter(p => present.has((p._id as mongoose.Types.ObjectId).toString())));
+    }
+
+    /**
+     * Narrow the pool to never-selected participants, or the least recently selected half.
+     * Time someone was unavailable since their last selection does not count towards their wait.
+     */
+    static excludeRecentlySelected(pool: EligibilityPool): EligibilityPool {
+        const lastSelectedOf = (p: IParticipant) => {
+            const { lastSelected } = this.statisticsOf(p, pool.statistics);
+            return lastSelected &&
+                new Date(lastSelected).getTime() + (pool.timeAway.get((p._id as mongoose.Types.ObjectId).toString()) || 0);
+        };
+        const sorted = [...pool.eligible].sort((a, b) => (lastSelectedOf(a) || 0) - (lastSelectedOf(b) || 0));
+
+        const neverSelected = sorted.filter(p => !lastSelectedOf(p));
+        const keep = neverSelected.length > 0
+            ? neverSelected
+            : sorted.slice(0, Math.ceil(sorted.length / 2));
+
+        return this.narrowPool(pool, 'recentlySelected', keep);
+    }
+
+    /**
+     * Snapshot of an eligibility pool as stored on a selection record
+     */
+    static toEligibilityRecord(pool: EligibilityPool): ISelectionEligibility {
+        const ids = (participants?: IParticipant[]) =>
+            (participants || []).map(p => p._id as mongoose.Types.ObjectId);
+
+        return {
+            candidateCount: pool.candidateCount,
+            eligibleParticipantIds: ids(pool.eligible),
+            exclusions: {
+                inactive: ids(pool.exclusions.inactive),
+                outOfDepartment: ids(pool.exclusions.outOfDepartment),
+                unavailable: ids(pool.exclusions.unavailable),
+                notPresent: ids(pool.exclusions.notPresent),
+                recentlySelected: ids(pool.exclusions.recentlySelected),
+                alreadySelectedThisRound: ids(pool.exclusions.alreadySelectedThisRound)
+            }
+        };
+    }
+
+    /**
+     * Read the persisted strategy state of a meeting
+     */
+    static getSelectionState(meeting: IMeeting): SelectionState {
+        const state = meeting.selectionState;
+        return {
+            lastSelectedParticipantId: state?.lastSelectedParticipantId?.toString(),
+            rotationKey: state?.rotationKey,
+            drawnThisCycle: (state?.drawnThisCycle || []).map(id => id.toString()),
+            cycle: state?.cycle || 1
+        };
+    }
+
+    /**
+     * Meeting update fields that persist a strategy state
+     */
+    static selectionStateUpdate(state: SelectionState) {
+        const { lastSelectedParticipantId, rotationKey, drawnThisCycle, cycle } = state;
+        return {
+            'selectionState.lastSelectedParticipantId': lastSelectedParticipantId,
+            'selectionState.rotationKey': rotationKey,
+            'selectionState.drawnThisCycle': drawnThisCycle,
+            'selectionState.cycle': cycle
+        };
+    }
+
+    /**
+     * Pick one participant from the pool using a registered selection strategy.
+     * Strategies see the statistics of the pool's fairness scope.
+     */
+    static pickParticipant(
+        participants: IParticipant[],
+        selectionMethod: string,
+        meeting: IMeeting,
+        options: PickOptions = {}
+    ): SelectionResult<IParticipant> | undefined {
+        const strategy = getSelectionStrategy(selectionMethod);
+        if (!strategy) {
+            throw new Error(`Unknown selection method: ${selectionMethod}`);
+        }
+
+        const candidates = participants.map(participant => ({
+            _id: participant._id,
+            name: participant.name,
+            ...this.statisticsOf(participant, options.statistics),
+            participant
+        }));
+        const result = strategy.select(candidates, {
+            random: options.random || RandomnessService.secureRandom,
+            state: options.state || this.getSelectionState(meeting),
+            inverseFrequencyExponent: this.resolveExponent(meeting, options)
+        });
+
+        return result && { participant: result.participant.participant, state: result.state };
+    }
+
+    /**
+     * Validate the roles of a multi-pick spin, returning an error message or null
+     */
+    static validateRoleRequest(request: RoleRequest): string | null {
+        const given = [request.roles, request.roleTemplate, request.count].filter(value => value !== undefined);
+        if (given.length > 1) {
+            return 'Only one of roles, roleTemplate or count can be given';
+        }
+        if (request.roles !== undefined) {
+            const roles = request.roles;
+            if (!Array.isArray(roles) || roles.length === 0 || roles.length > MAX_ROLES_PER_SPIN) {
+                return `roles must be an array of 1 to ${MAX_ROLES_PER_SPIN} role names`;
+            }
+            if (roles.some(role => typeof role !== 'string' || !role.trim() || role.length > 50)) {
+                return 'Role names must be non-empty strings of up to 50 characters';
+            }
+            if (new Set(roles.map(role => role.trim())).size !== roles.length) {
+                return 'Role names must be distinct';
+            }
+        }
+        if (request.roleTemplate !== undefined && (typeof request.roleTemplate !== 'string' || !request.roleTemplate.trim())) {
+            return 'roleTemplate must be a template name';
+        }
+        if (request.count !== undefined &&
+            !(Number.isInteger(request.count) && (request.count as number) > 0 && (request.count as number) <= MAX_ROLES_PER_SPIN)) {
+            return `count must be a whole number from 1 to ${MAX_ROLES_PER_SPIN}`;
+        }
+        return null;
+    }
+
+    /**
+     * Roles a validated multi-pick request assigns, unnamed for a count, or null for a single pick
+     */
+    static resolveRoles(meeting: IMeeting, request: RoleRequest): Array<string | undefined> | null {
+        if (Array.isArray(request.roles)) {
+            return request.roles.map(role => (role as string).trim());
+        }
+        if (typeof request.roleTemplate === 'string') {
+            const name = request.roleTemplate.trim();
+            const template = (meeting.settings?.roleTemplates || []).find(t => t.name === name);
+            if (!template) {
+                throw new Error('Role template not found');
+            }
+            return [...template.roles];
+        }
+        if (typeof request.count === 'number') {
+            return Array.from({ length: request.count }, () => undefined);
+        }
+        return null;
+    }
+
+    /**
+     * Pick a distinct participant for each role, in order. Every pick continues from the strategy
+     * state the previous one left, and seeded spins draw each role from its own seed so that every
+     * selection record can be replayed on its own.
+     */
+    static pickForRoles(
+        pool: EligibilityPool,
+        roles: Array<string | undefined>,
+        selectionMethod: string,
+        meeting: IMeeting,
+        randomness: RandomnessSetup,
+        options: PickOptions = {}
+    ): RolePick[] {
+        const picks: RolePick[] = [];
+        const picked = new Set<IParticipant>();
+        let state = options.state || this.getSelectionState(meeting);
+
+        roles.forEach((role, index) => {
+            const rolePool = this.narrowPool(pool, 'alreadySelectedThisRound', pool.eligible.filter(p => !picked.has(p)));
+            const roleRandomness = this.randomnessForRole(randomness, index);
+            const pickOptions = { ...options, random: roleRandomness.random, state };
+
+            const result = this.pickParticipant(rolePool.eligible, selectionMethod, meeting, pickOptions);
+            if (!result) {
+                throw new Error('Not enough eligible participants for every role');
+            }
+
+            picks.push({
+                role,
+                participant: result.participant,
+                state: result.state,
+                pool: rolePool,
+                audit: this.buildAudit(roleRandomness, rolePool.eligible, meeting, pickOptions)
+            });
+            picked.add(result.participant);
+            state = result.state;
+        });
+
+        return picks;
+    }
+
+    /**
+     * The RNG for the nth role of a spin. The first role uses the spin's own; later roles of a seeded
+     * spin extend the client seed with the role's position.
+     */
+    private static randomnessForRole(randomness: RandomnessSetup, index: number): RandomnessSetup {
+        const { audit } = randomness;
+        if (index === 0 || audit.rng !== 'seeded' || !audit.seed) {
+            return randomness;
+        }
+
+        const clientSeed = `${audit.clientSeed ? `${audit.clientSeed}:` : ''}role-${index + 1}`;
+        return {
+            random: RandomnessService.createSeededRandom(RandomnessService.combineSeeds(audit.seed, clientSeed)),
+            audit: { ...audit, clientSeed }
+        };
+    }
+
+    private static resolveExponent(meeting: IMeeting, options: PickOptions): number {
+        return options.inverseFrequencyExponent ?? meeting.settings?.inverseFrequencyExponent ?? 1;
+    }
+
+    /**
+     * Choose the RNG for a spin: a secure RNG by default, or the seed behind a
+     * previously published commitment (optionally mixed with client entropy)
+     */
+    static async prepareRandomness(
+        meetingId: string | mongoose.Types.ObjectId,
+        commitmentId?: string,
+        clientSeed?: string,
+        session?: ClientSession
+    ): Promise<RandomnessSetup> {
+        if (!commitmentId) {
+            return { random: RandomnessService.secureRandom, audit: { rng: 'crypto' } };
+        }
+
+        const commitment = await SeedCommitment.findOneAndUpdate(
+            {
+                _id: commitmentId,
+                status: 'pending',
+                expiresAt: { $gt: new Date() },
+                $or: [{ meetingId: { $exists: false } }, { meetingId }]
+            },
+            { $set: { status: 'used' } },
+            { new: true, session }
+        ).select('+seed');
+
+        if (!commitment) {
+            throw new Error('Seed commitment not found, expired or already used');
+        }
+
+        return {
+            random: RandomnessService.createSeededRandom(RandomnessService.combineSeeds(commitment.seed, clientSeed)),
+            audit: {
+                rng: 'seeded',
+                seedHash: commitment.seedHash,
+                seed: commitment.seed,
+                clientSeed,
+                commitmentId: commitment._id as mongoose.Types.ObjectId
+            }
+        };
+    }
+
+    /**
+     * Capture everything needed to replay a seeded pick
+     */
+    static buildAudit(
+        randomness: RandomnessSetup,
+        participants: IParticipant[],
+        meeting: IMeeting,
+        options: PickOptions = {}
+    ): Partial<ISelectionAudit> {
+        if (randomness.audit.rng !== 'seeded') {
+            return randomness.audit;
+        }
+
+        const state = options.state || this.getSelectionState(meeting);
+        return {
+            ...randomness.audit,
+            candidates: participants.map(p => ({
+                participantId: p._id as mongoose.Types.ObjectId,
+                name: p.name,
+                ...this.statisticsOf(p, options.statistics)
+            })),
+            strategyState: {
+                lastSelectedParticipantId: state.lastSelectedParticipantId
+                    ? new mongoose.Types.ObjectId(state.lastSelectedParticipantId)
+                    : undefined,
+                rotationKey: state.rotationKey,
+                drawnThisCycle: state.drawnThisCycle.map(id => new mongoose.Types.ObjectId(id)),
+                cycle: state.cycle
+            },
+            inverseFrequencyExponent: this.resolveExponent(meeting, options)
+        };
+    }
+
+    /**
+     * Public part of a selection audit: the RNG used and, for seeded spins, the revealed seed
+     */
+    static formatAudit(audit?: Partial<ISelectionAudit>) {
+        return audit && {
+            rng: audit.rng,
+            seedHash: audit.seedHash,
+            seed: audit.seed,
+            clientSeed: audit.clientSeed,
+            commitmentId: audit.commitmentId
+        };
+    }
+
+    /**
+     * Replay a seeded selection from its stored candidates and seed
+     */
+    static replaySelection(record: ISelectionRecord) {
+        const audit = record.metadata?.audit;
+        if (!audit || audit.rng !== 'seeded' || !audit.seed || !audit.candidates) {
+            return { verifiable: false as const };
+        }
+
+        const strategy = getSelectionStrategy(record.selectionMethod);
+        if (!strategy) {
+            return { verifiable: false as const };
+        }
+
+        const seedHashMatches = RandomnessService.hashSeed(audit.seed) === audit.seedHash;
+        const result = strategy.select(
+            audit.candidates.map(c => ({
+                _id: c.participantId,
+                name: c.name,
+                selectionCount: c.selectionCount,
+                lastSelected: c.lastSelected
+            })),
+            {
+                random: RandomnessService.createSeededRandom(RandomnessService.combineSeeds(audit.seed, audit.clientSeed)),
+                state: {
+                    lastSelectedParticipantId: audit.strategyState?.lastSelectedParticipantId?.toString(),
+                    rotationKey: audit.strategyState?.rotationKey,
+                    drawnThisCycle: (audit.strategyState?.drawnThisCycle || []).map(id => id.toString()),
+                    cycle: audit.strategyState?.cycle || 1
+                },
+                inverseFrequencyExponent: audit.inverseFrequencyExponent ?? 1
+            }
+        );
+
+        const replayedParticipantId = result ? result.participant._id.toString() : null;
+        return {
+            verifiable: true as const,
+            seedHashMatches,
+            replayedParticipantId,
+            recordedParticipantId: record.participantId.toString(),
+            verified: seedHashMatches && replayedParticipantId === record.participantId.toString()
+        };
+    }
+
+    /**
+     * Persist a selection and update participant, membership and meeting statistics
+     */
+    static async recordSelection(options: RecordSelectionOptions, session?: ClientSession) {
+        const { meetingId, participant, selectionMethod, sessionId, selectionRound, spinDuration } = options;
+        const selectedAt = new Date();
+
+        const selectionRecord = new SelectionRecord({
+            meetingId,
+            participantId: participant._id,
+            participantName: participant.name,
+            department: participant.department,
+            teamId: participant.teamId,
+            selectionDuration: spinDuration,
+            sessionId,
+            selectionMethod,
+            assignedRole: options.assignedRole,
+            metadata: {
+                excludedRecentlySelected: options.excludedRecentlySelected,
+                totalEligible: options.totalEligible,
+                spinDuration,
+                selectionRound,
+                fairnessScope: options.eligibility?.fairnessScope,
+                eligibility: options.eligibility && this.toEligibilityRecord(options.eligibility),
+                audit: options.audit
+            },
+            selectedAt
+        });
+
+        // Added to the daily rollup by the caller once the transaction commits
+        await selectionRecord.save({ session });
+
+        if (options.audit?.commitmentId) {
+            // A multi-pick spin links its commitment to the first role's record
+            await SeedCommitment.updateOne(
+                { _id: options.audit.commitmentId, selectionRecordId: { $exists: false } },
+                { $set: { selectionRecordId: selectionRecord._id } },
+                { session }
+            );
+        }
+
+        await Participant.findByIdAndUpdate(
+            participant._id,
+            {
+                $inc: { selectionCount: 1 },
+                $set: { lastSelected: selectedAt }
+            },
+            { session }
+        );
+        await MeetingMembershipService.recordSelection(meetingId, participant, selectedAt, session);
+
+        const meetingUpdate: any = {
+            'statistics.lastActivity': selectedAt,
+            ...(options.selectionState && this.selectionStateUpdate(options.selectionState))
+        };
+
+        await Meeting.findByIdAndUpdate(
+            meetingId,
+            {
+                $inc: { 'statistics.totalSpins': 1 },
+                $set: meetingUpdate
+            },
+            { session }
+        );
+
+        return selectionRecord;
+    }
+}
+
+export default SelectionService;
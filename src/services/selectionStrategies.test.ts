@@ -0,0 +1,209 @@
+import { RandomnessService } from './randomness';
+import {
+    fairShuffleStrategy,
+    inverseFrequencyStrategy,
+    leastRecentlySelectedStrategy,
+    pickWeightedIndex,
+    randomStrategy,
+    roundRobinStrategy,
+    SelectionCandidate,
+    SelectionContext,
+    SelectionState,
+    SelectionStrategy,
+    weightedStrategy
+} from './selectionStrategies';
+
+const candidate = (id: string, name: string, selectionCount = 0, lastSelected?: string): SelectionCandidate => ({
+    _id: id,
+    name,
+    selectionCount,
+    lastSelected: lastSelected ? new Date(lastSelected) : null
+});
+
+const emptyState = (): SelectionState => ({ drawnThisCycle: [], cycle: 0 });
+
+const contextWith = (random: () => number, state: SelectionState = emptyState(), inverseFrequencyExponent = 1): SelectionContext => ({
+    random,
+    state,
+    inverseFrequencyExponent
+});
+
+// Random values spread evenly over [0, 1), so pick counts equal pick probabilities times `draws`
+const evenlySpaced = (draws: number) => {
+    let i = 0;
+    return () => (i++ % draws + 0.5) / draws;
+};
+
+/**
+ * Spin a strategy repeatedly, carrying its state from one pick to the next
+ */
+const spin = (strategy: SelectionStrategy, participants: SelectionCandidate[], spins: number, random: () => number, exponent = 1) => {
+    let state = emptyState();
+    const picks: string[] = [];
+    for (let i = 0; i < spins; i++) {
+        const result = strategy.select(participants, contextWith(random, state, exponent))!;
+        picks.push(result.participant._id);
+        state = result.state;
+    }
+    return { picks, state };
+};
+
+const shareOf = (picks: string[], id: string) => picks.filter(pick => pick === id).length / picks.length;
+
+describe('pickWeightedIndex', () => {
+    it('picks indexes in proportion to their weights', () => {
+        const random = evenlySpaced(1000);
+        const counts = [0, 0, 0];
+        for (let i = 0; i < 1000; i++) {
+            counts[pickWeightedIndex([1, 2, 7], random)]++;
+        }
+        expect(counts).toEqual([100, 200, 700]);
+    });
+
+    it('falls back to a uniform pick when every weight is zero', () => {
+        expect(pickWeightedIndex([0, 0, 0, 0], () => 0.6)).toBe(2);
+    });
+});
+
+describe('random strategy', () => {
+    it('gives every participant the same chance', () => {
+        const participants = ['a', 'b', 'c', 'd'].map(id => candidate(id, id, id === 'a' ? 10 : 0));
+        const { picks } = spin(randomStrategy, participants, 400, evenlySpaced(400));
+
+        participants.forEach(p => expect(shareOf(picks, p._id)).toBe(0.25));
+    });
+});
+
+describe('weighted strategy', () => {
+    it('weights participants linearly by how far behind the most selected they are', () => {
+        // Weights max - count + 1: 5, 3 and 1
+        const participants = [candidate('a', 'A', 0), candidate('b', 'B', 2), candidate('c', 'C', 4)];
+        const { picks } = spin(weightedStrategy, participants, 900, evenlySpaced(900));
+
+        expect(shareOf(picks, 'a')).toBeCloseTo(5 / 9);
+        expect(shareOf(picks, 'b')).toBeCloseTo(3 / 9);
+        expect(shareOf(picks, 'c')).toBeCloseTo(1 / 9);
+    });
+});
+
+describe('round-robin strategy', () => {
+    const participants = [
+        candidate('3', 'Carol'),
+        candidate('1', 'alice'),
+        candidate('4', 'Dave'),
+        candidate('2', 'Bob')
+    ];
+
+    it('rotates alphabetically through the pool and wraps around', () => {
+        const { picks } = spin(roundRobinStrategy, participants, 8, () => 0.5);
+        expect(picks).toEqual(['1', '2', '3', '4', '1', '2', '3', '4']);
+    });
+
+    it('does not depend on the random source', () => {
+        expect(spin(roundRobinStrategy, participants, 6, () => 0).picks)
+            .toEqual(spin(roundRobinStrategy, participants, 6, () => 0.999).picks);
+    });
+
+    it('continues after the previous pick when the roster changes', () => {
+        const { state } = spin(roundRobinStrategy, participants, 2, () => 0.5);
+        expect(state.lastSelectedParticipantId).toBe('2');
+
+        // Carol left and Ann joined: the rotation moves on from Bob to Dave rather than restarting
+        const changed = [...participants.filter(p => p._id !== '3'), candidate('5', 'Ann')];
+        const next = roundRobinStrategy.select(changed, contextWith(() => 0.5, state))!;
+        expect(next.participant._id).toBe('4');
+    });
+});
+
+describe('least-recently-selected strategy', () => {
+    it('picks whoever was selected longest ago', () => {
+        const participants = [
+            candidate('a', 'A', 3, '2025-03-01T10:00:00Z'),
+            candidate('b', 'B', 1, '2025-01-15T10:00:00Z'),
+            candidate('c', 'C', 0, '2025-02-01T10:00:00Z')
+        ];
+        expect(leastRecentlySelectedStrategy.select(participants, contextWith(() => 0.99))!.participant._id).toBe('b');
+    });
+
+    it('picks never-selected participants first', () => {
+        const participants = [
+            candidate('a', 'A', 1, '2020-01-01T00:00:00Z'),
+            candidate('b', 'B')
+        ];
+        expect(leastRecentlySelectedStrategy.select(participants, contextWith(() => 0))!.participant._id).toBe('b');
+    });
+
+    it('breaks ties between the oldest with the random source', () => {
+        const participants = [
+            candidate('a', 'A', 1, '2025-01-01T00:00:00Z'),
+            candidate('b', 'B', 1, '2025-01-01T00:00:00Z'),
+            candidate('c', 'C', 1, '2025-06-01T00:00:00Z')
+        ];
+        expect(leastRecentlySelectedStrategy.select(participants, contextWith(() => 0.1))!.participant._id).toBe('a');
+        expect(leastRecentlySelectedStrategy.select(participants, contextWith(() => 0.9))!.participant._id).toBe('b');
+    });
+});
+
+describe('inverse-frequency strategy', () => {
+    const participants = [candidate('a', 'A', 0), candidate('b', 'B', 1), candidate('c', 'C', 3)];
+
+    // Exact share of each participant for 1 / (count + 1) ^ exponent
+    const expectedShares = (exponent: number) => {
+        const weights = participants.map(p => 1 / Math.pow(p.selectionCount + 1, exponent));
+        const total = weights.reduce((sum, weight) => sum + weight, 0);
+        return weights.map(weight => weight / total);
+    };
+
+    it.each([0, 1, 2])('weights by 1 / (selections + 1) ^ %d', exponent => {
+        const { picks } = spin(inverseFrequencyStrategy, participants, 1000, evenlySpaced(1000), exponent);
+        const expected = expectedShares(exponent);
+
+        participants.forEach((p, i) => expect(shareOf(picks, p._id)).toBeCloseTo(expected[i], 2));
+    });
+
+    it('favors the least selected more strongly as the exponent grows', () => {
+        const shares = [0, 0.5, 1, 2, 4].map(exponent =>
+            shareOf(spin(inverseFrequencyStrategy, participants, 1000, evenlySpaced(1000), exponent).picks, 'a'));
+
+        expect(shares[0]).toBeCloseTo(1 / 3, 2);
+        shares.slice(1).forEach((share, i) => expect(share).toBeGreaterThan(shares[i]));
+    });
+});
+
+describe('fair-shuffle strategy', () => {
+    const participants = ['a', 'b', 'c', 'd', 'e'].map(id => candidate(id, id.toUpperCase()));
+
+    it('draws everyone exactly once per cycle', () => {
+        const { picks, state } = spin(fairShuffleStrategy, participants, 25, RandomnessService.createSeededRandom('fair-shuffle'));
+
+        for (let cycle = 0; cycle < 5; cycle++) {
+            expect([...picks.slice(cycle * 5, cycle * 5 + 5)].sort()).toEqual(['a', 'b', 'c', 'd', 'e']);
+        }
+        expect(state.cycle).toBe(4);
+        expect(state.drawnThisCycle).toHaveLength(5);
+    });
+
+    it('shuffles differently between cycles', () => {
+        const { picks } = spin(fairShuffleStrategy, participants, 25, RandomnessService.createSeededRandom('fair-shuffle'));
+        const cycles = new Set([0, 1, 2, 3, 4].map(cycle => picks.slice(cycle * 5, cycle * 5 + 5).join('')));
+
+        expect(cycles.size).toBeGreaterThan(1);
+    });
+
+    it('finishes the cycle when someone leaves the pool', () => {
+        const first = spin(fairShuffleStrategy, participants, 2, () => 0);
+        expect(first.picks).toEqual(['a', 'b']);
+
+        // 'c' left: the remaining two undrawn participants complete the cycle before a refill
+        const remaining = participants.filter(p => p._id !== 'c');
+        let state = first.state;
+        const picks: string[] = [];
+        for (let i = 0; i < 3; i++) {
+            const result = fairShuffleStrategy.select(remaining, contextWith(() => 0, state))!;
+            picks.push(result.participant._id);
+            state = result.state;
+        }
+        expect(picks).toEqual(['d', 'e', 'a']);
+        expect(state.cycle).toBe(1);
+    });
+});
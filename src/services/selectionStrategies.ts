@@ -0,0 +1,201 @@
+import { SelectionMethod } from '../models/SelectionRecord';
+
+/**
+ * Selection Strategies
+ *
+ * Each strategy picks one participant from an eligible pool. Strategies are pure:
+ * any state they need between spins (rotation position, shuffle bag) is passed in
+ * through the context and handed back in the result, and SelectionService persists
+ * it on the meeting.
+ */
+
+export interface SelectionCandidate {
+    _id: any;
+    name: string;
+    selectionCount: number;
+    lastSelected?: Date | null;
+}
+
+export interface SelectionState {
+    lastSelectedParticipantId?: string;
+    rotationKey?: string;
+    drawnThisCycle: string[];
+    cycle: number;
+}
+
+export interface SelectionContext {
+    random: () => number;
+    state: SelectionState;
+    inverseFrequencyExponent: number;
+}
+
+export interface SelectionResult<T extends SelectionCandidate> {
+    participant: T;
+    state: SelectionState;
+}
+
+export interface SelectionStrategy {
+    name: Exclude<SelectionMethod, 'manual'>;
+    description: string;
+    // Strategies that already balance turns ignore the "exclude recently selected" pre-filter
+    handlesRecency: boolean;
+    select<T extends SelectionCandidate>(participants: T[], context: SelectionContext): SelectionResult<T> | undefined;
+}
+
+const idOf = (candidate: SelectionCandidate): string => candidate._id.toString();
+
+const lastSelectedTime = (candidate: SelectionCandidate): number =>
+    candidate.lastSelected ? new Date(candidate.lastSelected).getTime() : 0;
+
+/**
+ * Stable rotation key: alphabetical by name, ties broken by ID
+ */
+export const rotationKeyOf = (candidate: SelectionCandidate): string =>
+    `${candidate.name.toLowerCase()}\u0000${idOf(candidate)}`;
+
+/**
+ * Pick an index with probability proportional to its weight
+ */
+export const pickWeightedIndex = (weights: number[], random: () => number): number => {
+    const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+    if (totalWeight <= 0) {
+        return Math.floor(random() * weights.length);
+    }
+
+    const target = random() * totalWeight;
+    let weightSum = 0;
+    for (let i = 0; i < weights.length; i++) {
+        weightSum += weights[i];
+        if (target < weightSum) {
+            return i;
+        }
+    }
+    return weights.length - 1;
+};
+
+const withPick = <T extends SelectionCandidate>(
+    participant: T | undefined,
+    context: SelectionContext,
+    state: Partial<SelectionState> = {}
+): SelectionResult<T> | undefined => {
+    if (!participant) return undefined;
+
+    return {
+        participant,
+        state: {
+            ...context.state,
+            ...state,
+            lastSelectedParticipantId: idOf(participant)
+        }
+    };
+};
+
+export const randomStrategy: SelectionStrategy = {
+    name: 'random',
+    description: 'Uniform random pick from the eligible pool',
+    handlesRecency: false,
+    select(participants, context) {
+        return withPick(participants[Math.floor(context.random() * participants.length)], context);
+    }
+};
+
+export const weightedStrategy: SelectionStrategy = {
+    name: 'weighted',
+    description: 'Favors participants with fewer selections (linear weights)',
+    handlesRecency: false,
+    select(participants, context) {
+        const maxSelections = Math.max(...participants.map(p => p.selectionCount));
+        const weights = participants.map(p => maxSelections - p.selectionCount + 1);
+        return withPick(participants[pickWeightedIndex(weights, context.random)], context);
+    }
+};
+
+export const inverseFrequencyStrategy: SelectionStrategy = {
+    name: 'inverse-frequency',
+    description: 'Weights each participant by 1 / (selections + 1) ^ exponent',
+    handlesRecency: false,
+    select(participants, context) {
+        const exponent = context.inverseFrequencyExponent;
+        const weights = participants.map(p => 1 / Math.pow(p.selectionCount + 1, exponent));
+        return withPick(participants[pickWeightedIndex(weights, context.random)], context);
+    }
+};
+
+export const roundRobinStrategy: SelectionStrategy = {
+    name: 'round-robin',
+    description: 'Deterministic alphabetical rotation through the pool',
+    handlesRecency: true,
+    select(participants, context) {
+        const ordered = [...participants].sort((a, b) => rotationKeyOf(a).localeCompare(rotationKeyOf(b)));
+        const lastKey = context.state.rotationKey;
+
+        // Next participant after the previous pick, wrapping around; survives roster changes
+        const next = (lastKey && ordered.find(p => rotationKeyOf(p).localeCompare(lastKey) > 0)) || ordered[0];
+        return withPick(next, context, next ? { rotationKey: rotationKeyOf(next) } : {});
+    }
+};
+
+export const leastRecentlySelectedStrategy: SelectionStrategy = {
+    name: 'least-recently-selected',
+    description: 'Picks whoever has waited longest, never-selected first; ties broken randomly',
+    handlesRecency: true,
+    select(participants, context) {
+        const oldest = Math.min(...participants.map(lastSelectedTime));
+        const candidates = participants.filter(p => lastSelectedTime(p) === oldest);
+        return withPick(candidates[Math.floor(context.random() * candidates.length)], context);
+    }
+};
+
+export const fairShuffleStrategy: SelectionStrategy = {
+    name: 'fair-shuffle',
+    description: 'Shuffle bag: everyone is drawn exactly once per cycle',
+    handlesRecency: true,
+    select(participants, context) {
+        const poolIds = new Set(participants.map(idOf));
+        let drawn = context.state.drawnThisCycle.filter(id => poolIds.has(id));
+        let cycle = context.state.cycle;
+        let bag = participants.filter(p => !drawn.includes(idOf(p)));
+
+        // Refill the bag once everyone has been drawn
+        if (bag.length === 0) {
+            drawn = [];
+            cycle += 1;
+            bag = participants;
+        }
+
+        const picked = bag[Math.floor(context.random() * bag.length)];
+        return withPick(picked, context, picked ? { drawnThisCycle: [...drawn, idOf(picked)], cycle } : {});
+    }
+};
+
+const registry = new Map<string, SelectionStrategy>();
+
+/**
+ * Register a selection strategy, replacing any existing one with the same name
+ */
+export const registerSelectionStrategy = (strategy: SelectionStrategy) => {
+    registry.set(strategy.name, strategy);
+};
+
+/**
+ * Look up a registered selection strategy
+ */
+export const getSelectionStrategy = (name: string): SelectionStrategy | undefined => {
+    return registry.get(name);
+};
+
+/**
+ * List registered selection strategies
+ */
+export const listSelectionStrategies = (): SelectionStrategy[] => {
+    return Array.from(registry.values());
+};
+
+[
+    randomStrategy,
+    weightedStrategy,
+    inverseFrequencyStrategy,
+    roundRobinStrategy,
+    leastRecentlySelectedStrategy,
+    fairShuffleStrategy
+].forEach(registerSelectionStrategy);
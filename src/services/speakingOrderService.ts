@@ -0,0 +1,192 @@
+import mongoose, { ClientSession } from 'mongoose';
+import Meeting, { IMeeting } from '../models/meeting';
+import Participant from '../models/participant';
+import { ISelectionRecord, SelectionMethod } from '../models/SelectionRecord';
+import SpinSession, { ISpinSession, SpeakingOrderAction } from '../models/SpinSession';
+import { RandomnessService } from './randomness';
+import { EligibilityPool, ParticipantStatistics, SelectionService } from './selectionService';
+
+// Gap between consecutive turns of the previous order when they stand in for selection times
+const TURN_SPACING_MS = 1000;
+
+export interface CreateSpeakingOrderOptions {
+    department: string;
+    selectionMethod: Exclude<SelectionMethod, 'manual'>;
+    startedBy?: string;
+}
+
+export class SpeakingOrderService {
+    /**
+     * Statistics to order by: everyone in the meeting's previous speaking order counts as selected when
+     * it started, the later their turn (or skipped) the longer ago. Recency-based strategies such as
+     * least-recently-selected therefore move whoever went last towards the front. Participants picked
+     * again since then keep their actual statistics.
+     */
+    static async getOrderStatistics(meeting: IMeeting, pool: EligibilityPool, session?: ClientSession): Promise<Map<string, ParticipantStatistics>> {
+        const statistics = new Map(pool.statistics);
+        const previous = await SpinSession.findOne({ meetingId: meeting._id, mode: 'order' })
+            .sort({ startedAt: -1 })
+            .session(session || null);
+        if (!previous) {
+            return statistics;
+        }
+
+        const spoken = previous.events
+            .filter(event => event.action === 'next')
+            .map(event => event.participantId.toString());
+        const notSpoken = previous.speakingOrder
+            .map(entry => entry.participantId.toString())
+            .filter(id => !spoken.includes(id));
+        const lastEvent = previous.events[previous.events.length - 1];
+        const previousEnd = previous.endedAt || lastEvent?.at || previous.startedAt;
+
+        [...spoken, ...notSpoken].forEach((participantId, turn) => {
+            const current = statistics.get(participantId);
+            if (!current || (current.lastSelected && new Date(current.lastSelected) > previousEnd)) {
+                return;
+            }
+            statistics.set(participantId, {
+                ...current,
+                lastSelected: new Date(previous.startedAt.getTime() - turn * TURN_SPACING_MS)
+            });
+        });
+        return statistics;
+    }
+
+    /**
+     * Order everyone eligible for a meeting with a selection strategy and persist the order as a session
+     */
+    static async create(meeting: IMeeting, options: CreateSpeakingOrderOptions, session?: ClientSession): Promise<ISpinSession> {
+        const pool = await SelectionService.excludeAbsent(
+            await SelectionService.getEligibilityPool(meeting, options.department, session),
+            meeting,
+            session
+        );
+        if (pool.eligible.length === 0) {
+            throw new Error('No eligible participants found');
+        }
+
+        const picks = SelectionService.pickForRoles(
+            pool,
+            pool.eligible.map(() => undefined),
+            options.selectionMethod,
+            meeting,
+            { random: RandomnessService.secureRandom, audit: { rng: 'crypto' } },
+            { statistics: await this.getOrderStatistics(meeting, pool, session) }
+        );
+
+        // Stateful strategies continue from where the order left off
+        await Meeting.findByIdAndUpdate(
+            meeting._id,
+            { $set: SelectionService.selectionStateUpdate(picks[picks.length - 1].state) },
+            { session }
+        );
+
+        const spinSession = new SpinSession({
+            meetingId: meeting._id,
+            startedBy: options.startedBy,
+            department: options.department,
+            mode: 'order',
+            selectionMethod: options.selectionMethod,
+            speakingOrder: picks.map(pick => ({
+                participantId: pick.participant._id,
+                participantName: pick.participant.name
+            }))
+        });
+        await spinSession.save({ session });
+        return spinSession;
+    }
+
+    /**
+     * Move a speaking order along: "next" records the current speaker's turn in the selection history,
+     * "skip" passes them over and "move-to-end" puts them behind everyone still waiting.
+     * The session ends once nobody is waiting.
+     */
+    static async advance(
+        spinSession: ISpinSession,
+        action: SpeakingOrderAction,
+        performedBy?: string,
+        session?: ClientSession
+    ) {
+        if (spinSession.mode !== 'order') {
+            throw new Error('Not a speaking order session');
+        }
+        if (spinSession.status !== 'active') {
+            throw new Error('Spin session has ended');
+        }
+
+        const order = spinSession.speakingOrder.map(entry => ({
+            participantId: entry.participantId,
+            participantName: entry.participantName,
+            status: entry.status,
+            selectionRecordId: entry.selectionRecordId
+        }));
+        const index = order.findIndex(entry => entry.status === 'waiting');
+        if (index === -1) {
+            throw new Error('Speaking order is complete');
+        }
+        const speaker = order[index];
+
+        let selectionRecord: ISelectionRecord | undefined;
+        if (action === 'next') {
+            const participant = await Participant.findById(speaker.participantId).session(session || null);
+            if (!participant) {
+                throw new Error('Participant not found');
+            }
+
+            selectionRecord = await SelectionService.recordSelection({
+                meetingId: spinSession.meetingId,
+                participant,
+                selectionMethod: spinSession.selectionMethod,
+                sessionId: (spinSession._id as mongoose.Types.ObjectId).toString(),
+                // The speaker's turn in the order
+                selectionRound: order.filter(entry => entry.status === 'spoken').length + 1,
+                excludedRecentlySelected: false,
+                totalEligible: order.length
+            }, session);
+            order[index] = { ...speaker, status: 'spoken', selectionRecordId: selectionRecord._id as mongoose.Types.ObjectId };
+        } else if (action === 'skip') {
+            order[index] = { ...speaker, status: 'skipped' };
+        } else {
+            order.push(...order.splice(index, 1));
+        }
+
+        const event = {
+            action,
+            participantId: speaker.participantId,
+            participantName: speaker.participantName,
+            selectionRecordId: selectionRecord?._id,
+            performedBy,
+            at: new Date()
+        };
+        const finished = !order.some(entry => entry.status === 'waiting');
+
+        // Guard on the number of events so concurrent requests cannot both apply
+        const updatedSession = await SpinSession.findOneAndUpdate(
+            { _id: spinSession._id, status: 'active', events: { $size: spinSession.events.length } },
+            {
+                $set: {
+                    speakingOrder: order,
+                    ...(finished && { status: 'ended', endedAt: event.at })
+                },
+                ...(selectionRecord && { $inc: { totalSelections: 1 } }),
+                $push: { events: event }
+            },
+            { new: true, session }
+        );
+        if (!updatedSession) {
+            throw new Error('Speaking order was updated by another request, please retry');
+        }
+
+        return { session: updatedSession, event, selectionRecord };
+    }
+
+    /**
+     * The participant whose turn it is, or null once nobody is waiting
+     */
+    static currentSpeaker(spinSession: ISpinSession) {
+        return spinSession.speakingOrder.find(entry => entry.status === 'waiting') || null;
+    }
+}
+
+export default SpeakingOrderService;
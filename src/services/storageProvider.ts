@@ -0,0 +1,247 @@
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import {
+    DeleteObjectCommand,
+    GetObjectCommand,
+    HeadObjectCommand,
+    ListObjectsV2Command,
+    S3Client
+} from '@aws-sdk/client-s3';
+import { Upload } from '@aws-sdk/lib-storage';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+
+export type StorageDriver = 'local' | 's3';
+
+export interface StoredObject {
+    key: string;
+    size: number;
+    lastModified: Date;
+}
+
+export interface DownloadUrlOptions {
+    fileName: string;
+    contentType: string;
+    expiresInSeconds: number;
+}
+
+/**
+ * Where export files live. Keys are relative paths such as `<organizationId>/<file name>`.
+ */
+export interface StorageProvider {
+    readonly driver: StorageDriver;
+    upload(key: string, body: Readable, contentType: string): Promise<void>;
+    open(key: string): Promise<{ stream: Readable; size?: number }>;
+    exists(key: string): Promise<boolean>;
+    // URL the client can fetch the file from directly, or null when the app has to serve it
+    getDownloadUrl(key: string, options: DownloadUrlOptions): Promise<string | null>;
+    delete(key: string): Promise<void>;
+    list(prefix?: string): AsyncIterable<StoredObject>;
+}
+
+/**
+ * Files on the local disk. Only suitable for a single instance with a persistent disk.
+ */
+export class LocalStorageProvider implements StorageProvider {
+    readonly driver = 'local';
+
+    constructor(private root: string) {}
+
+    async upload(key: string, body: Readable) {
+        const filePath = this.resolve(key);
+        await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+        await pipeline(body, fs.createWriteStream(filePath));
+    }
+
+    async open(key: string) {
+        const filePath = this.resolve(key);
+        const stats = await fs.promises.stat(filePath).catch(() => null);
+        if (!stats) {
+            throw new Error('File not found or expired');
+        }
+        return { stream: fs.createReadStream(filePath), size: stats.size };
+    }
+
+    async exists(key: string) {
+        return fs.existsSync(this.resolve(key));
+    }
+
+    async getDownloadUrl() {
+        return null;
+    }
+
+    async delete(key: string) {
+        await fs.promises.rm(this.resolve(key), { force: true });
+    }
+
+    async *list(prefix: string = '') {
+        yield* this.walk(this.resolve(prefix));
+    }
+
+    private async *walk(directory: string): AsyncIterable<StoredObject> {
+        const entries = await fs.promises.readdir(directory, { withFileTypes: true }).catch(() => []);
+        for (const entry of entries) {
+            const entryPath = path.join(directory, entry.name);
+            if (entry.isDirectory()) {
+                yield* this.walk(entryPath);
+            } else if (entry.isFile()) {
+                const stats = await fs.promises.stat(entryPath);
+                yield {
+                    key: path.relative(this.root, entryPath).split(path.sep).join('/'),
+                    size: stats.size,
+                    lastModified: stats.mtime
+                };
+            }
+        }
+    }
+
+    // Keys never reach outside the storage root
+    private resolve(key: string): string {
+        const filePath = path.resolve(this.root, key);
+        if (filePath !== this.root && !filePath.startsWith(this.root + path.sep)) {
+            throw new Error('Invalid storage key');
+        }
+        return filePath;
+    }
+}
+
+export interface S3StorageOptions {
+    bucket: string;
+    prefix?: string;
+    region?: string;
+    // Custom endpoint for S3-compatible services such as MinIO
+    endpoint?: string;
+    forcePathStyle?: boolean;
+    accessKeyId?: string;
+    secretAccessKey?: string;
+}
+
+/**
+ * Files in an S3 bucket or an S3-compatible service, handed out as presigned URLs
+ */
+export class S3StorageProvider implements StorageProvider {
+    readonly driver = 's3';
+    private client: S3Client;
+    private bucket: string;
+    private prefix: string;
+
+    constructor(options: S3StorageOptions) {
+        this.bucket = options.bucket;
+        this.prefix = options.prefix || '';
+        this.client = new S3Client({
+            region: options.region || 'us-east-1',
+            endpoint: options.endpoint,
+            forcePathStyle: options.forcePathStyle,
+            // Without explicit keys the default AWS credential chain applies
+            credentials: options.accessKeyId && options.secretAccessKey
+                ? { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey }
+                : undefined
+        });
+    }
+
+    async upload(key: string, body: Readable, contentType: string) {
+        // Multipart upload, so the file is streamed without knowing its size up front
+        await new Upload({
+            client: this.client,
+            params: { Bucket: this.bucket, Key: this.prefix + key, Body: body, ContentType: contentType }
+        }).done();
+    }
+
+    async open(key: string) {
+        try {
+            const object = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: this.prefix + key }));
+            return { stream: object.Body as Readable, size: object.ContentLength };
+        } catch (error) {
+            if (this.isNotFound(error)) {
+                throw new Error('File not found or expired');
+            }
+            throw error;
+        }
+    }
+
+    async exists(key: string) {
+        try {
+            await this.client.send(new HeadObjectCommand({ Bucket: this.bucket, Key: this.prefix + key }));
+            return true;
+        } catch (error) {
+            if (this.isNotFound(error)) {
+                return false;
+            }
+            throw error;
+        }
+    }
+
+    async getDownloadUrl(key: string, options: DownloadUrlOptions) {
+        return getSignedUrl(this.client, new GetObjectCommand({
+            Bucket: this.bucket,
+            Key: this.prefix + key,
+            ResponseContentDisposition: `attachment; filename="${options.fileName}"`,
+            ResponseContentType: options.contentType
+        }), { expiresIn: options.expiresInSeconds });
+    }
+
+    async delete(key: string) {
+        await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: this.prefix + key }));
+    }
+
+    async *list(prefix: string = '') {
+        let continuationToken: string | undefined;
+        do {
+            const page = await this.client.send(new ListObjectsV2Command({
+                Bucket: this.bucket,
+                Prefix: this.prefix + prefix,
+                ContinuationToken: continuationToken
+            }));
+
+            for (const object of page.Contents || []) {
+                yield {
+                    key: object.Key!.slice(this.prefix.length),
+                    size: object.Size || 0,
+                    lastModified: object.LastModified || new Date(0)
+                };
+            }
+            continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+        } while (continuationToken);
+    }
+
+    private isNotFound(error: unknown): boolean {
+        const name = (error as { name?: string })?.name;
+        return name === 'NoSuchKey' || name === 'NotFound';
+    }
+}
+
+let storageProvider: StorageProvider | null = null;
+
+/**
+ * Export storage from STORAGE_DRIVER: `local` (default, EXPORT_STORAGE_DIR) or `s3` (S3_* variables)
+ */
+export const getStorageProvider = (): StorageProvider => {
+    if (storageProvider) {
+        return storageProvider;
+    }
+
+    const driver = process.env.STORAGE_DRIVER || 'local';
+    if (driver === 's3') {
+        if (!process.env.S3_BUCKET) {
+            throw new Error('S3_BUCKET is required when STORAGE_DRIVER is s3');
+        }
+        storageProvider = new S3StorageProvider({
+            bucket: process.env.S3_BUCKET,
+            prefix: process.env.S3_PREFIX ?? 'exports/',
+            region: process.env.S3_REGION,
+            endpoint: process.env.S3_ENDPOINT,
+            forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+            accessKeyId: process.env.S3_ACCESS_KEY_ID,
+            secretAccessKey: process.env.S3_SECRET_ACCESS_KEY
+        });
+    } else if (driver === 'local') {
+        storageProvider = new LocalStorageProvider(
+            path.resolve(process.env.EXPORT_STORAGE_DIR || path.join(process.cwd(), 'exports'))
+        );
+    } else {
+        throw new Error(`Unknown STORAGE_DRIVER "${driver}", expected "local" or "s3"`);
+    }
+
+    return storageProvider;
+};
@@ -0,0 +1,183 @@
+export const DEFAULT_TIMEZONE = 'UTC';
+
+export const GRANULARITIES = ['hour', 'day', 'week', 'month'] as const;
+
+export type Granularity = typeof GRANULARITIES[number];
+
+const HOUR_MS = 60 * 60 * 1000;
+const DATE_ONLY = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+interface LocalTime {
+    year: number;
+    month: number;
+    day: number;
+    hour: number;
+    minute: number;
+    second: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const formatterFor = (timezone: string): Intl.DateTimeFormat => {
+    let formatter = formatters.get(timezone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone: timezone,
+            hourCycle: 'h23',
+            year: 'numeric',
+            month: '2-digit',
+            day: '2-digit',
+            hour: '2-digit',
+            minute: '2-digit',
+            second: '2-digit'
+        });
+        formatters.set(timezone, formatter);
+    }
+    return formatter;
+};
+
+/**
+ * Calendar arithmetic in IANA timezones (e.g. "Africa/Lagos", "America/Los_Angeles")
+ */
+export class TimezoneService {
+
+    /**
+     * Check that a timezone is a valid IANA name
+     */
+    static isValid(timezone: string): boolean {
+        try {
+            formatterFor(timezone);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * Wall-clock time of an instant in a timezone
+     */
+    static localTime(date: Date, timezone: string): LocalTime {
+        const parts: Record<string, number> = {};
+        for (const part of formatterFor(timezone).formatToParts(date)) {
+            if (part.type !== 'literal') {
+                parts[part.type] = parseInt(part.value, 10);
+            }
+        }
+        return {
+            year: parts.year,
+            month: parts.month,
+            day: parts.day,
+            hour: parts.hour,
+            minute: parts.minute,
+            second: parts.second
+        };
+    }
+
+    /**
+     * Hour of day (0-23) of an instant in a timezone
+     */
+    static hourOf(date: Date, timezone: string): number {
+        return this.localTime(date, timezone).hour;
+    }
+
+    /**
+     * Calendar date of an instant in a timezone, as YYYY-MM-DD
+     */
+    static dateKey(date: Date, timezone: string): string {
+        const { year, month, day } = this.localTime(date, timezone);
+        return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+    }
+
+    /**
+     * Start of the local day an instant falls into
+     */
+    static startOfDay(date: Date, timezone: string): Date {
+        const { year, month, day } = this.localTime(date, timezone);
+        return this.fromLocalMidnight(year, month, day, timezone);
+    }
+
+    /**
+     * Start of the local day after the one starting at `dayStart` (days are 23-25 hours around DST changes)
+     */
+    static nextDay(dayStart: Date, timezone: string): Date {
+        return this.startOfDay(new Date(dayStart.getTime() + 36 * HOUR_MS), timezone);
+    }
+
+    /**
+     * Start of the local month an instant falls into
+     */
+    static startOfMonth(date: Date, timezone: string): Date {
+        const { year, month } = this.localTime(date, timezone);
+        return this.fromLocalMidnight(year, month, 1, timezone);
+    }
+
+    /**
+     * Start of the local hour an instant falls into (not always a whole UTC hour, e.g. Asia/Kolkata)
+     */
+    static startOfHour(date: Date, timezone: string): Date {
+        const { minute, second } = this.localTime(date, timezone);
+        return new Date(Math.floor(date.getTime() / 1000) * 1000 - (minute * 60 + second) * 1000);
+    }
+
+    /**
+     * Start of the local ISO week (Monday) an instant falls into
+     */
+    static startOfWeek(date: Date, timezone: string): Date {
+        const { year, month, day } = this.localTime(date, timezone);
+        const daysSinceMonday = (new Date(Date.UTC(year, month - 1, day)).getUTCDay() + 6) % 7;
+        return this.fromLocalMidnight(year, month, day - daysSinceMonday, timezone);
+    }
+
+    /**
+     * Start of the hour, day, week or month an instant falls into
+     */
+    static startOfBucket(date: Date, granularity: Granularity, timezone: string): Date {
+        switch (granularity) {
+            case 'hour': return this.startOfHour(date, timezone);
+            case 'week': return this.startOfWeek(date, timezone);
+            case 'month': return this.startOfMonth(date, timezone);
+            default: return this.startOfDay(date, timezone);
+        }
+    }
+
+    /**
+     * Start of the bucket following the one starting at `bucketStart`
+     */
+    static nextBucket(bucketStart: Date, granularity: Granularity, timezone: string): Date {
+        switch (granularity) {
+            case 'hour': return new Date(bucketStart.getTime() + HOUR_MS);
+            case 'week': return this.startOfWeek(new Date(bucketStart.getTime() + 7 * 24 * HOUR_MS + 12 * HOUR_MS), timezone);
+            case 'month': return this.startOfMonth(new Date(bucketStart.getTime() + 32 * 24 * HOUR_MS), timezone);
+            default: return this.nextDay(bucketStart, timezone);
+        }
+    }
+
+    /**
+     * Parse a date query value: a bare YYYY-MM-DD means local midnight in the timezone
+     */
+    static parseDate(value: string, timezone: string): Date {
+        const dateOnly = DATE_ONLY.exec(value);
+        if (dateOnly) {
+            return this.fromLocalMidnight(Number(dateOnly[1]), Number(dateOnly[2]), Number(dateOnly[3]), timezone);
+        }
+        return new Date(value);
+    }
+
+    /**
+     * Offset of a timezone from UTC at an instant, in milliseconds
+     */
+    static offsetAt(date: Date, timezone: string): number {
+        const local = this.localTime(date, timezone);
+        const asUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second);
+        return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+    }
+
+    private static fromLocalMidnight(year: number, month: number, day: number, timezone: string): Date {
+        const utcMidnight = Date.UTC(year, month - 1, day);
+        const guess = utcMidnight - this.offsetAt(new Date(utcMidnight), timezone);
+        // Re-read the offset at the guess in case a DST change falls in between
+        return new Date(utcMidnight - this.offsetAt(new Date(guess), timezone));
+    }
+}
+
+export default TimezoneService;